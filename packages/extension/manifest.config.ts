@@ -18,12 +18,19 @@ export default defineManifest({
 		"scripting",
 		"cookies",
 		"contextMenus",
+		"storage",
 	],
 	host_permissions: [
 		"*://*.sf.gov/*",
 		"https://api.sf.gov/*",
 		"https://api.staging.dev.sf.gov/*",
 	],
+	// environments added in the options can use other hosts, which are
+	// requested when the settings are saved
+	optional_host_permissions: [
+		"http://*/*",
+		"https://*/*",
+	],
 	background: {
 		service_worker: "src/background/service-worker.ts",
 		type: "module",
@@ -40,6 +47,21 @@ export default defineManifest({
 	side_panel: {
 		default_path: "src/sidepanel/index.html",
 	},
+	options_page: "src/options/index.html",
+	commands: {
+		_execute_action: {
+			suggested_key: { default: "Alt+Shift+K" },
+			description: "Open Karl Jr.",
+		},
+		"edit-on-karl": {
+			suggested_key: { default: "Alt+Shift+E" },
+			description: "Edit the current page on Karl",
+		},
+		"run-link-check": {
+			suggested_key: { default: "Alt+Shift+L" },
+			description: "Check the links on the current page",
+		},
+	},
 	content_scripts: [
 		{
 			matches: [
@@ -49,5 +71,14 @@ export default defineManifest({
 			js: ["src/content/admin-preview-monitor.ts"],
 			run_at: "document_idle",
 		},
+		{
+			matches: ["*://*.sf.gov/*"],
+			exclude_matches: [
+				"*://api.sf.gov/admin/*",
+				"*://api.staging.dev.sf.gov/admin/*",
+			],
+			js: ["src/content/element-highlighter.ts"],
+			run_at: "document_idle",
+		},
 	],
 });
@@ -1,23 +1,18 @@
 /**
  * Airtable API Client
- * Handles communication with the Airtable proxy API for user feedback data
+ * Handles communication with the Airtable proxy API for user feedback data,
+ * and with the other authenticated proxy endpoints
  */
 
-import type { FeedbackResponse, AirtableApiError } from "@sf-gov/shared";
+import type { AgencyFeedbackResponse, FeedbackQuery, FeedbackResponse, AirtableApiError, MediaUsageResponse, PdfCheckResult, StalePagesResponse } from "@sf-gov/shared";
+import { getActiveEnvironment, getCompanionApiUrl } from "@/lib/config.ts";
+import { cached, CACHE_POLICIES, invalidateCached, peekCached } from "@/lib/request-cache.ts";
 
 /**
- * API proxy endpoint URL
+ * Returns the URL of a proxy endpoint on the companion API server of the
+ * active environment, e.g. getApiUrl("feedback")
  */
-/**
- * API Base URL
- * Defaults to production, can be overridden by VITE_API_BASE_URL
- */
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "https://sfgov-companion-api.vercel.app";
-
-/**
- * API endpoint URLs
- */
-const API_FEEDBACK_URL = `${API_BASE_URL}/api/feedback`;
+const getApiUrl = (endpoint: string) => `${getCompanionApiUrl()}/api/${endpoint}`;
 
 /**
  * Default timeout for API requests in milliseconds
@@ -25,22 +20,10 @@ const API_FEEDBACK_URL = `${API_BASE_URL}/api/feedback`;
 const DEFAULT_TIMEOUT = 30000;
 
 /**
- * Cache TTL in milliseconds (5 minutes)
+ * Timeout for media usage requests in milliseconds, which take longer when
+ * the server has to rebuild its index
  */
-const CACHE_TTL = 5 * 60 * 1000;
-
-/**
- * Cache entry structure
- */
-interface FeedbackCacheEntry {
-	data: FeedbackResponse;
-	timestamp: number;
-}
-
-/**
- * In-memory cache for feedback data
- */
-const feedbackCache = new Map<string, FeedbackCacheEntry>();
+const MEDIA_USAGE_TIMEOUT = 120000;
 
 /**
  * Fetches a URL with a timeout using AbortController
@@ -82,9 +65,9 @@ async function fetchWithTimeout(
  */
 export async function getWagtailSessionId(): Promise<string | null> {
 	try {
-		// try to get cookie from api.sf.gov first (where admin is hosted)
+		// try to get cookie from the admin host first, e.g. api.sf.gov
 		let cookies = await chrome.cookies.getAll({
-			domain: "api.sf.gov",
+			domain: new URL(getActiveEnvironment().adminBaseUrl).hostname,
 			name: "sessionid",
 		});
 
@@ -133,32 +116,126 @@ export function normalizePath(path: string): string {
 }
 
 /**
- * Fetches feedback data (stats + recent records) for a given page path
+ * Converts a feedback query to URL search params, skipping empty values
+ * @param query - The filters and paging options
+ * @returns Search params in a stable order
+ */
+function toSearchParams(query: FeedbackQuery): URLSearchParams {
+	const params = new URLSearchParams();
+
+	Object.entries(query)
+		.filter(([, value]) => value !== undefined && value !== "")
+		.sort(([a], [b]) => a.localeCompare(b))
+		.forEach(([key, value]) => params.set(key, String(value)));
+
+	return params;
+}
+
+/**
+ * Fetches feedback data (stats + one page of records) for a given page path
  * @param path - The page path to fetch feedback for
+ * @param query - Optional filters and paging options for the records
  * @returns Promise resolving to FeedbackResponse with stats and records
  * @throws AirtableApiError for authentication, network, or server errors
  */
-export async function getFeedback(path: string): Promise<FeedbackResponse> {
+export async function getFeedback(path: string, query: FeedbackQuery = {}): Promise<FeedbackResponse> {
 	const normalizedPath = normalizePath(path);
-	const cacheKey = `feedback:${normalizedPath}`;
-
-	// check cache first
-	const cached = feedbackCache.get(cacheKey);
-	console.log("getFeedback:", { path, normalizedPath, cacheKey, hasCached: !!cached, cacheAge: cached ? Date.now() - cached.timestamp : null, cacheTTL: CACHE_TTL });
-	if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-		console.log("Returning cached feedback for:", normalizedPath);
-		return cached.data;
+	const queryParams = toSearchParams(query);
+	const cacheKey = `feedback:${normalizedPath}?${queryParams}`;
+
+	return cached(cacheKey, () => {
+		console.log("Fetching feedback for:", normalizedPath);
+		const url = new URL(getApiUrl("feedback"));
+		url.searchParams.set("pagePath", normalizedPath);
+		queryParams.forEach((value, key) => url.searchParams.set(key, value));
+
+		return fetchFromProxy<FeedbackResponse>(url);
+	}, CACHE_POLICIES.feedback);
+}
+
+/**
+ * Returns cached feedback for a page without fetching it, including stale data
+ * @param path - The page path
+ * @param query - The filters and paging options the feedback was fetched with
+ * @returns The cached FeedbackResponse, or null if there isn't one
+ */
+export async function peekFeedback(path: string, query: FeedbackQuery = {}): Promise<FeedbackResponse | null> {
+	return peekCached<FeedbackResponse>(`feedback:${normalizePath(path)}?${toSearchParams(query)}`);
+}
+
+/**
+ * Fetches feedback stats for every page owned by an agency, worst performing first
+ * @param agencyId - The Wagtail page ID of the agency
+ * @returns Promise resolving to AgencyFeedbackResponse with per-page stats
+ * @throws AirtableApiError for authentication, network, or server errors
+ */
+export async function getAgencyFeedback(agencyId: number): Promise<AgencyFeedbackResponse> {
+	const url = new URL(getApiUrl("agency-feedback"));
+	url.searchParams.set("agencyId", String(agencyId));
+
+	return fetchFromProxy<AgencyFeedbackResponse>(url);
+}
+
+/**
+ * Fetches an agency's pages with their publish dates, stalest first
+ * @param agencyId - The Wagtail page ID of the agency
+ * @returns Promise resolving to StalePagesResponse with the stalest pages first
+ * @throws AirtableApiError for authentication, network, or server errors
+ */
+export async function getStalePages(agencyId: number): Promise<StalePagesResponse> {
+	const url = new URL(getApiUrl("stale-pages"));
+	url.searchParams.set("agencyId", String(agencyId));
+
+	return fetchFromProxy<StalePagesResponse>(url);
+}
+
+/**
+ * Fetches the pages that reference each of the given images and documents
+ * @param imageIds - Wagtail image IDs
+ * @param documentIds - Wagtail document IDs
+ * @returns Promise resolving to MediaUsageResponse with the pages for each asset
+ * @throws AirtableApiError for authentication, network, or server errors
+ */
+export async function getMediaUsage(imageIds: number[], documentIds: number[]): Promise<MediaUsageResponse> {
+	const url = new URL(getApiUrl("media-usage"));
+	if (imageIds.length > 0) {
+		url.searchParams.set("images", imageIds.join(","));
 	}
+	if (documentIds.length > 0) {
+		url.searchParams.set("documents", documentIds.join(","));
+	}
+
+	return fetchFromProxy<MediaUsageResponse>(url, MEDIA_USAGE_TIMEOUT);
+}
 
+/**
+ * Downloads a linked PDF on the server and checks its accessibility
+ * @param pdfUrl - URL of the PDF
+ * @returns Promise resolving to PdfCheckResult, whose status is "error" if
+ * the file couldn't be downloaded or read
+ * @throws AirtableApiError for authentication, network, or server errors
+ */
+export async function getPdfCheck(pdfUrl: string): Promise<PdfCheckResult> {
+	const url = new URL(getApiUrl("pdf-check"));
+	url.searchParams.set("url", pdfUrl);
+
+	return fetchFromProxy<PdfCheckResult>(url);
+}
+
+/**
+ * Makes an authenticated GET request to the feedback proxy
+ * @param url - The proxy endpoint URL, including query parameters
+ * @param timeout - Timeout in milliseconds (default: 30000)
+ * @returns Promise resolving to the parsed JSON response
+ * @throws AirtableApiError for authentication, network, or server errors
+ */
+async function fetchFromProxy<T>(url: URL, timeout: number = DEFAULT_TIMEOUT): Promise<T> {
 	// get Wagtail session ID from cookies
 	const sessionId = await getWagtailSessionId();
 	if (!sessionId) {
 		throw createApiError("auth", "Not authenticated.");
 	}
 
-	const url = new URL(API_FEEDBACK_URL);
-	url.searchParams.set("pagePath", normalizedPath);
-
 	console.log("Fetching feedback from:", url.toString());
 	const fetchStart = Date.now();
 
@@ -170,7 +247,8 @@ export async function getFeedback(path: string): Promise<FeedbackResponse> {
 					"X-Wagtail-Session": sessionId,
 					"X-SF-Gov-Extension": "companion",
 				},
-			}
+			},
+			timeout
 		);
 
 		if (response.status === 401) {
@@ -190,15 +268,7 @@ export async function getFeedback(path: string): Promise<FeedbackResponse> {
 		}
 
 		console.log(`Feedback fetch completed in ${Date.now() - fetchStart}ms, status: ${response.status}`);
-		const data: FeedbackResponse = await response.json();
-
-		// cache the results
-		feedbackCache.set(cacheKey, {
-			data,
-			timestamp: Date.now(),
-		});
-
-		return data;
+		return await response.json() as T;
 	} catch (error) {
 		if (isAirtableApiError(error)) {
 			throw error;
@@ -252,11 +322,7 @@ function isAirtableApiError(error: any): error is AirtableApiError {
  * Clears the feedback cache for a specific path or all paths
  * @param path - Optional path to clear from cache. If not provided, clears entire cache
  */
-export function clearCache(path?: string): void {
-	if (path) {
-		const normalizedPath = normalizePath(path);
-		feedbackCache.delete(`feedback:${normalizedPath}`);
-	} else {
-		feedbackCache.clear();
-	}
+export function clearCache(path?: string): Promise<void> {
+	// a path's cache holds every filtered page of its feedback
+	return invalidateCached(path ? `feedback:${normalizePath(path)}?` : "feedback:");
 }
@@ -9,17 +9,12 @@ import type {
 	LinkCheckCompleteEvent,
 	LinkCheckErrorEvent,
 } from "@sf-gov/shared";
+import { getActiveEnvironment, getCompanionApiUrl } from "@/lib/config.ts";
 
 /**
- * API Base URL
- * Defaults to production, can be overridden by VITE_API_BASE_URL
+ * Returns the link check endpoint URL on the active environment's companion API server
  */
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "https://sfgov-companion-api.vercel.app";
-
-/**
- * Link check endpoint URL
- */
-const API_LINK_CHECK_URL = `${API_BASE_URL}/api/link-check`;
+const getLinkCheckUrl = () => `${getCompanionApiUrl()}/api/link-check`;
 
 /**
  * Options for starting a link check
@@ -70,7 +65,7 @@ export class LinkCheckClient {
 
 		try {
 			// make POST request to initiate link check
-			const response = await fetch(API_LINK_CHECK_URL, {
+			const response = await fetch(getLinkCheckUrl(), {
 				method: "POST",
 				headers: {
 					"Content-Type": "application/json",
@@ -212,9 +207,9 @@ export class LinkCheckClient {
 	 */
 	private async getWagtailSessionId(): Promise<string | null> {
 		try {
-			// try to get cookie from api.sf.gov first (where admin is hosted)
+			// try to get cookie from the admin host first, e.g. api.sf.gov
 			let cookies = await chrome.cookies.getAll({
-				domain: "api.sf.gov",
+				domain: new URL(getActiveEnvironment().adminBaseUrl).hostname,
 				name: "sessionid",
 			});
 
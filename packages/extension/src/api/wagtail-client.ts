@@ -3,50 +3,37 @@
  * Handles communication with the SF.gov Wagtail CMS API
  */
 
-import type { WagtailPage, ApiError, MediaAsset, Translation } from '@sf-gov/shared';
+import type { WagtailPage, ApiError, ApiErrorType, MediaAsset, Translation, PreviewParams, PageTree, PageTreeNode } from '@sf-gov/shared';
+import { extractContentBlocks, extractRichTextBlocks, extractRichTextLinks } from '@sf-gov/shared';
+import { getLocaleName } from '../lib/locales';
+import { getAdminBaseUrl, getApiBaseUrl } from '../lib/config';
 
 /**
- * Determines the appropriate API base URL based on the current page URL
- * @param currentUrl - Optional current URL to determine which API to use
- * @returns The base API URL (production or staging)
+ * Default timeout for API requests in milliseconds
  */
-function getBaseApiUrl(currentUrl?: string): string {
-	if (currentUrl) {
-		try {
-			const urlObj = new URL(currentUrl);
-			if (urlObj.hostname.includes('staging.dev.sf.gov')) {
-				return 'https://api.staging.dev.sf.gov/api/v2/';
-			}
-		} catch (e) {
-			// invalid URL, fall through to default
-		}
-	}
-	return 'https://api.sf.gov/api/v2/';
-}
+const DEFAULT_TIMEOUT = 10000;
 
 /**
- * Determines the appropriate admin base URL based on the current page URL
- * @param currentUrl - Optional current URL to determine which admin to use
- * @returns The admin base URL (production or staging)
+ * Maximum number of pages the Wagtail API returns in one listing
  */
-function getAdminBaseUrl(currentUrl?: string): string {
-	if (currentUrl) {
-		try {
-			const urlObj = new URL(currentUrl);
-			if (urlObj.hostname.includes('staging.dev.sf.gov')) {
-				return 'https://api.staging.dev.sf.gov/admin/';
-			}
-		} catch (e) {
-			// invalid URL, fall through to default
-		}
-	}
-	return 'https://api.sf.gov/admin/';
-}
+const TREE_LIMIT = 20;
 
 /**
- * Default timeout for API requests in milliseconds
+ * Appends preview parameters to a URL so the API returns draft content
+ * @param url - The base URL
+ * @param previewParams - Optional preview parameters to append
+ * @returns URL with preview parameters appended
  */
-const DEFAULT_TIMEOUT = 10000;
+function appendPreviewParams(url: string, previewParams?: PreviewParams): string {
+	if (!previewParams) {
+		return url;
+	}
+
+	const urlObj = new URL(url);
+	urlObj.searchParams.set('preview', previewParams.preview.toString());
+	urlObj.searchParams.set('ts', previewParams.ts);
+	return urlObj.toString();
+}
 
 /**
  * Fetches a URL with a timeout using AbortController
@@ -84,21 +71,29 @@ async function fetchWithTimeout(url: string, timeout: number = DEFAULT_TIMEOUT):
  * Finds a Wagtail page by its ID
  * @param pageId - The page ID to fetch
  * @param currentUrl - Optional current URL to determine which API to use
+ * @param previewParams - Optional preview parameters to fetch the draft instead of the live page
  * @returns Promise resolving to WagtailPage or null if not found
- * @throws ApiError for network errors, timeouts, or server errors
+ * @throws ApiError for network errors, timeouts, server errors, or missing/expired previews
  */
-export async function findPageById(pageId: number, currentUrl?: string): Promise<WagtailPage | null> {
+export async function findPageById(pageId: number, currentUrl?: string, previewParams?: PreviewParams): Promise<WagtailPage | null> {
 	try {
-		const baseApiUrl = getBaseApiUrl(currentUrl);
-		const detailUrl = `${baseApiUrl}pages/${pageId}/?fields=*`;
+		const baseApiUrl = getApiBaseUrl(currentUrl);
+		const detailUrl = appendPreviewParams(`${baseApiUrl}pages/${pageId}/?fields=*`, previewParams);
 		console.log('Fetching page by ID from:', detailUrl);
 		const response = await fetchWithTimeout(detailUrl);
 
 		// Handle HTTP error status codes
 		if (response.status === 404) {
+			if (previewParams) {
+				throw createApiError('preview_not_found', 'Preview is not available for this page. The draft may have been deleted.', 404);
+			}
 			throw createApiError('not_found', 'This page is not found in the CMS', 404);
 		}
 
+		if (previewParams && (response.status === 401 || response.status === 403 || response.status === 410)) {
+			throw createApiError('preview_expired', 'The preview link has expired. Reopen the preview in Karl to refresh it.', response.status);
+		}
+
 		if (response.status === 500) {
 			throw createApiError('server_error', 'CMS server error. Please try again later.', 500);
 		}
@@ -116,7 +111,8 @@ export async function findPageById(pageId: number, currentUrl?: string): Promise
 			return parsePageDataWithTranslations(pageData, [pageData], currentUrl);
 		}
 
-		// Fetch all translations for this slug
+		// Fetch all translations for this slug.  Translations are always the
+		// live pages, since the preview token only applies to this page.
 		const translationsUrl = `${baseApiUrl}pages/?slug=${encodeURIComponent(slug)}&fields=*`;
 		const translationsResponse = await fetchWithTimeout(translationsUrl);
 
@@ -152,7 +148,7 @@ export async function findPageById(pageId: number, currentUrl?: string): Promise
  */
 export async function findPageBySlug(slug: string, currentUrl?: string): Promise<WagtailPage | null> {
   try {
-    const baseApiUrl = getBaseApiUrl(currentUrl);
+    const baseApiUrl = getApiBaseUrl(currentUrl);
     const url = `${baseApiUrl}pages/?slug=${encodeURIComponent(slug)}&fields=*`;
     const response = await fetchWithTimeout(url);
 
@@ -234,6 +230,69 @@ export async function findPageBySlug(slug: string, currentUrl?: string): Promise
   }
 }
 
+/**
+ * Fetches a listing of pages as tree nodes.  The tree is extra context for
+ * the side panel, so a failed request returns an empty list instead of
+ * throwing.
+ * @param url - The page listing URL, filtered with child_of or ancestor_of
+ * @param currentUrl - Optional current URL to determine which admin URL to use
+ * @returns The pages in the listing and the total number of matching pages
+ */
+async function fetchTreeNodes(url: string, currentUrl?: string): Promise<{ nodes: PageTreeNode[]; total: number }> {
+  try {
+    const response = await fetchWithTimeout(url);
+
+    if (!response.ok) {
+      console.warn(`Failed to fetch page tree from ${url}: HTTP ${response.status}`);
+      return { nodes: [], total: 0 };
+    }
+
+    const data = await response.json();
+    const adminBaseUrl = getAdminBaseUrl(currentUrl);
+    const nodes = (data.items || []).map((item: any) => ({
+      id: item.id,
+      title: item.title || '',
+      url: item.meta?.html_url || '',
+      editUrl: `${adminBaseUrl}pages/${item.id}/edit/`
+    }));
+
+    return { nodes, total: data.meta?.total_count ?? nodes.length };
+  } catch (error) {
+    console.warn(`Failed to fetch page tree from ${url}:`, error);
+    return { nodes: [], total: 0 };
+  }
+}
+
+/**
+ * Fetches the ancestors, siblings and children of a page.  The API orders
+ * pages by their position in the tree, so ancestors start at the home page.
+ * The tree isn't part of the page data, so the side panel loads it only when
+ * the Location card is shown.
+ * @param pageId - The page ID
+ * @param parentId - The page's parent ID, missing for the site's root page
+ * @param currentUrl - Optional current URL to determine which API to use
+ * @returns The pages around this page
+ */
+export async function getPageTree(pageId: number, parentId: number | undefined, currentUrl?: string): Promise<PageTree> {
+  const baseApiUrl = getApiBaseUrl(currentUrl);
+  const noPages = Promise.resolve({ nodes: [], total: 0 });
+
+  const [ancestors, siblings, children] = await Promise.all([
+    parentId ? fetchTreeNodes(`${baseApiUrl}pages/?ancestor_of=${pageId}&limit=${TREE_LIMIT}`, currentUrl) : noPages,
+    parentId ? fetchTreeNodes(`${baseApiUrl}pages/?child_of=${parentId}&limit=${TREE_LIMIT}`, currentUrl) : noPages,
+    fetchTreeNodes(`${baseApiUrl}pages/?child_of=${pageId}&limit=${TREE_LIMIT}`, currentUrl)
+  ]);
+
+  return {
+    ancestors: ancestors.nodes,
+    siblings: siblings.nodes.filter(node => node.id !== pageId),
+    // the parent's children include this page
+    siblingCount: Math.max(siblings.total - 1, 0),
+    children: children.nodes,
+    childCount: children.total
+  };
+}
+
 /**
  * Parses API response data into a WagtailPage object with translations from all items
  * @param pageData - Raw page data from the API for the current page
@@ -296,7 +355,13 @@ function parsePageDataWithTranslations(pageData: any, allItems: any[], currentUr
     translations: extractTranslationsFromItems(allItems, currentUrl),
     images: extractImages(pageData),
     files: extractFiles(pageData),
+    links: extractRichTextLinks(pageData),
+    textBlocks: extractRichTextBlocks(pageData),
+    contentBlocks: extractContentBlocks(pageData),
+    parentId: pageData.meta?.parent?.id || undefined,
     editUrl,
+    firstPublishedAt: pageData.meta?.first_published_at || undefined,
+    lastPublishedAt: pageData.meta?.last_published_at || undefined,
     meta: {
       type: pageData.meta?.type || '',
       detailUrl: pageData.meta?.detail_url || '',
@@ -305,6 +370,26 @@ function parsePageDataWithTranslations(pageData: any, allItems: any[], currentUr
   };
 }
 
+/**
+ * Converts image data from the API into a MediaAsset.  The dimensions, size
+ * and alt text are only present when the API serializes the full image.
+ * @param imageData - Raw image data from a block value or image field
+ * @returns MediaAsset for the image
+ */
+function toImageAsset(imageData: any): MediaAsset {
+  return {
+    id: imageData.id,
+    title: imageData.title || imageData.alt || '',
+    url: imageData.url || imageData.full_url || imageData.meta?.download_url || imageData.src || '',
+    type: 'image',
+    filename: imageData.filename,
+    width: imageData.width ?? imageData.meta?.width,
+    height: imageData.height ?? imageData.meta?.height,
+    fileSize: imageData.file_size ?? imageData.meta?.file_size,
+    alt: imageData.alt
+  };
+}
+
 /**
  * Extracts image data from page content
  * @param pageData - Raw page data from the API
@@ -323,13 +408,7 @@ function extractImages(pageData: any): MediaAsset[] {
       if (imageData.id) {
         console.log('Image data fields:', Object.keys(imageData));
         console.log('Image data:', imageData);
-        images.push({
-          id: imageData.id,
-          title: imageData.title || imageData.alt || '',
-          url: imageData.url || imageData.full_url || imageData.meta?.download_url || imageData.src || '',
-          type: 'image',
-          filename: imageData.filename
-        });
+        images.push(toImageAsset(imageData));
       }
     }
 
@@ -338,13 +417,7 @@ function extractImages(pageData: any): MediaAsset[] {
       if (obj.image.id) {
         console.log('Image field data:', Object.keys(obj.image));
         console.log('Image field:', obj.image);
-        images.push({
-          id: obj.image.id,
-          title: obj.image.title || obj.image.alt || '',
-          url: obj.image.url || obj.image.full_url || obj.image.meta?.download_url || obj.image.src || '',
-          type: 'image',
-          filename: obj.image.filename
-        });
+        images.push(toImageAsset(obj.image));
       }
     }
 
@@ -433,16 +506,6 @@ function extractTranslationsFromItems(allItems: any[], currentUrl?: string): Tra
   const translations: Translation[] = [];
   const seenPageIds = new Set<number>();
 
-  // Map of locale codes to language names
-  const localeNames: Record<string, string> = {
-    'en': 'English',
-    'es': 'Español',
-    'zh': '中文',
-    'fil': 'Filipino',
-    'vi': 'Tiếng Việt',
-    'ru': 'Русский'
-  };
-
   const adminBaseUrl = getAdminBaseUrl(currentUrl);
 
   // Process each item as a translation
@@ -450,14 +513,25 @@ function extractTranslationsFromItems(allItems: any[], currentUrl?: string): Tra
     if (item.id && !seenPageIds.has(item.id)) {
       const locale = item.meta?.locale || 'en';
       const languageCode = typeof locale === 'string' ? locale : locale.language_code || 'en';
-      const languageName = localeNames[languageCode] || languageCode.toUpperCase();
+      // the ID of the wagtail-localize TranslationSource the page's
+      // translations are synced from, which the API only returns when the
+      // page model exposes it as an API field
+      const translationSourceId = item.meta?.translation_source_id ?? item.translation_source_id;
 
       translations.push({
-        language: languageName,
+        language: getLocaleName(languageCode),
         languageCode: languageCode,
         pageId: item.id,
+        slug: item.meta?.slug || item.slug || '',
         editUrl: `${adminBaseUrl}pages/${item.id}/edit/`,
-        title: item.title || ''
+        // wagtail-localize's "Translate this page" action
+        translateUrl: `${adminBaseUrl}localize/submit/page/${item.id}/`,
+        // wagtail-localize's "Sync translated pages" action
+        syncUrl: translationSourceId ? `${adminBaseUrl}localize/update/${translationSourceId}/` : null,
+        title: item.title || '',
+        // last_published_at is only in the listing when the API exposes it,
+        // so staleness can't be determined without it
+        lastPublishedAt: item.meta?.last_published_at || item.last_published_at || null
       });
       seenPageIds.add(item.id);
     }
@@ -473,6 +547,11 @@ function extractTranslationsFromItems(allItems: any[], currentUrl?: string): Tra
   return translations;
 }
 
+/**
+ * Error types that should not be retried
+ */
+const NON_RETRYABLE_ERROR_TYPES: ApiErrorType[] = ['not_found', 'preview_not_found', 'preview_expired'];
+
 /**
  * Creates an ApiError object with the specified properties
  * @param type - The error type
@@ -481,7 +560,7 @@ function extractTranslationsFromItems(allItems: any[], currentUrl?: string): Tra
  * @returns ApiError object
  */
 function createApiError(
-  type: 'network' | 'timeout' | 'not_found' | 'server_error',
+  type: ApiErrorType,
   message: string,
   statusCode?: number
 ): ApiError {
@@ -489,7 +568,8 @@ function createApiError(
     type,
     message,
     statusCode,
-    retryable: type !== 'not_found' // All errors except 404 are retryable
+    // Missing pages and missing or expired previews won't fix themselves on retry
+    retryable: !NON_RETRYABLE_ERROR_TYPES.includes(type)
   };
 }
 
@@ -0,0 +1,231 @@
+/**
+ * Page health shown on the toolbar icon, so editors browsing the site notice
+ * problem pages without opening the side panel.  The badge shows the number
+ * of broken links, "!" for a page that isn't in Wagtail, or the share of
+ * "not helpful" votes when it's high, and the icon's tooltip lists them all.
+ */
+
+import type { AirtableApiError, FeedbackQuery, TabPageState } from "@sf-gov/shared";
+import { getFeedback, peekFeedback } from "@/api/airtable-client.ts";
+import { getLinkCheckHistory, isBrokenResult } from "@/lib/link-check-history.ts";
+
+/**
+ * Share of "not helpful" votes, as a percentage, at which a page is flagged
+ */
+const NEGATIVE_FEEDBACK_PERCENT = 50;
+
+/**
+ * Fewest votes needed before the feedback counts, so one vote doesn't flag a page
+ */
+const MIN_FEEDBACK_VOTES = 5;
+
+/**
+ * The feedback card's first request, so the badge and the card share the
+ * cached response
+ */
+const FEEDBACK_QUERY: FeedbackQuery = { page: 1, pageSize: 10 };
+
+/**
+ * Most feedback requests the badge makes per FEEDBACK_LOOKUP_WINDOW, so
+ * browsing quickly through the site doesn't flood the companion API.  Cached
+ * feedback doesn't count towards it.
+ */
+const MAX_FEEDBACK_LOOKUPS = 20;
+const FEEDBACK_LOOKUP_WINDOW = 60 * 1000;
+
+const DEFAULT_TITLE = "Open Karl Jr.";
+
+const BADGE_COLORS = {
+	error: "#b91c1c",
+	warning: "#b45309",
+};
+
+interface PageHealth {
+	// false if the page couldn't be found in Wagtail
+	resolves: boolean;
+	// null when the feedback wasn't loaded, e.g. when logged out of Karl or
+	// over the lookup limit
+	feedbackVotes: number | null;
+	notHelpfulPercent: number | null;
+	// null if the page's links haven't been checked
+	brokenLinks: number | null;
+}
+
+// the URL each tab's badge was last computed for, so state changes that
+// don't change the page don't fetch the feedback again
+const badgeUrls = new Map<number, string>();
+
+// when the recent feedback requests were made, oldest first
+const feedbackLookups: number[] = [];
+
+/**
+ * Counts a feedback request towards the limit
+ * @returns false if the limit has been reached, so the request shouldn't be made
+ */
+function takeFeedbackLookup(): boolean
+{
+	const now = Date.now();
+	while (feedbackLookups.length > 0 && feedbackLookups[0] <= now - FEEDBACK_LOOKUP_WINDOW) {
+		feedbackLookups.shift();
+	}
+
+	if (feedbackLookups.length >= MAX_FEEDBACK_LOOKUPS) {
+		return false;
+	}
+
+	feedbackLookups.push(now);
+	return true;
+}
+
+/**
+ * Loads the feedback stats for a page, from the cache the feedback card
+ * shares when possible, ignoring errors
+ */
+async function getFeedbackStats(url: string): Promise<{ votes: number; notHelpfulPercent: number } | null>
+{
+	const path = new URL(url).pathname;
+
+	try {
+		const response = await peekFeedback(path, FEEDBACK_QUERY)
+			?? (takeFeedbackLookup() ? await getFeedback(path, FEEDBACK_QUERY) : null);
+		if (!response) {
+			return null;
+		}
+
+		const { stats } = response;
+		return { votes: stats.total, notHelpfulPercent: stats.notHelpfulPercent };
+	} catch (error) {
+		// being logged out of Karl is expected, so only other errors are logged
+		if ((error as AirtableApiError).type !== "auth") {
+			console.error("Feedback unavailable for badge:", error);
+		}
+		return null;
+	}
+}
+
+/**
+ * Collects the health summary for a tab that has finished loading
+ */
+async function getPageHealth(state: TabPageState): Promise<PageHealth>
+{
+	const resolves = !!state.pageData;
+	const [feedback, history] = await Promise.all([
+		resolves ? getFeedbackStats(state.url) : Promise.resolve(null),
+		getLinkCheckHistory(state.url),
+	]);
+
+	return {
+		resolves,
+		feedbackVotes: feedback?.votes ?? null,
+		notHelpfulPercent: feedback?.notHelpfulPercent ?? null,
+		brokenLinks: history ? history.results.filter(isBrokenResult).length : null,
+	};
+}
+
+/**
+ * Checks if a page has enough votes, and enough of them negative, to flag
+ */
+function hasNegativeFeedback(health: PageHealth): boolean
+{
+	return (health.feedbackVotes ?? 0) >= MIN_FEEDBACK_VOTES
+		&& (health.notHelpfulPercent ?? 0) >= NEGATIVE_FEEDBACK_PERCENT;
+}
+
+/**
+ * Describes the page's health for the icon's tooltip
+ */
+function describeHealth(health: PageHealth): string
+{
+	const lines = [
+		health.resolves ? "Page found in Wagtail" : "Page not found in Wagtail",
+	];
+
+	if (health.notHelpfulPercent !== null) {
+		lines.push(`${Math.round(health.notHelpfulPercent)}% not helpful (${health.feedbackVotes} votes)`);
+	}
+
+	if (health.brokenLinks !== null) {
+		lines.push(health.brokenLinks === 1 ? "1 broken link" : `${health.brokenLinks} broken links`);
+	}
+
+	return `${DEFAULT_TITLE}\n${lines.join("\n")}`;
+}
+
+/**
+ * Shows a page's health on the toolbar icon for its tab
+ */
+async function showHealth(tabId: number, health: PageHealth): Promise<void>
+{
+	let text = "";
+	let color = BADGE_COLORS.error;
+
+	if (health.brokenLinks) {
+		text = health.brokenLinks > 99 ? "99+" : String(health.brokenLinks);
+	} else if (!health.resolves) {
+		text = "!";
+	} else if (hasNegativeFeedback(health)) {
+		text = `${Math.round(health.notHelpfulPercent!)}%`;
+		color = BADGE_COLORS.warning;
+	}
+
+	await chrome.action.setBadgeText({ tabId, text });
+	await chrome.action.setBadgeBackgroundColor({ tabId, color });
+	await chrome.action.setTitle({ tabId, title: describeHealth(health) });
+}
+
+/**
+ * Removes the badge from a tab
+ */
+export async function clearBadge(tabId: number): Promise<void>
+{
+	badgeUrls.delete(tabId);
+
+	try {
+		await chrome.action.setBadgeText({ tabId, text: "" });
+		await chrome.action.setTitle({ tabId, title: DEFAULT_TITLE });
+	} catch (error) {
+		// the tab was closed
+	}
+}
+
+/**
+ * Updates a tab's badge once its page has loaded
+ * @param state - The tab's state
+ * @param force - Recompute even if the badge is already for this URL, e.g.
+ * after a link check
+ */
+export async function updateBadge(state: TabPageState, force = false): Promise<void>
+{
+	const { tabId, url } = state;
+
+	if (state.isLoading) {
+		// don't leave the previous page's badge up while this one loads
+		if (badgeUrls.get(tabId) !== url) {
+			await clearBadge(tabId);
+		}
+		return;
+	}
+
+	// a network or server error doesn't say anything about the page
+	if (state.error?.retryable) {
+		await clearBadge(tabId);
+		return;
+	}
+
+	if (!force && badgeUrls.get(tabId) === url) {
+		return;
+	}
+
+	badgeUrls.set(tabId, url);
+
+	try {
+		const health = await getPageHealth(state);
+
+		// the tab may have moved on while the feedback loaded
+		if (badgeUrls.get(tabId) === url) {
+			await showHealth(tabId, health);
+		}
+	} catch (error) {
+		console.error(`Badge update error for tab ${tabId}:`, error);
+	}
+}
@@ -0,0 +1,85 @@
+/**
+ * Open side panels, each connected to the service worker by a port.  A
+ * panel is told about changes to the tab it's showing and tab switches in
+ * its window, rather than every extension page getting every update.
+ */
+
+import { createMessage, parseMessage, type ExtensionMessage, type MessagePayload } from "@sf-gov/shared";
+import type { Reply } from "@/lib/messages.ts";
+
+interface PanelConnection {
+	port: chrome.runtime.Port;
+	// set by the panel's GET_TAB_STATE requests
+	tabId: number | null;
+	windowId: number | null;
+}
+
+const panels = new Set<PanelConnection>();
+
+/**
+ * Keeps track of a side panel's port and passes its messages to the handler.
+ * GET_TAB_STATE requests also record which tab the panel is showing.
+ */
+export function addPanel(
+	port: chrome.runtime.Port,
+	handler: (message: ExtensionMessage, reply: Reply) => void
+): void
+{
+	const panel: PanelConnection = { port, tabId: null, windowId: null };
+	panels.add(panel);
+
+	port.onMessage.addListener((value: unknown) => {
+		const message = parseMessage(value);
+		if (!message) {
+			console.warn("Ignoring invalid message from side panel:", value);
+			return;
+		}
+
+		if (message.type === "GET_TAB_STATE") {
+			panel.tabId = message.tabId;
+			panel.windowId = message.windowId;
+		}
+
+		handler(message, (payload) => post(panel, createMessage(payload, message.id)));
+	});
+
+	port.onDisconnect.addListener(() => {
+		panels.delete(panel);
+	});
+}
+
+/**
+ * Posts to a panel, forgetting it if it has closed
+ */
+function post(panel: PanelConnection, message: ExtensionMessage): void
+{
+	try {
+		panel.port.postMessage(message);
+	} catch (error) {
+		panels.delete(panel);
+	}
+}
+
+/**
+ * Sends a message to the panels showing a tab
+ */
+export function sendToTabPanels(tabId: number, payload: MessagePayload): void
+{
+	panels.forEach((panel) => {
+		if (panel.tabId === tabId) {
+			post(panel, createMessage(payload));
+		}
+	});
+}
+
+/**
+ * Sends a message to the panels in a window
+ */
+export function sendToWindowPanels(windowId: number, payload: MessagePayload): void
+{
+	panels.forEach((panel) => {
+		if (panel.windowId === windowId) {
+			post(panel, createMessage(payload));
+		}
+	});
+}
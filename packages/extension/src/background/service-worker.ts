@@ -1,37 +1,34 @@
 /**
  * Background Service Worker
  * Handles toolbar button clicks to toggle the side panel
- * Forwards messages from content scripts to side panel
+ * Keeps the page state of each tab and sends it to the side panel
  */
 
 import "@/lib/console.ts";
-import { extractPageSlug } from "@/lib/urlUtils.ts";
+import type { TabPageState, WagtailPage } from "@sf-gov/shared";
+import { extractPageSlug, isSfGovDomain } from "@/lib/urlUtils.ts";
 import { findPageBySlug } from "@/api/wagtail-client.ts";
+import { getApiBaseUrl, getConfig, getEnvironmentForUrl, getUrlInEnvironment, loadConfig, subscribeToConfig } from "@/lib/config.ts";
+import { requestLinkCheck } from "@/lib/link-check-request.ts";
+import { listenForMessages, PANEL_PORT_NAME } from "@/lib/messages.ts";
+import { subscribeToLinkCheckHistory } from "@/lib/link-check-history.ts";
+import {
+	getTabState,
+	getTabStatesForUrl,
+	removeTab,
+	retryTab,
+	setTabPreview,
+	subscribeToTabStates,
+	updateTab,
+} from "@/background/tab-store.ts";
+import { addPanel, sendToWindowPanels } from "@/background/panels.ts";
+import { clearBadge, updateBadge } from "@/background/badge.ts";
 
 	// Add hostnames to exclude here, e.g.:
 const EXCLUDED_HOSTNAMES: string[] = [
 	"api.sf.gov"
 ];
 
-/**
- * Check if a URL matches the SF.gov domain pattern (*.sf.gov or *.staging.dev.sf.gov)
- * @param url - The URL to check
- * @returns true if the URL matches *.sf.gov or staging, false otherwise
- */
-function isSfGovDomain(url: string): boolean {
-	try {
-		const urlObj = new URL(url);
-		const hostname = urlObj.hostname.toLowerCase();
-		
-		// check if hostname is exactly sf.gov or ends with .sf.gov (including staging)
-		return hostname === "sf.gov" || hostname.endsWith(".sf.gov");
-	} catch (err) {
-		// URL parsing failed (e.g., chrome://, about:blank, invalid URLs)
-		// treat as non-SF.gov domain
-		return false;
-	}
-}
-
 /**
  * Update side panel visibility for a specific tab based on its URL
  * @param tabId - The Chrome tab ID
@@ -60,6 +57,50 @@ async function updateSidePanelForTab(tabId: number, url: string): Promise<void>
 	}
 }
 
+/**
+ * Context menu item IDs.  The "Open in other environment" submenu has one
+ * item per environment, with the environment ID after the prefix.
+ */
+const MENU_EDIT = "edit-on-karl";
+const MENU_API_JSON = "view-api-json";
+const MENU_OTHER_ENVIRONMENT = "open-in-environment";
+const MENU_ENVIRONMENT_PREFIX = "open-in-environment:";
+const MENU_COPY_ID = "copy-page-id";
+const MENU_LINK_CHECK = "run-link-check";
+
+const TOP_LEVEL_MENU_IDS = [MENU_EDIT, MENU_API_JSON, MENU_OTHER_ENVIRONMENT, MENU_COPY_ID, MENU_LINK_CHECK];
+
+/**
+ * Create the context menu items, which appear when right-clicking anywhere
+ * on the page or the toolbar icon, but only on URLs matching the patterns.
+ * Called again when the environments change, to rebuild the submenu.
+ */
+async function createContextMenus(): Promise<void> {
+	await chrome.contextMenus.removeAll();
+
+	const properties: Pick<chrome.contextMenus.CreateProperties, "contexts" | "documentUrlPatterns"> = {
+		contexts: ["page", "action"], // "page" for right-click on the page, "action" for the icon
+		documentUrlPatterns: [
+			"https://*.sf.gov/*",
+			"http://*.sf.gov/*"
+		]
+	};
+
+	chrome.contextMenus.create({ ...properties, id: MENU_EDIT, title: "Edit on Karl" });
+	chrome.contextMenus.create({ ...properties, id: MENU_API_JSON, title: "View API JSON" });
+	chrome.contextMenus.create({ ...properties, id: MENU_OTHER_ENVIRONMENT, title: "Open in other environment" });
+	getConfig().environments.forEach((environment) => {
+		chrome.contextMenus.create({
+			...properties,
+			id: `${MENU_ENVIRONMENT_PREFIX}${environment.id}`,
+			parentId: MENU_OTHER_ENVIRONMENT,
+			title: environment.name,
+		});
+	});
+	chrome.contextMenus.create({ ...properties, id: MENU_COPY_ID, title: "Copy page ID" });
+	chrome.contextMenus.create({ ...properties, id: MENU_LINK_CHECK, title: "Run link check" });
+}
+
 /**
  * Update context menu visibility based on the URL
  * Can't use negative lookups in documentUrlPatterns, so we handle it here
@@ -68,18 +109,50 @@ async function updateContextMenuVisibility(url: string): Promise<void> {
 	try {
 		const urlObj = new URL(url);
 		const isExcluded = EXCLUDED_HOSTNAMES.includes(urlObj.hostname);
-		
+		const currentEnvironment = getEnvironmentForUrl(url);
+
 		// Update the menu item visibility
 		// Note: This affects the menu globally, but since we update it on tab activation/update,
 		// it effectively works per-tab for the active user.
-		await chrome.contextMenus.update("edit-on-karl", {
-			visible: !isExcluded
-		});
+		for (const id of TOP_LEVEL_MENU_IDS) {
+			await chrome.contextMenus.update(id, {
+				visible: !isExcluded
+			});
+		}
+
+		// only offer the environments the page isn't already on
+		for (const environment of getConfig().environments) {
+			await chrome.contextMenus.update(`${MENU_ENVIRONMENT_PREFIX}${environment.id}`, {
+				visible: environment.id !== currentEnvironment.id && !!getUrlInEnvironment(url, environment)
+			});
+		}
 	} catch (err) {
 		// Ignore errors (e.g. if menu item doesn't exist yet or invalid URL)
 	}
 }
 
+/**
+ * Copy text to the clipboard from within the page, since service workers
+ * can't access the clipboard.
+ * NOTE: This function must be self-contained since it's injected via chrome.scripting.executeScript
+ */
+async function copyTextInPage(text: string): Promise<void> {
+	try {
+		await navigator.clipboard.writeText(text);
+	} catch {
+		// the async clipboard API needs the page to have focus, which it may
+		// not when the menu was opened from the toolbar icon
+		const textarea = document.createElement("textarea");
+		textarea.value = text;
+		textarea.style.position = "fixed";
+		textarea.style.opacity = "0";
+		document.body.appendChild(textarea);
+		textarea.select();
+		document.execCommand("copy");
+		textarea.remove();
+	}
+}
+
 /**
  * Set up event listeners when the service worker is installed
  */
@@ -90,17 +163,8 @@ chrome.runtime.onInstalled.addListener(async () => {
 	void chrome.sidePanel.setPanelBehavior({ openPanelOnActionClick: true });
 	console.log("SF.gov Companion installed");
 
-  // Create a menu item that appears when right-clicking anywhere on the page
-  // BUT only on URLs matching the specified pattern
-  chrome.contextMenus.create({
-    id: "edit-on-karl",
-    title: "Edit on Karl",
-    contexts: ["page", "action"], // "page" for right-click on the page, "action" for the icon
-    documentUrlPatterns: [
-      "https://*.sf.gov/*",
-      "http://*.sf.gov/*"
-    ]
-  });
+	await loadConfig();
+	await createContextMenus();
 
 	// check all existing tabs and enable side panel for sf.gov domains
 	try {
@@ -116,44 +180,128 @@ chrome.runtime.onInstalled.addListener(async () => {
 	}
 });
 
-// Add a listener for when the menu item is clicked
+// rebuild the environment submenu when the environments are edited
+void loadConfig().then(() => {
+	subscribeToConfig(() => {
+		void createContextMenus();
+	});
+});
+
+/**
+ * Check whether the extension's page actions apply to a URL, which excludes
+ * the admin site
+ */
+function isActionablePage(url: string): boolean {
+	if (!isSfGovDomain(url)) return false;
+
+	try {
+		const urlObj = new URL(url);
+		return !EXCLUDED_HOSTNAMES.includes(urlObj.hostname);
+	} catch (e) {
+		return false;
+	}
+}
+
+/**
+ * Open the side panel and ask it to check the page's links.  The side panel
+ * can only be opened in response to a user action, so this has to be called
+ * before anything is awaited.
+ */
+function startLinkCheck(tabId: number, url: string): Promise<void> {
+	chrome.sidePanel.open({ tabId }).catch((e) => console.error(e));
+	return requestLinkCheck(url);
+}
+
+/**
+ * Look up the Wagtail page for a URL
+ */
+async function findPageForUrl(url: string): Promise<WagtailPage | null> {
+	// the worker may have just started, so wait for the environments
+	await loadConfig();
+
+	const data = await findPageBySlug(extractPageSlug(url), url);
+	if (!data) {
+		console.warn("No page found for page action:", url);
+	}
+	return data;
+}
+
+// Add a listener for when a menu item is clicked
 chrome.contextMenus.onClicked.addListener(async (info, tab) => {
-  if (info.menuItemId === "edit-on-karl") {
-    if (tab?.url && isSfGovDomain(tab.url)) {
-			const { url } = tab;
-			
-			// Double-check exclusion list
-			try {
-				const urlObj = new URL(url);
-				if (EXCLUDED_HOSTNAMES.includes(urlObj.hostname)) return;
-			} catch (e) { /* ignore */ }
-
-      console.log("==== edit", url);
-
-			try {
-				const slug = extractPageSlug(url);
-				const data = await findPageBySlug(slug);
-
-				if (data) {
-					const editUrl = `https://api.sf.gov/admin/pages/${data.id}/edit/`;
-
-					await chrome.tabs.create({ url: editUrl });
-				}
-			} catch (e) {
-				console.error(e);
+	if (!tab?.id || !tab.url || !isActionablePage(tab.url)) return;
+	const { id: tabId, url } = tab;
+	const menuItemId = String(info.menuItemId);
+
+	if (menuItemId === MENU_LINK_CHECK) {
+		await startLinkCheck(tabId, url);
+		return;
+	}
+
+	try {
+		if (menuItemId.startsWith(MENU_ENVIRONMENT_PREFIX)) {
+			await loadConfig();
+			const environmentId = menuItemId.slice(MENU_ENVIRONMENT_PREFIX.length);
+			const environment = getConfig().environments.find((env) => env.id === environmentId);
+			const otherUrl = environment && getUrlInEnvironment(url, environment);
+
+			if (otherUrl) {
+				await chrome.tabs.create({ url: otherUrl, index: tab.index + 1 });
+			}
+			return;
+		}
+
+		const data = await findPageForUrl(url);
+		if (!data) return;
+
+		if (menuItemId === MENU_EDIT) {
+			await chrome.tabs.create({ url: data.editUrl });
+		} else if (menuItemId === MENU_API_JSON) {
+			await chrome.tabs.create({ url: `${getApiBaseUrl(url)}pages/${data.id}/` });
+		} else if (menuItemId === MENU_COPY_ID) {
+			await chrome.scripting.executeScript({
+				target: { tabId },
+				func: copyTextInPage,
+				args: [String(data.id)],
+			});
+		}
+	} catch (e) {
+		console.error(e);
+	}
+});
+
+/**
+ * Listen for the keyboard shortcuts defined in the manifest.  Opening the
+ * side panel uses the built-in _execute_action command.
+ */
+chrome.commands.onCommand.addListener(async (command, tab) => {
+	if (!tab?.id || !tab.url || !isActionablePage(tab.url)) return;
+	const { id: tabId, url } = tab;
+
+	try {
+		if (command === "run-link-check") {
+			await startLinkCheck(tabId, url);
+		} else if (command === "edit-on-karl") {
+			const data = await findPageForUrl(url);
+			if (data) {
+				await chrome.tabs.create({ url: data.editUrl });
 			}
-    }
-  }
+		}
+	} catch (e) {
+		console.error(e);
+	}
 });
 
 /**
  * Listen for tab activation events (user switches tabs)
  */
-chrome.tabs.onActivated.addListener(async ({ tabId }) => {
+chrome.tabs.onActivated.addListener(async ({ tabId, windowId }) => {
+	sendToWindowPanels(windowId, { type: "ACTIVE_TAB_CHANGED", tabId, windowId });
+
 	try {
 		const tab = await chrome.tabs.get(tabId);
 		if (!tab.url) return;
 		
+		updateTab(tabId, tab.url);
 		await updateSidePanelForTab(tabId, tab.url);
 		await updateContextMenuVisibility(tab.url);
 	} catch (err) {
@@ -164,8 +312,12 @@ chrome.tabs.onActivated.addListener(async ({ tabId }) => {
 /**
  * Listen for tab update events (URL changes within a tab)
  */
-chrome.tabs.onUpdated.addListener(async (tabId, _changeInfo, tab) => {
+chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
 	if (!tab.url) return;
+
+	if (changeInfo.status === "complete") {
+		updateTab(tabId, tab.url);
+	}
 	
 	try {
 		await updateSidePanelForTab(tabId, tab.url);
@@ -176,22 +328,74 @@ chrome.tabs.onUpdated.addListener(async (tabId, _changeInfo, tab) => {
 });
 
 /**
- * Listen for messages from content script and forward to side panel
+ * Forget the state of closed tabs
+ */
+chrome.tabs.onRemoved.addListener((tabId) => {
+	removeTab(tabId);
+});
+
+/**
+ * Shows the health of a page on the toolbar icon, skipping the admin site
+ * and pages without a slug, such as the homepage
+ */
+function showTabBadge(state: TabPageState): void
+{
+	if (isActionablePage(state.url) && !state.isAdminPage && extractPageSlug(state.url)) {
+		void updateBadge(state);
+	} else {
+		void clearBadge(state.tabId);
+	}
+}
+
+subscribeToTabStates(showTabBadge);
+
+/**
+ * Update the badge when the side panel finishes checking a page's links
+ */
+subscribeToLinkCheckHistory((entry) => {
+	getTabStatesForUrl(entry.pageUrl).forEach((state) => {
+		void updateBadge(state, true);
+	});
+});
+
+/**
+ * Handle requests from side panels, which connect with a port
+ */
+chrome.runtime.onConnect.addListener((port) => {
+	if (port.name !== PANEL_PORT_NAME) {
+		return;
+	}
+
+	addPanel(port, (message, reply) => {
+		if (message.type === "GET_TAB_STATE") {
+			getTabState(message.tabId)
+				.then((state) => {
+					reply({ type: "TAB_STATE", state });
+				})
+				.catch((err) => console.error("Error getting tab state:", err));
+		} else if (message.type === "RETRY_TAB") {
+			void retryTab(message.tabId);
+		}
+	});
+});
+
+/**
+ * Listen for messages from the admin preview content script
  */
-chrome.runtime.onMessage.addListener((message, sender) => {
-	// only process messages from content scripts
-	if (!sender.tab) {
+listenForMessages((message, sender) => {
+	const tabId = sender.tab?.id;
+	const url = sender.tab?.url;
+	if (!tabId || !url) {
 		return;
 	}
 
-	// forward preview messages to side panel
-	if (message.type === "PREVIEW_URL_UPDATE" || message.type === "PREVIEW_UNAVAILABLE") {
-		console.log(`Forwarding message from tab ${sender.tab.id}:`, message.type);
-		
-		// forward to side panel (all extension contexts will receive this)
-		// note: this will fail silently if side panel is not open, which is expected
-		chrome.runtime.sendMessage(message).catch(() => {
-			// side panel not open, message will be ignored
-		});
+	if (message.type === "PREVIEW_URL_UPDATE") {
+		// the worker may have been restarted since the tab loaded
+		updateTab(tabId, url);
+		setTabPreview(tabId, message.url, message.timestamp);
 	}
+
+	// PREVIEW_UNAVAILABLE is ignored, since the editor likely made a change
+	// that temporarily disabled the preview button, and the last draft should
+	// stay visible
 });
@@ -0,0 +1,388 @@
+/**
+ * Per-tab page state, owned by the service worker.  The store follows each
+ * tab's URL, loads the Wagtail page for it through the request cache and
+ * broadcasts every change, so the side panel has the data as soon as it
+ * opens.  The service worker can be stopped when idle, which empties the
+ * store, so a tab is loaded again the next time it's asked for.
+ */
+
+import type { ApiError, CacheEntry, PreviewParams, TabPageState, WagtailPage } from "@sf-gov/shared";
+import { findPageById, findPageBySlug } from "@/api/wagtail-client.ts";
+import { getEnvironmentForUrl, loadConfig } from "@/lib/config.ts";
+import { sendToTab } from "@/lib/messages.ts";
+import { cached, CACHE_POLICIES, deleteCached, setCached } from "@/lib/request-cache.ts";
+import { extractPageIdFromAdminUrl, extractPageSlug, isSfGovDomain, isWagtailAdminEditPage } from "@/lib/urlUtils.ts";
+import { sendToTabPanels } from "@/background/panels.ts";
+
+/**
+ * Delay before a page is fetched, so quick navigations only fetch the last page
+ */
+const DEBOUNCE_DELAY = 300;
+
+const tabs = new Map<number, TabPageState>();
+const debounceTimers = new Map<number, ReturnType<typeof setTimeout>>();
+const listeners = new Set<(state: TabPageState) => void>();
+
+interface FetchOptions {
+	// fetch the draft shown in the tab's preview instead of the live page
+	previewMode?: boolean;
+	// drop the cached response first
+	skipCache?: boolean;
+}
+
+/**
+ * Builds the request cache key for a page.  Slugs and IDs are only unique
+ * within an environment, so the key includes the environment of the URL.
+ * @param page - "id:" and the page ID, or the slug
+ * @param url - The tab URL
+ * @param previewMode - Whether the key is for draft data
+ * @param timestamp - Preview timestamp
+ */
+function getPageCacheKey(page: string, url: string, previewMode: boolean, timestamp: number): string
+{
+	const environmentId = getEnvironmentForUrl(url).id;
+	return `page:${environmentId}:${page}:${previewMode ? `preview:${timestamp}` : "live"}`;
+}
+
+/**
+ * Checks if an error means the draft preview could not be loaded
+ */
+function isPreviewError(error: ApiError): boolean
+{
+	return error.type === "preview_not_found" || error.type === "preview_expired";
+}
+
+/**
+ * Checks if a value thrown by the Wagtail client is an ApiError
+ */
+function isApiError(error: unknown): error is ApiError
+{
+	const apiError = error as ApiError;
+	return !!apiError && !!apiError.type && !!apiError.message && typeof apiError.retryable === "boolean";
+}
+
+/**
+ * Extracts preview parameters from a preview URL
+ * @returns The preview flag and ts parameter, or null if not a preview URL
+ */
+function extractPreviewParams(url: string): PreviewParams | null
+{
+	try {
+		const urlObj = new URL(url);
+		const preview = urlObj.searchParams.get("preview");
+		const ts = urlObj.searchParams.get("ts");
+
+		return preview && ts ? { preview: preview !== "false", ts } : null;
+	} catch (error) {
+		return null;
+	}
+}
+
+/**
+ * Returns the state of a tab that has just loaded a URL, before anything has
+ * been fetched
+ */
+function createState(tabId: number, url: string): TabPageState
+{
+	const isOnSfGov = isSfGovDomain(url);
+	const isAdminPage = isWagtailAdminEditPage(url);
+
+	return {
+		tabId,
+		url,
+		isOnSfGov,
+		isAdminPage,
+		pageData: null,
+		livePageData: null,
+		error: null,
+		isLoading: isAdminPage || (isOnSfGov && !!extractPageSlug(url)),
+		isPreviewMode: false,
+		previewUrl: null,
+		previewTimestamp: 0,
+	};
+}
+
+/**
+ * Updates a tab's state and tells the side panel
+ */
+function setState(tabId: number, changes: Partial<TabPageState>): void
+{
+	const state = tabs.get(tabId);
+	if (!state) {
+		return;
+	}
+
+	const newState = { ...state, ...changes };
+	tabs.set(tabId, newState);
+	notify(newState);
+}
+
+/**
+ * Sends a tab's new state to the side panels showing it and the listeners
+ */
+function notify(state: TabPageState): void
+{
+	sendToTabPanels(state.tabId, { type: "TAB_STATE", state });
+	listeners.forEach((listener) => listener(state));
+}
+
+/**
+ * Returns the changes for newly loaded live data.  Once the tab is showing a
+ * draft, the live data is only kept for comparison, so a live response that
+ * arrives after the draft's doesn't replace it.
+ */
+function liveDataChanges(tabId: number, data: WagtailPage): Partial<TabPageState>
+{
+	const state = tabs.get(tabId);
+	return state?.isPreviewMode && state.pageData
+		? { livePageData: data }
+		: { pageData: data, livePageData: data };
+}
+
+/**
+ * Asks the admin preview content script in a tab for the preview button's
+ * URL, which it otherwise only sends when the button changes
+ */
+async function requestPreviewState(tabId: number): Promise<void>
+{
+	try {
+		const reply = await sendToTab(tabId, { type: "REQUEST_PREVIEW_STATE" });
+		if (reply?.type === "PREVIEW_URL_UPDATE") {
+			setTabPreview(tabId, reply.url, reply.timestamp);
+		}
+	} catch (error) {
+		console.log("Could not request preview state (content script may not be ready):", error);
+	}
+}
+
+/**
+ * Fetches the page shown in a tab and stores the result.  Results that
+ * arrive after the tab has moved on to another URL or preview are dropped.
+ */
+async function fetchTabPage(tabId: number, options: FetchOptions = {}): Promise<void>
+{
+	const state = tabs.get(tabId);
+	if (!state) {
+		return;
+	}
+
+	const { url, isAdminPage, previewUrl, previewTimestamp } = state;
+	const previewMode = !!options.previewMode && isAdminPage;
+	const pageId = isAdminPage ? extractPageIdFromAdminUrl(url) : null;
+	const slug = isAdminPage ? "" : extractPageSlug(url);
+
+	if (!pageId && !slug) {
+		setState(tabId, { isLoading: false, pageData: null, error: null });
+		return;
+	}
+
+	const isCurrent = () => {
+		const current = tabs.get(tabId);
+		return !!current && current.url === url && (!previewMode || current.previewTimestamp === previewTimestamp);
+	};
+
+	// the worker may have just started, so wait for the environments
+	await loadConfig();
+
+	const policy = previewMode ? CACHE_POLICIES.preview : CACHE_POLICIES.page;
+	const cacheKey = getPageCacheKey(pageId ? `id:${pageId}` : slug, url, previewMode, previewTimestamp);
+
+	if (options.skipCache) {
+		await deleteCached(cacheKey);
+	}
+
+	// draft data is refreshed without a loading state, so the preview iframe
+	// isn't torn down every time the editor makes a change
+	setState(tabId, previewMode ? { error: null } : { isLoading: true, error: null });
+
+	try {
+		const entry = await cached<CacheEntry>(cacheKey, async () => {
+			const previewParams = previewMode && previewUrl ? extractPreviewParams(previewUrl) : null;
+			console.log("Fetching page data:", { tabId, pageId, slug, previewParams });
+			const data = pageId
+				? await findPageById(pageId, url, previewParams ?? undefined)
+				: await findPageBySlug(slug, url);
+			return { data, timestamp: Date.now() };
+		}, {
+			...policy,
+			// show the refreshed data if the tab is still on the page
+			onRevalidate: (fresh) => {
+				if (fresh.data && isCurrent()) {
+					setState(tabId, previewMode ? { pageData: fresh.data } : liveDataChanges(tabId, fresh.data));
+				}
+			},
+		});
+
+		if (!isCurrent()) {
+			return;
+		}
+
+		if (entry.error) {
+			setState(tabId, { isLoading: false, pageData: null, error: entry.error });
+			return;
+		}
+
+		if (!entry.data) {
+			// the page may not be published yet, so only its preview can be shown
+			console.log("No page data returned, awaiting preview fallback:", { tabId, pageId, slug });
+			void deleteCached(cacheKey);
+			setState(tabId, { isLoading: false, pageData: null, error: null });
+			if (isAdminPage) {
+				void requestPreviewState(tabId);
+			}
+			return;
+		}
+
+		setState(tabId, {
+			...(previewMode ? { pageData: entry.data } : liveDataChanges(tabId, entry.data)),
+			isLoading: false,
+			error: null,
+		});
+	} catch (error) {
+		console.error("Error fetching page data:", error);
+
+		if (!isCurrent()) {
+			return;
+		}
+
+		if (!isApiError(error)) {
+			setState(tabId, {
+				isLoading: false,
+				pageData: null,
+				error: { type: "network", message: "An unexpected error occurred", retryable: true },
+			});
+			return;
+		}
+
+		if (error.type === "not_found" && isAdminPage) {
+			console.log("Page not found in API for admin edit view, falling back to preview only mode", { pageId });
+			setState(tabId, { isLoading: false, pageData: null, error: null });
+			void requestPreviewState(tabId);
+			return;
+		}
+
+		if (previewMode && isPreviewError(error)) {
+			// the draft can't be loaded, so show the live page's data instead
+			console.warn("Preview data unavailable, falling back to live page data", { pageId, error });
+			await fetchTabPage(tabId);
+			return;
+		}
+
+		if (!error.retryable) {
+			void setCached<CacheEntry>(cacheKey, { data: null, error, timestamp: Date.now() }, policy);
+		}
+
+		setState(tabId, { isLoading: false, pageData: null, error });
+	}
+}
+
+/**
+ * Fetches a tab's page after a short delay, replacing any pending fetch
+ */
+function scheduleFetch(tabId: number): void
+{
+	clearTimeout(debounceTimers.get(tabId));
+	debounceTimers.set(tabId, setTimeout(() => {
+		debounceTimers.delete(tabId);
+		void fetchTabPage(tabId);
+	}, DEBOUNCE_DELAY));
+}
+
+/**
+ * Records the URL a tab has loaded and fetches its page.  Nothing happens
+ * if the URL hasn't changed, e.g. when the user switches back to the tab.
+ */
+export function updateTab(tabId: number, url: string): void
+{
+	if (tabs.get(tabId)?.url === url) {
+		return;
+	}
+
+	const state = createState(tabId, url);
+	tabs.set(tabId, state);
+	notify(state);
+
+	if (state.isAdminPage) {
+		void fetchTabPage(tabId);
+		void requestPreviewState(tabId);
+	} else if (state.isLoading) {
+		scheduleFetch(tabId);
+	}
+}
+
+/**
+ * Returns a tab's state, loading the tab if the store hasn't seen it yet
+ */
+export async function getTabState(tabId: number): Promise<TabPageState>
+{
+	if (!tabs.has(tabId)) {
+		try {
+			const tab = await chrome.tabs.get(tabId);
+			updateTab(tabId, tab.url || "");
+		} catch (error) {
+			console.error(`Could not get tab ${tabId}:`, error);
+			return createState(tabId, "");
+		}
+	}
+
+	return tabs.get(tabId) ?? createState(tabId, "");
+}
+
+/**
+ * Refetches a tab's page, skipping the cache
+ */
+export async function retryTab(tabId: number): Promise<void>
+{
+	const state = tabs.get(tabId);
+	if (!state) {
+		await getTabState(tabId);
+		return;
+	}
+
+	await fetchTabPage(tabId, { previewMode: state.isPreviewMode, skipCache: true });
+}
+
+/**
+ * Switches a tab to the draft the editor's preview button points to and
+ * fetches the draft's data.  Repeats of the current preview, and updates
+ * older than it, e.g. ones delayed by the content script's retries, are
+ * ignored.
+ */
+export function setTabPreview(tabId: number, previewUrl: string, timestamp: number): void
+{
+	const state = tabs.get(tabId);
+	if (!state?.isAdminPage || timestamp <= state.previewTimestamp || previewUrl === state.previewUrl) {
+		return;
+	}
+
+	setState(tabId, { isPreviewMode: true, previewUrl, previewTimestamp: timestamp });
+	void fetchTabPage(tabId, { previewMode: true });
+}
+
+/**
+ * Forgets a tab that has been closed
+ */
+export function removeTab(tabId: number): void
+{
+	clearTimeout(debounceTimers.get(tabId));
+	debounceTimers.delete(tabId);
+	tabs.delete(tabId);
+}
+
+/**
+ * Returns the states of the tabs showing a URL
+ */
+export function getTabStatesForUrl(url: string): TabPageState[]
+{
+	return Array.from(tabs.values()).filter((state) => state.url === url);
+}
+
+/**
+ * Calls the listener whenever a tab's state changes
+ * @returns A function that removes the listener
+ */
+export function subscribeToTabStates(listener: (state: TabPageState) => void): () => void
+{
+	listeners.add(listener);
+	return () => listeners.delete(listener);
+}
@@ -2,6 +2,8 @@
 // injected into api.sf.gov/admin/* pages to detect and track preview URLs
 
 import "@/lib/console.ts";
+import type { PreviewUnavailableMessage, PreviewUrlUpdateMessage } from "@sf-gov/shared";
+import { listenForMessages, sendToWorker } from "@/lib/messages.ts";
 
 interface PreviewButtonState {
 	href: string | null;
@@ -9,11 +11,7 @@ interface PreviewButtonState {
 	exists: boolean;
 }
 
-interface PreviewMessage {
-	type: "PREVIEW_URL_UPDATE" | "PREVIEW_UNAVAILABLE";
-	url?: string;
-	timestamp: number;
-}
+type PreviewMessage = PreviewUrlUpdateMessage | PreviewUnavailableMessage;
 
 // constants
 const PREVIEW_BUTTON_SELECTOR = "[data-controller=\"preview-button\"]";
@@ -73,8 +71,8 @@ function getButtonState(button: HTMLElement): PreviewButtonState {
  */
 async function sendMessage(message: PreviewMessage, retryCount = 0): Promise<void> {
 	try {
-		await chrome.runtime.sendMessage(message);
-		console.log("[admin-preview-monitor] message sent:", message.type, message.url || "");
+		await sendToWorker(message);
+		console.log("[admin-preview-monitor] message sent:", message.type, message.type === "PREVIEW_URL_UPDATE" ? message.url : "");
 	} catch (error) {
 		console.error("[admin-preview-monitor] failed to send message:", error);
 		
@@ -88,28 +86,40 @@ async function sendMessage(message: PreviewMessage, retryCount = 0): Promise<voi
 }
 
 /**
- * send PREVIEW_URL_UPDATE message
+ * create a PREVIEW_URL_UPDATE message and remember the url as sent
  */
-function sendPreviewUrlUpdate(url: string): void {
-	const message: PreviewMessage = {
+function createPreviewUrlUpdate(url: string): PreviewMessage {
+	lastSentHref = url;
+	return {
 		type: "PREVIEW_URL_UPDATE",
 		url,
 		timestamp: Date.now(),
 	};
-	sendMessage(message);
-	lastSentHref = url;
 }
 
 /**
- * send PREVIEW_UNAVAILABLE message
+ * create a PREVIEW_UNAVAILABLE message and forget the last url sent
  */
-function sendPreviewUnavailable(): void {
-	const message: PreviewMessage = {
+function createPreviewUnavailable(): PreviewMessage {
+	lastSentHref = null;
+	return {
 		type: "PREVIEW_UNAVAILABLE",
 		timestamp: Date.now(),
 	};
-	sendMessage(message);
-	lastSentHref = null;
+}
+
+/**
+ * send PREVIEW_URL_UPDATE message
+ */
+function sendPreviewUrlUpdate(url: string): void {
+	sendMessage(createPreviewUrlUpdate(url));
+}
+
+/**
+ * send PREVIEW_UNAVAILABLE message
+ */
+function sendPreviewUnavailable(): void {
+	sendMessage(createPreviewUnavailable());
 }
 
 /**
@@ -200,28 +210,27 @@ function cleanup(): void {
 
 /**
  * get current preview state
- * returns the current preview URL if available
+ * returns a message with the current preview URL if available
  */
-function getCurrentPreviewState(): void {
+function getCurrentPreviewState(): PreviewMessage {
 	console.log("[admin-preview-monitor] current preview state requested");
 	
 	const button = document.querySelector(PREVIEW_BUTTON_SELECTOR) as HTMLElement | null;
 	
 	if (!button) {
 		console.log("[admin-preview-monitor] no preview button found");
-		sendPreviewUnavailable();
-		return;
+		return createPreviewUnavailable();
 	}
 	
 	const state = getButtonState(button);
 	
 	if (!state.isDisabled && state.href) {
 		console.log("[admin-preview-monitor] sending current preview URL:", state.href);
-		sendPreviewUrlUpdate(state.href);
-	} else {
-		console.log("[admin-preview-monitor] preview button is disabled");
-		sendPreviewUnavailable();
+		return createPreviewUrlUpdate(state.href);
 	}
+
+	console.log("[admin-preview-monitor] preview button is disabled");
+	return createPreviewUnavailable();
 }
 
 /**
@@ -246,12 +255,12 @@ async function initialize(): Promise<void> {
 }
 
 /**
- * listen for messages from side panel requesting current state
+ * listen for requests from the service worker for the current state, and reply with it
  */
-chrome.runtime.onMessage.addListener((message, _sender, _sendResponse) => {
+listenForMessages((message, _sender, reply) => {
 	if (message.type === "REQUEST_PREVIEW_STATE") {
 		console.log("[admin-preview-monitor] received preview state request");
-		getCurrentPreviewState();
+		reply(getCurrentPreviewState());
 	}
 });
 
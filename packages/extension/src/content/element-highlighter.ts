@@ -0,0 +1,114 @@
+// content script for highlighting elements on SF.gov pages
+// the side panel sends a CSS selector captured by a link or accessibility check,
+// and this scrolls to the element and draws an outline over it
+
+import "@/lib/console.ts";
+import { listenForMessages } from "@/lib/messages.ts";
+
+// constants
+const OVERLAY_ID = "karl-jr-highlight-overlay";
+const OVERLAY_PADDING = 4;
+const HIGHLIGHT_DURATION = 6000; // 6 seconds
+
+// state
+let overlay: HTMLDivElement | null = null;
+let highlightedElement: Element | null = null;
+let removeTimer: number | null = null;
+
+/**
+ * create the overlay element, which ignores pointer events so the page stays usable
+ */
+function createOverlay(): HTMLDivElement {
+	const element = document.createElement("div");
+	element.id = OVERLAY_ID;
+	Object.assign(element.style, {
+		position: "absolute",
+		zIndex: "2147483647",
+		pointerEvents: "none",
+		border: "3px solid #2a60af",
+		borderRadius: "4px",
+		boxShadow: "0 0 0 4px rgba(42, 96, 175, 0.3)",
+		background: "rgba(42, 96, 175, 0.08)",
+		transition: "opacity 300ms",
+	});
+	document.body.appendChild(element);
+	return element;
+}
+
+/**
+ * move the overlay to cover the highlighted element
+ */
+function positionOverlay(): void {
+	if (!overlay || !highlightedElement) {
+		return;
+	}
+
+	const rect = highlightedElement.getBoundingClientRect();
+	Object.assign(overlay.style, {
+		top: `${rect.top + window.scrollY - OVERLAY_PADDING}px`,
+		left: `${rect.left + window.scrollX - OVERLAY_PADDING}px`,
+		width: `${rect.width + OVERLAY_PADDING * 2}px`,
+		height: `${rect.height + OVERLAY_PADDING * 2}px`,
+	});
+}
+
+/**
+ * remove the overlay and stop tracking the element
+ */
+function clearHighlight(): void {
+	if (removeTimer !== null) {
+		clearTimeout(removeTimer);
+		removeTimer = null;
+	}
+
+	overlay?.remove();
+	overlay = null;
+	highlightedElement = null;
+	window.removeEventListener("resize", positionOverlay);
+}
+
+/**
+ * scroll to the element matching the selector and outline it
+ */
+function highlight(selector: string): boolean {
+	clearHighlight();
+
+	let element: Element | null = null;
+	try {
+		element = document.querySelector(selector);
+	} catch (error) {
+		console.error("[element-highlighter] invalid selector:", selector, error);
+	}
+
+	if (!element) {
+		console.log("[element-highlighter] element not found:", selector);
+		return false;
+	}
+
+	highlightedElement = element;
+	overlay = createOverlay();
+	positionOverlay();
+	element.scrollIntoView({ behavior: "smooth", block: "center" });
+	window.addEventListener("resize", positionOverlay);
+
+	removeTimer = window.setTimeout(() => {
+		if (overlay) {
+			overlay.style.opacity = "0";
+		}
+		removeTimer = window.setTimeout(clearHighlight, 300);
+	}, HIGHLIGHT_DURATION);
+
+	return true;
+}
+
+/**
+ * listen for highlight requests from the side panel
+ */
+listenForMessages((message, _sender, reply) => {
+	if (message.type === "HIGHLIGHT_ELEMENT") {
+		reply({ type: "HIGHLIGHT_RESULT", found: highlight(message.selector) });
+	} else if (message.type === "CLEAR_HIGHLIGHT") {
+		clearHighlight();
+		reply({ type: "HIGHLIGHT_RESULT", found: false });
+	}
+});
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from "react";
+import type { AgencyFeedbackResponse, AgencyPageFeedback, AirtableApiError } from "@sf-gov/shared";
+import { getAgencyFeedback } from "@/api/airtable-client";
+import { Button } from "@/sidepanel/components/Button.tsx";
+import { EditIcon } from "@/sidepanel/components/EditIcon.tsx";
+import { ContentReview } from "./ContentReview.tsx";
+
+const Container = ({ children }: { children: React.ReactNode }) => (
+	<div className="min-h-screen p-8 bg-gray-50">
+		<div className="max-w-5xl mx-auto">
+			{children}
+		</div>
+	</div>
+);
+
+const Stat = ({ value, label }: { value: string | number; label: string }) => (
+	<div>
+		<div className="text-2xl font-bold text-gray-900">{value}</div>
+		<div className="text-xs text-gray-500 uppercase tracking-wide">{label}</div>
+	</div>
+);
+
+const PageRow = ({ page, rank }: { page: AgencyPageFeedback; rank: number }) => (
+	<tr className="border-b border-gray-100 last:border-b-0">
+		<td className="py-2 pr-4 text-gray-500">{rank}</td>
+		<td className="py-2 pr-4">
+			<a href={page.url} target="_blank" rel="noopener noreferrer">
+				{page.title || page.url}
+			</a>
+		</td>
+		<td className="py-2 pr-4 text-right">{page.stats.total}</td>
+		<td className="py-2 pr-4 text-right">{page.stats.total > 0 ? `${page.stats.helpfulPercent}%` : "–"}</td>
+		<td className="py-2 pr-4 text-right">{page.stats.notHelpful}</td>
+		<td className="py-2 text-right">
+			<a
+				href={page.editUrl}
+				target="_blank"
+				rel="noopener noreferrer"
+				title="Edit this page in Karl"
+				className="inline-flex items-center gap-1"
+			>
+				<EditIcon /> Edit
+			</a>
+		</td>
+	</tr>
+);
+
+/**
+ * Full-page view of the feedback for every page an agency owns, and of the
+ * pages due for review, opened from the side panel with the agency ID in the
+ * query string
+ */
+export const AgencyDashboard: React.FC = () => {
+	const agencyId = parseInt(new URLSearchParams(window.location.search).get("agencyId") || "", 10);
+	const [data, setData] = useState<AgencyFeedbackResponse | null>(null);
+	const [error, setError] = useState<AirtableApiError | null>(null);
+	const [isLoading, setIsLoading] = useState<boolean>(false);
+	const [showPagesWithoutFeedback, setShowPagesWithoutFeedback] = useState<boolean>(false);
+
+	const loadFeedback = async () => {
+		setIsLoading(true);
+		setError(null);
+
+		try {
+			setData(await getAgencyFeedback(agencyId));
+		} catch (err) {
+			setError(err as AirtableApiError);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	useEffect(() => {
+		if (agencyId > 0) {
+			loadFeedback();
+		}
+	}, [agencyId]);
+
+	useEffect(() => {
+		if (data?.agency.title) {
+			document.title = `${data.agency.title} Feedback - Karl Jr.`;
+		}
+	}, [data]);
+
+	if (!(agencyId > 0)) {
+		return (
+			<Container>
+				<p className="text-gray-600 text-sm">No agency was selected.</p>
+			</Container>
+		);
+	}
+
+	const renderFeedback = (): React.ReactNode => {
+		if (isLoading) {
+			return (
+				<div className="flex flex-col items-center justify-center min-h-[200px] p-8">
+					<div className="w-12 h-12 border-4 border-blue-200 border-t-blue-600 rounded-full animate-spin mb-4"></div>
+					<p className="text-gray-600 text-sm">Collecting feedback for the agency's pages. This can take a minute...</p>
+				</div>
+			);
+		}
+
+		if (error) {
+			return (
+				<div className="space-y-3">
+					<p className="text-sm font-medium text-red-600">{error.message}</p>
+					{error.type === "auth" && (
+						<p className="text-sm text-gray-600">To view user feedback, you need to be logged in to Karl.</p>
+					)}
+					{error.retryable && (
+						<Button onClick={loadFeedback}>Retry</Button>
+					)}
+				</div>
+			);
+		}
+
+		if (!data) {
+			return null;
+		}
+
+		const pagesWithFeedback = data.pages.filter((page) => page.stats.total > 0);
+		const visiblePages = showPagesWithoutFeedback ? data.pages : pagesWithFeedback;
+
+		return (
+			<>
+				<h1 className="text-2xl font-semibold text-gray-900">{data.agency.title}</h1>
+				<p className="text-sm text-gray-500 mt-1">
+					Feedback across {data.pages.length} page{data.pages.length === 1 ? "" : "s"} owned by this agency,
+					as of {new Date(data.generatedAt).toLocaleString("en-US")}
+				</p>
+
+				{data.pagesTruncated && (
+					<div className="mt-4 p-3 bg-amber-50 text-amber-800 text-sm rounded border border-amber-100">
+						Some of this agency's pages couldn't be included, because it has too many or they took too long to load.
+					</div>
+				)}
+
+				<div className="mt-6 bg-white border border-gray-200 rounded-lg shadow-sm p-4">
+					<div className="grid grid-cols-4 gap-4 text-center">
+						<Stat value={data.stats.total} label="Total Feedback" />
+						<Stat value={`${data.stats.helpfulPercent}%`} label="Helpful" />
+						<Stat value={`${data.stats.notHelpfulPercent}%`} label="Not Helpful" />
+						<Stat value={pagesWithFeedback.length} label="Pages With Feedback" />
+					</div>
+				</div>
+
+				<div className="mt-6 bg-white border border-gray-200 rounded-lg shadow-sm p-4">
+					<div className="flex items-center justify-between mb-3">
+						<h2 className="text-lg font-semibold text-gray-900">Pages, least helpful first</h2>
+						<label className="flex items-center gap-2 text-sm text-gray-600">
+							<input
+								type="checkbox"
+								checked={showPagesWithoutFeedback}
+								onChange={(event) => setShowPagesWithoutFeedback(event.target.checked)}
+							/>
+							Show pages without feedback
+						</label>
+					</div>
+					<p className="text-xs text-gray-500 mb-3">
+						Pages with only a few votes are listed after the ranked pages.
+					</p>
+
+					{visiblePages.length === 0 ? (
+						<p className="text-sm text-gray-500 italic">No feedback submitted for this agency's pages yet.</p>
+					) : (
+						<table className="w-full text-sm">
+							<thead>
+								<tr className="border-b border-gray-200 text-left text-xs text-gray-500 uppercase tracking-wide">
+									<th className="py-2 pr-4 font-medium">#</th>
+									<th className="py-2 pr-4 font-medium">Page</th>
+									<th className="py-2 pr-4 font-medium text-right">Feedback</th>
+									<th className="py-2 pr-4 font-medium text-right">Helpful</th>
+									<th className="py-2 pr-4 font-medium text-right">Not Helpful</th>
+									<th className="py-2 font-medium"><span className="sr-only">Edit</span></th>
+								</tr>
+							</thead>
+							<tbody>
+								{visiblePages.map((page, index) => (
+									<PageRow key={page.id} page={page} rank={index + 1} />
+								))}
+							</tbody>
+						</table>
+					)}
+				</div>
+			</>
+		);
+	};
+
+	// the content review loads on its own, so it's shown whatever the state
+	// of the feedback
+	return (
+		<Container>
+			{renderFeedback()}
+			<ContentReview agencyId={agencyId} />
+		</Container>
+	);
+};
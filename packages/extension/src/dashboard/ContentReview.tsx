@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { AirtableApiError, StalePage, StalePagesResponse } from "@sf-gov/shared";
+import { getStalePages } from "@/api/airtable-client";
+import { getPageFreshness, type PageFreshness } from "@/lib/content-freshness.ts";
+import { Button } from "@/sidepanel/components/Button.tsx";
+import { EditIcon } from "@/sidepanel/components/EditIcon.tsx";
+
+export const CONTENT_REVIEW_ID = "content-review";
+
+/**
+ * Number of pages listed before "Show all"
+ */
+const VISIBLE_PAGES = 50;
+
+interface ReviewedPage {
+	page: StalePage;
+	freshness: PageFreshness;
+}
+
+/**
+ * Works out each page's review status from the interval set for its content
+ * type, with the most overdue pages and the pages never published first
+ */
+function reviewPages(pages: StalePage[]): ReviewedPage[]
+{
+	const now = new Date();
+
+	return pages
+		.map((page) => ({
+			page,
+			freshness: getPageFreshness({
+				contentType: page.contentType,
+				firstPublishedAt: page.firstPublishedAt ?? undefined,
+				lastPublishedAt: page.lastPublishedAt ?? undefined,
+			}, now),
+		}))
+		.sort((a, b) => (a.freshness.daysUntilDue ?? -Infinity) - (b.freshness.daysUntilDue ?? -Infinity)
+			|| a.page.title.localeCompare(b.page.title));
+}
+
+/**
+ * Checks if a page should be reviewed now, including pages never published
+ */
+function isDueForReview({ status }: PageFreshness): boolean
+{
+	return status === "overdue" || status === "unknown";
+}
+
+function formatDate(value: string | null): string
+{
+	return value ? new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" }) : "–";
+}
+
+const StalePageRow = ({ page, freshness }: ReviewedPage) => (
+	<tr className="border-b border-gray-100 last:border-b-0">
+		<td className="py-2 pr-4">
+			<a href={page.url} target="_blank" rel="noopener noreferrer">
+				{page.title || page.url}
+			</a>
+		</td>
+		<td className="py-2 pr-4 text-right whitespace-nowrap">{formatDate(page.lastPublishedAt)}</td>
+		<td className="py-2 pr-4 text-right">{page.daysSincePublished ?? "–"}</td>
+		<td className="py-2 pr-4">
+			{isDueForReview(freshness) && (
+				<span className="inline-block rounded-full px-2 py-0.5 text-xs font-medium bg-red-100 text-red-800">
+					{freshness.status === "unknown" ? "Never published" : "Overdue"}
+				</span>
+			)}
+		</td>
+		<td className="py-2 text-right">
+			<a
+				href={page.editUrl}
+				target="_blank"
+				rel="noopener noreferrer"
+				title="Edit this page in Karl"
+				className="inline-flex items-center gap-1"
+			>
+				<EditIcon /> Edit
+			</a>
+		</td>
+	</tr>
+);
+
+/**
+ * The agency's pages that have gone longest without being published, so
+ * they can be reviewed.  Loaded separately from the feedback, which is slower.
+ */
+export const ContentReview: React.FC<{ agencyId: number }> = ({ agencyId }) => {
+	const [data, setData] = useState<StalePagesResponse | null>(null);
+	const [error, setError] = useState<AirtableApiError | null>(null);
+	const [isLoading, setIsLoading] = useState<boolean>(false);
+	const [showAll, setShowAll] = useState<boolean>(false);
+	const sectionRef = useRef<HTMLDivElement>(null);
+
+	const loadStalePages = async () => {
+		setIsLoading(true);
+		setError(null);
+
+		try {
+			setData(await getStalePages(agencyId));
+		} catch (err) {
+			setError(err as AirtableApiError);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	useEffect(() => {
+		loadStalePages();
+	}, [agencyId]);
+
+	// the side panel links straight to this section, which isn't on the page
+	// until the pages have loaded
+	useEffect(() => {
+		if (data && window.location.hash === `#${CONTENT_REVIEW_ID}`) {
+			sectionRef.current?.scrollIntoView();
+		}
+	}, [data]);
+
+	const reviewedPages = useMemo(() => reviewPages(data?.pages ?? []), [data]);
+	const overdueCount = reviewedPages.filter(({ freshness }) => isDueForReview(freshness)).length;
+	const visiblePages = showAll ? reviewedPages : reviewedPages.slice(0, VISIBLE_PAGES);
+
+	let content: React.ReactNode = null;
+
+	if (isLoading) {
+		content = (
+			<div className="flex items-center gap-3 py-4">
+				<div className="w-6 h-6 border-4 border-blue-200 border-t-blue-600 rounded-full animate-spin"></div>
+				<p className="text-gray-600 text-sm">Checking when the agency's pages were last published...</p>
+			</div>
+		);
+	} else if (error) {
+		content = (
+			<div className="space-y-3">
+				<p className="text-sm font-medium text-red-600">{error.message}</p>
+				{error.type === "auth" && (
+					<p className="text-sm text-gray-600">To review the agency's pages, you need to be logged in to Karl.</p>
+				)}
+				{error.retryable && (
+					<Button onClick={loadStalePages}>Retry</Button>
+				)}
+			</div>
+		);
+	} else if (data) {
+		content = (
+			<>
+				<p className="text-xs text-gray-500 mb-3">
+					{overdueCount} of {data.totalPages} page{data.totalPages === 1 ? " is" : "s are"} overdue for review, using
+					the review intervals for each content type in the options.
+				</p>
+
+				{data.pagesTruncated && (
+					<div className="mb-3 p-3 bg-amber-50 text-amber-800 text-sm rounded border border-amber-100">
+						This agency has more pages than can be checked, so only some of its pages are ranked, and staler pages may be missing.
+					</div>
+				)}
+
+				{reviewedPages.length === 0 ? (
+					<p className="text-sm text-gray-500 italic">This agency doesn't have any pages.</p>
+				) : (
+					<table className="w-full text-sm">
+						<thead>
+							<tr className="border-b border-gray-200 text-left text-xs text-gray-500 uppercase tracking-wide">
+								<th className="py-2 pr-4 font-medium">Page</th>
+								<th className="py-2 pr-4 font-medium text-right">Last Published</th>
+								<th className="py-2 pr-4 font-medium text-right">Days Ago</th>
+								<th className="py-2 pr-4 font-medium"><span className="sr-only">Status</span></th>
+								<th className="py-2 font-medium"><span className="sr-only">Edit</span></th>
+							</tr>
+						</thead>
+						<tbody>
+							{visiblePages.map(({ page, freshness }) => (
+								<StalePageRow key={page.id} page={page} freshness={freshness} />
+							))}
+						</tbody>
+					</table>
+				)}
+
+				{!showAll && reviewedPages.length > VISIBLE_PAGES && (
+					<div className="mt-3">
+						<Button onClick={() => setShowAll(true)}>Show all {reviewedPages.length} pages</Button>
+					</div>
+				)}
+			</>
+		);
+	}
+
+	return (
+		<div id={CONTENT_REVIEW_ID} ref={sectionRef} className="mt-6 bg-white border border-gray-200 rounded-lg shadow-sm p-4">
+			<h2 className="text-lg font-semibold text-gray-900 mb-3">Content review, most overdue first</h2>
+			{content}
+		</div>
+	);
+};
@@ -1,16 +1,131 @@
-export interface A11yResult {
-	fullUrl: string;
-	type: string;
-	details: string;
-	linkText: string;
-	targetUrl: string;
-	imageFilename: string;
+export type A11ySeverity = "critical" | "serious" | "moderate" | "minor";
+
+export type A11yRuleId =
+	| "image-alt"
+	| "image-alt-filename"
+	| "link-name"
+	| "link-text-generic"
+	| "link-text-url"
+	| "button-name"
+	| "heading-order"
+	| "empty-heading"
+	| "table-headers"
+	| "table-caption"
+	| "office-file-link";
+
+export interface A11yRule {
+	id: A11yRuleId;
+	name: string;
+	description: string;
+	severity: A11ySeverity;
+	// WCAG 2.1 success criteria, empty for City best practices
+	wcag: string[];
+}
+
+export interface A11yIssue {
+	ruleId: A11yRuleId;
+	message: string;
+	linkText?: string;
+	targetUrl?: string;
+	imageFilename?: string;
+	// CSS selector for highlighting the element on the page
+	selector?: string;
 }
 
-export function runA11yCheck(): A11yResult[]
+/**
+ * The rules checked by runA11yCheck, keyed by rule ID
+ */
+export const A11Y_RULES: Record<A11yRuleId, A11yRule> = {
+	"image-alt": {
+		id: "image-alt",
+		name: "Images must have alt text",
+		description: "Add alt text that describes the image, or mark it as decorative.",
+		severity: "serious",
+		wcag: ["1.1.1"],
+	},
+	"image-alt-filename": {
+		id: "image-alt-filename",
+		name: "Alt text should not be a file name",
+		description: "Replace the file name with a description of the image.",
+		severity: "moderate",
+		wcag: ["1.1.1"],
+	},
+	"link-name": {
+		id: "link-name",
+		name: "Links must have text",
+		description: "Links without text can't be understood by screen reader users.",
+		severity: "serious",
+		wcag: ["2.4.4", "4.1.2"],
+	},
+	"link-text-generic": {
+		id: "link-text-generic",
+		name: "Link text should describe the destination",
+		description: "Text like \"click here\" or \"learn more\" doesn't say where the link goes.",
+		severity: "moderate",
+		wcag: ["2.4.4"],
+	},
+	"link-text-url": {
+		id: "link-text-url",
+		name: "Link text should not be a URL",
+		description: "Screen readers read URLs one character at a time. Use a description instead.",
+		severity: "minor",
+		wcag: ["2.4.4"],
+	},
+	"button-name": {
+		id: "button-name",
+		name: "Buttons must have an accessible name",
+		description: "Icon-only buttons need a label that screen readers can announce.",
+		severity: "critical",
+		wcag: ["4.1.2"],
+	},
+	"heading-order": {
+		id: "heading-order",
+		name: "Heading levels should only increase by one",
+		description: "Skipping heading levels makes the page structure hard to follow.",
+		severity: "moderate",
+		wcag: ["1.3.1"],
+	},
+	"empty-heading": {
+		id: "empty-heading",
+		name: "Headings must not be empty",
+		description: "Empty headings are announced by screen readers but have nothing to say.",
+		severity: "minor",
+		wcag: ["1.3.1", "2.4.6"],
+	},
+	"table-headers": {
+		id: "table-headers",
+		name: "Data tables must have header cells",
+		description: "Mark the header row or column so each cell can be related to its header.",
+		severity: "serious",
+		wcag: ["1.3.1"],
+	},
+	"table-caption": {
+		id: "table-caption",
+		name: "Tables should have a caption",
+		description: "A caption tells people what the table is about before they read it.",
+		severity: "minor",
+		wcag: ["1.3.1"],
+	},
+	"office-file-link": {
+		id: "office-file-link",
+		name: "Links to Office files",
+		description: "Office documents are often inaccessible. Put the content on the page instead where possible.",
+		severity: "minor",
+		wcag: [],
+	},
+};
+
+export const A11Y_SEVERITY_ORDER: A11ySeverity[] = ["critical", "serious", "moderate", "minor"];
+
+/**
+ * Runs the accessibility rules against the main content of the current page.
+ * NOTE: This function must be self-contained since it's injected via chrome.scripting.executeScript
+ */
+export function runA11yCheck(): A11yIssue[]
 {
-	const TRIGGER_PHRASES = [
+	const GENERIC_LINK_TEXT = [
 		"click here",
+		"here",
 		"read more",
 		"learn more",
 		"go here",
@@ -19,11 +134,12 @@ export function runA11yCheck(): A11yResult[]
 		"details",
 		"see details",
 		"more",
+		"more info",
 		"see all",
 		"view all",
+		"link",
 	];
-	const EXCLUDED_PHRASES = ["learn more about us"];
-	const ALLOWED_OFFICE_EXTENSIONS = [
+	const OFFICE_EXTENSIONS = [
 		".doc",
 		".docx",
 		".xls",
@@ -31,337 +147,207 @@ export function runA11yCheck(): A11yResult[]
 		".ppt",
 		".pptx",
 	];
-	const RAW_URL_PATTERN = /(?<!@)\b(?:https?:\/\/|www\.)[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}(?:\/[^\s<>"\']*)?/g;
+	const URL_TEXT_PATTERN = /^(?:https?:\/\/|www\.)\S+$/i;
+	const FILENAME_PATTERN = /^[\w\s-]+\.(?:jpe?g|png|gif|svg|webp)$/i;
 
-	function isValidUrl(url: string): boolean
-	{
-		if (url.includes("mailto:") || url.includes("@")) {
-			return false;
+	const root = document.querySelector("main") || document.body;
+	const issues: A11yIssue[] = [];
+
+	// builds a CSS selector that finds the element again when it's highlighted
+	const getSelector = (element: Element): string => {
+		const parts: string[] = [];
+		let current: Element | null = element;
+
+		while (current && current !== document.body) {
+			if (current.id) {
+				parts.unshift(`#${CSS.escape(current.id)}`);
+				return parts.join(" > ");
+			}
+
+			const tagName: string = current.tagName;
+			const siblings: Element[] = current.parentElement
+				? Array.from(current.parentElement.children).filter((child) => child.tagName === tagName)
+				: [current];
+			parts.unshift(`${tagName.toLowerCase()}:nth-of-type(${siblings.indexOf(current) + 1})`);
+			current = current.parentElement;
 		}
-		const VALID_TLDS = [
-			".com",
-			".org",
-			".net",
-			".gov",
-			".edu",
-			".info",
-			".io",
-			".co",
-			".us",
-			".ca",
-		];
-		return VALID_TLDS.some((tld) => url.toLowerCase().endsWith(tld));
-	}
 
-	//@ts-ignore
-	function analyzeTables(
-		doc: Document,
-		url: string): A11yResult[]
-	{
-		const results: A11yResult[] = [];
-		try {
-			const tables = doc.querySelectorAll("table");
-			tables.forEach((table) => {
-				const caption = table.querySelector("caption");
-				const tableCaption = caption?.textContent?.trim() || "";
+		return ["body", ...parts].join(" > ");
+	};
 
-				const rows = Array.from(table.querySelectorAll("tr"));
-				const rowHeaders = rows.some((tr) => {
-					const ths = tr.querySelectorAll("th");
-					const tds = tr.querySelectorAll("td");
-					return ths.length > 0 && tds.length > 0;
-				});
+	const getFilename = (src: string) => src.split("?")[0].split("/").pop() || "";
 
-				let colHeaders = false;
-				const thead = table.querySelector("thead");
-				if (thead && thead.querySelectorAll("th").length > 0) {
-					colHeaders = true;
-				} else if (rows.length > 0) {
-					const firstRow = rows[0];
-					const cells = Array.from(firstRow.querySelectorAll("th, td"));
-					if (cells.every((cell) => cell.tagName === "TH")) {
-						colHeaders = true;
-					}
-				}
+	// accessible name from the attributes and content screen readers use
+	const getAccessibleName = (element: Element): string => {
+		const labelledBy = element.getAttribute("aria-labelledby");
+		const labelledByText = labelledBy
+			?.split(/\s+/)
+			.map((id) => document.getElementById(id)?.textContent?.trim() || "")
+			.join(" ")
+			.trim();
+		const imageAlt = Array.from(element.querySelectorAll("img[alt]"))
+			.map((img) => img.getAttribute("alt")?.trim() || "")
+			.join(" ")
+			.trim();
 
-				results.push({
-					fullUrl: url,
-					type: "Table Info",
-					details: `Caption: ${tableCaption}, Row headers: ${rowHeaders ?
-						"yes" : "no"
-					}, Column headers: ${colHeaders ? "yes" : "no"}`,
-					linkText: "",
-					targetUrl: "",
-					imageFilename: "",
-				});
-			});
-		} catch (e) {
-			console.error(`[Table error] ${url}: ${e}`);
-		}
-		return results;
-	}
+		return labelledByText
+			|| element.getAttribute("aria-label")?.trim()
+			|| element.textContent?.trim()
+			|| imageAlt
+			|| (element as HTMLInputElement).value?.trim()
+			|| element.getAttribute("title")?.trim()
+			|| "";
+	};
 
-	//@ts-ignore
-	function findInaccessibleLinks(
-		doc: Document,
-		url: string
-	): A11yResult[]
-	{
-		const results: A11yResult[] = [];
-		try {
-			// --- Inaccessible <a> tags ---
-			const links = doc.querySelectorAll("a[href]");
-			links.forEach((link) => {
-				const aTag = link as HTMLAnchorElement;
-				const linkText = aTag.textContent?.trim().toLowerCase() || "";
-				if (TRIGGER_PHRASES.some((phrase) => linkText.includes(phrase))) {
-					if (
-						EXCLUDED_PHRASES.every((excluded) => !linkText.includes(excluded))
-					) {
-						results.push({
-							fullUrl: url,
-							type: "Inaccessible Link",
-							details: "",
-							linkText: aTag.textContent?.trim() || "",
-							targetUrl: aTag.href,
-							imageFilename: "",
-						});
-					}
-				}
-			});
+	const checkImages = () => {
+		root.querySelectorAll("img").forEach((img) => {
+			const alt = img.getAttribute("alt");
+			const imageFilename = getFilename(img.src);
 
-			// --- Inaccessible <button> and <input> ---
-			const buttons = Array.from(doc.querySelectorAll("button"));
-			const inputs = Array.from(
-				doc.querySelectorAll("input[type='submit'], input[type='button']")
-			);
-			const allButtons = [...buttons, ...inputs];
+			// alt="" marks an image as decorative, which is fine
+			if (alt === null && img.getAttribute("role") !== "presentation" && img.getAttribute("aria-hidden") !== "true") {
+				issues.push({
+					ruleId: "image-alt",
+					message: "Image has no alt attribute",
+					targetUrl: img.src,
+					imageFilename,
+					selector: getSelector(img),
+				});
+			} else if (alt && FILENAME_PATTERN.test(alt.trim())) {
+				issues.push({
+					ruleId: "image-alt-filename",
+					message: `alt="${alt}"`,
+					targetUrl: img.src,
+					imageFilename,
+					selector: getSelector(img),
+				});
+			}
+		});
+	};
 
-			allButtons.forEach((tag) => {
-				const element = tag as HTMLElement;
-				const label =
-					element.getAttribute("aria-label") ||
-					element.getAttribute("title") ||
-					(element as HTMLInputElement).value ||
-					element.textContent?.trim() ||
-					"";
+	const checkLinks = () => {
+		root.querySelectorAll("a[href]").forEach((link) => {
+			const anchor = link as HTMLAnchorElement;
+			const name = getAccessibleName(anchor);
+			const normalizedName = name.toLowerCase().replace(/[.\s]+$/, "").replace(/\s+/g, " ");
+			const href = anchor.href.split("?")[0].split("#")[0].toLowerCase();
 
-				const labelText = label.trim().toLowerCase();
-				const hasLabel = !!labelText;
+			if (!name) {
+				issues.push({
+					ruleId: "link-name",
+					message: "Link has no text or label",
+					targetUrl: anchor.href,
+					selector: getSelector(anchor),
+				});
+			} else if (GENERIC_LINK_TEXT.includes(normalizedName)) {
+				issues.push({
+					ruleId: "link-text-generic",
+					message: `Link text "${name}" doesn't describe the destination`,
+					linkText: name,
+					targetUrl: anchor.href,
+					selector: getSelector(anchor),
+				});
+			} else if (URL_TEXT_PATTERN.test(name)) {
+				issues.push({
+					ruleId: "link-text-url",
+					message: "Link text is a URL",
+					linkText: name,
+					targetUrl: anchor.href,
+					selector: getSelector(anchor),
+				});
+			}
 
-				const isIconOnly =
-					!hasLabel &&
-					(element.querySelector("svg") ||
-						Array.from(element.classList).some((cls) => cls.includes("icon")));
+			if (OFFICE_EXTENSIONS.some((ext) => href.endsWith(ext))) {
+				issues.push({
+					ruleId: "office-file-link",
+					message: `Links to a ${href.split(".").pop()?.toUpperCase()} file`,
+					linkText: name,
+					targetUrl: anchor.href,
+					selector: getSelector(anchor),
+				});
+			}
+		});
+	};
 
-				if (
-					isIconOnly ||
-					!hasLabel ||
-					TRIGGER_PHRASES.some((phrase) => labelText.includes(phrase))
-				) {
-					if (
-						EXCLUDED_PHRASES.every((excluded) => !labelText.includes(excluded))
-					) {
-						results.push({
-							fullUrl: url,
-							type: "Inaccessible Button",
-							details: "Missing accessible label (icon-only)",
-							linkText: label || "",
-							targetUrl: "",
-							imageFilename: "",
-						});
-					}
-				}
-			});
+	const checkButtons = () => {
+		root.querySelectorAll("button, input[type='submit'], input[type='button'], [role='button']").forEach((button) => {
+			if (!getAccessibleName(button)) {
+				issues.push({
+					ruleId: "button-name",
+					message: `<${button.tagName.toLowerCase()}> has no accessible name`,
+					selector: getSelector(button),
+				});
+			}
+		});
+	};
 
-			// --- Raw URLs ---
-			const visibleText = doc.body.innerText;
-			const rawUrls = visibleText.match(RAW_URL_PATTERN) || [];
-			rawUrls.forEach((rawUrl) => {
-				let processedUrl = rawUrl;
-				if (!processedUrl.startsWith("http://") &&
-					!processedUrl.startsWith("https://")) {
-					processedUrl = "https://" + processedUrl;
-				}
-				if (isValidUrl(processedUrl)) {
-					results.push({
-						fullUrl: url,
-						type: "Inaccessible Link",
-						details: "",
-						linkText: "",
-						targetUrl: processedUrl,
-						imageFilename: "",
-					});
-				}
-			});
-		} catch (e) {
-			console.error(`[Inaccessible link error] ${url}: ${e}`);
-		}
-		return results;
-	}
+	const checkHeadings = () => {
+		const headings = Array.from(root.querySelectorAll("h1, h2, h3, h4, h5, h6"));
+		let previousLevel = 0;
 
-	//@ts-ignore
-	function extractPdfLinks(
-		doc: Document,
-		url: string): A11yResult[]
-	{
-		const results: A11yResult[] = [];
-		try {
-			const links = doc.querySelectorAll("a[href]");
-			links.forEach((link) => {
-				const aTag = link as HTMLAnchorElement;
-				const href = aTag.href;
-				if (href.toLowerCase().endsWith(".pdf")) {
-					results.push({
-						fullUrl: url,
-						type: "PDF Link",
-						details: "",
-						linkText: aTag.textContent?.trim() || "",
-						targetUrl: href,
-						imageFilename: "",
-					});
-				}
-			});
-		} catch (e) {
-			console.error(`[PDF link error] ${url}: ${e}`);
-		}
-		return results;
-	}
+		headings.forEach((heading) => {
+			const level = parseInt(heading.tagName[1], 10);
+			const text = heading.textContent?.trim() || "";
 
-	//@ts-ignore
-	function findImagesWithAlt(
-		doc: Document,
-		url: string
-	): A11yResult[]
-	{
-		const results: A11yResult[] = [];
-		try {
-			const images = doc.querySelectorAll("img");
-			images.forEach((img) => {
-				const altText = img.getAttribute("alt");
-				const src = img.src;
-				if (altText && altText.trim()) {
-					const filename = src.split("/").pop() || "";
-					results.push({
-						fullUrl: url,
-						type: "Image with alt text",
-						details: `alt="${altText}"`,
-						linkText: "",
-						targetUrl: src,
-						imageFilename: filename,
-					});
-				}
-			});
-		} catch (e) {
-			console.error(`[Image alt text error] ${url}: ${e}`);
-		}
-		return results;
-	}
+			if (!text) {
+				issues.push({
+					ruleId: "empty-heading",
+					message: `Empty <${heading.tagName.toLowerCase()}>`,
+					selector: getSelector(heading),
+				});
+				return;
+			}
 
-	function findImagesMissingAlt(
-		doc: Document,
-		url: string
-	): A11yResult[]
-	{
-		const results: A11yResult[] = [];
-		try {
-			const images = doc.querySelectorAll("img");
-			images.forEach((img) => {
-				const altText = img.getAttribute("alt");
-				const src = img.src;
-				if (!altText || altText.trim() === "") {
-					const filename = src.split("/").pop() || "";
-					results.push({
-						fullUrl: url,
-						type: "Image missing alt text",
-						details: "",
-						linkText: "",
-						targetUrl: src,
-						imageFilename: filename,
-					});
-				}
-			});
-		} catch (e) {
-			console.error(`[Missing alt error] ${url}: ${e}`);
-		}
-		return results;
-	}
+			if (previousLevel && level > previousLevel + 1) {
+				issues.push({
+					ruleId: "heading-order",
+					message: `<h${level}> "${text}" follows an <h${previousLevel}>`,
+					selector: getSelector(heading),
+				});
+			}
+			previousLevel = level;
+		});
+	};
 
-	function checkHeadingHierarchy(
-		doc: Document,
-		url: string
-	): A11yResult[]
-	{
-		const results: A11yResult[] = [];
-		try {
-			const headings = Array.from(
-				doc.querySelectorAll("h1, h2, h3, h4, h5, h6")
-			);
-			const hierarchy = headings.map((h) => parseInt(h.tagName[1]));
-			let prev = 0;
-			for (const level of hierarchy) {
-				if (prev && level > prev + 1) {
-					results.push({
-						fullUrl: url,
-						type: "Heading hierarchy issue",
-						details: `Improper heading sequence: ${hierarchy.join(", ")}`,
-						linkText: "",
-						targetUrl: "",
-						imageFilename: "",
-					});
-					break;
-				}
-				prev = level;
+	const checkTables = () => {
+		root.querySelectorAll("table").forEach((table, index) => {
+			// tables marked as presentational are used for layout, not data
+			if (table.getAttribute("role") === "presentation") {
+				return;
 			}
-		} catch (e) {
-			console.error(`[Heading hierarchy error] ${url}: ${e}`);
-		}
-		return results;
-	}
 
-	//@ts-ignore
-	function findOfficeLinks(
-		doc: Document,
-		url: string): A11yResult[]
-	{
-		const results: A11yResult[] = [];
-		try {
-			const links = doc.querySelectorAll("a[href]");
-			links.forEach((link) => {
-				const aTag = link as HTMLAnchorElement;
-				const href = aTag.href.split("?")[0].split("#")[0];
-				for (const ext of ALLOWED_OFFICE_EXTENSIONS) {
-					if (href.toLowerCase().endsWith(ext)) {
-						results.push({
-							fullUrl: url,
-							type: "Office File Link",
-							details: "",
-							linkText: aTag.textContent?.trim() || "",
-							targetUrl: aTag.href,
-							imageFilename: "",
-						});
-						break;
-					}
-				}
-			});
-		} catch (e) {
-			console.error(`[Office file link error] ${url}: ${e}`);
-		}
-		return results;
-	}
+			const label = table.querySelector("caption")?.textContent?.trim()
+				|| table.getAttribute("aria-label")
+				|| "";
+			const name = label ? `"${label}"` : `Table ${index + 1}`;
 
-	const url = window.location.href;
-	const document = window.document;
-	const results: A11yResult[] = [];
+			if (!table.querySelector("th, [role='columnheader'], [role='rowheader']")) {
+				issues.push({
+					ruleId: "table-headers",
+					message: `${name} has no header cells`,
+					selector: getSelector(table),
+				});
+			}
+
+			if (!label && !table.getAttribute("aria-labelledby")) {
+				issues.push({
+					ruleId: "table-caption",
+					message: `${name} has no caption`,
+					selector: getSelector(table),
+				});
+			}
+		});
+	};
 
-	// Only running checks that return actual issues/errors
-	results.push(...analyzeTables(document, url)); // Info only
-//	results.push(...findInaccessibleLinks(document, url));
-//	results.push(...extractPdfLinks(document, url)); // Warning/Info
-//	results.push(...findImagesWithAlt(document, url)); // Good info
-	results.push(...findImagesMissingAlt(document, url));
-	results.push(...checkHeadingHierarchy(document, url));
-	results.push(...findOfficeLinks(document, url)); // Warning/Info
+	try {
+		checkImages();
+		checkLinks();
+		checkButtons();
+		checkHeadings();
+		checkTables();
+	} catch (e) {
+		console.error(`[A11y check error] ${window.location.href}: ${e}`);
+	}
 
-	return results;
+	return issues;
 }
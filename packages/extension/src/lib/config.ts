@@ -0,0 +1,325 @@
+/**
+ * Extension settings, stored in chrome.storage.sync and edited on the
+ * options page.  The settings are loaded once per extension page or service
+ * worker with loadConfig(), after which the getters can be called
+ * synchronously, and they stay up to date when the options change.
+ */
+
+export type CardId =
+	| "feedback"
+	| "formConfirmation"
+	| "media"
+	| "linkChecker"
+	| "a11y"
+	| "metadata"
+	| "pageTree"
+	| "translations"
+	| "freshness";
+
+export interface Environment {
+	id: string;
+	name: string;
+	// hostnames of pages that belong to this environment, where a leading dot
+	// also matches subdomains, e.g. ".staging.dev.sf.gov"
+	siteHosts: string[];
+	// Wagtail API and admin URLs, with trailing slashes
+	apiBaseUrl: string;
+	adminBaseUrl: string;
+	// the companion API server, without a trailing slash
+	companionApiUrl: string;
+}
+
+export interface ReviewSettings {
+	// months between reviews for content types without their own interval
+	defaultMonths: number;
+	// months between reviews by content type name, e.g. { Transaction: 6 }
+	byContentType: Record<string, number>;
+}
+
+export interface ExtensionConfig {
+	environments: Environment[];
+	// environment whose companion API and Karl login are used, and which is
+	// used for pages that don't match any environment
+	activeEnvironmentId: string;
+	cards: Record<CardId, boolean>;
+	review: ReviewSettings;
+}
+
+export const CARD_NAMES: Record<CardId, string> = {
+	feedback: "User Feedback",
+	formConfirmation: "Form Confirmation",
+	media: "Images and Files",
+	linkChecker: "Link Checker",
+	a11y: "Accessibility Check",
+	metadata: "Metadata",
+	pageTree: "Location",
+	translations: "Translations",
+	freshness: "Content Freshness",
+};
+
+const STORAGE_KEY = "config";
+
+const DEFAULT_COMPANION_API_URL = import.meta.env.VITE_API_BASE_URL || "https://sfgov-companion-api.vercel.app";
+
+export const DEFAULT_CONFIG: ExtensionConfig = {
+	environments: [
+		{
+			id: "production",
+			name: "Production",
+			siteHosts: ["sf.gov", "www.sf.gov", "api.sf.gov"],
+			apiBaseUrl: "https://api.sf.gov/api/v2/",
+			adminBaseUrl: "https://api.sf.gov/admin/",
+			companionApiUrl: DEFAULT_COMPANION_API_URL,
+		},
+		{
+			id: "staging",
+			name: "Staging",
+			siteHosts: ["staging.dev.sf.gov", ".staging.dev.sf.gov"],
+			apiBaseUrl: "https://api.staging.dev.sf.gov/api/v2/",
+			adminBaseUrl: "https://api.staging.dev.sf.gov/admin/",
+			companionApiUrl: DEFAULT_COMPANION_API_URL,
+		},
+		{
+			id: "local",
+			name: "Local dev server",
+			siteHosts: ["localhost", "127.0.0.1"],
+			apiBaseUrl: "http://localhost:8000/api/v2/",
+			adminBaseUrl: "http://localhost:8000/admin/",
+			companionApiUrl: "http://localhost:3000",
+		},
+	],
+	activeEnvironmentId: "production",
+	cards: {
+		feedback: true,
+		formConfirmation: true,
+		media: true,
+		linkChecker: true,
+		a11y: true,
+		metadata: true,
+		pageTree: true,
+		translations: true,
+		freshness: true,
+	},
+	// agencies are expected to review their content every year
+	review: {
+		defaultMonths: 12,
+		byContentType: {},
+	},
+};
+
+let config: ExtensionConfig = DEFAULT_CONFIG;
+let loadPromise: Promise<ExtensionConfig> | null = null;
+const listeners = new Set<(config: ExtensionConfig) => void>();
+
+/**
+ * Fills in settings added since the stored config was saved
+ */
+function withDefaults(stored: Partial<ExtensionConfig> | undefined): ExtensionConfig
+{
+	return {
+		environments: stored?.environments?.length ? stored.environments : DEFAULT_CONFIG.environments,
+		activeEnvironmentId: stored?.activeEnvironmentId || DEFAULT_CONFIG.activeEnvironmentId,
+		cards: { ...DEFAULT_CONFIG.cards, ...stored?.cards },
+		review: { ...DEFAULT_CONFIG.review, ...stored?.review },
+	};
+}
+
+/**
+ * Loads the settings from storage and starts watching them for changes.
+ * Calling it again returns the same promise.
+ */
+export function loadConfig(): Promise<ExtensionConfig>
+{
+	if (!loadPromise) {
+		loadPromise = chrome.storage.sync.get(STORAGE_KEY)
+			.then((stored) => {
+				config = withDefaults(stored[STORAGE_KEY] as Partial<ExtensionConfig> | undefined);
+				return config;
+			})
+			.catch((error) => {
+				console.error("Failed to load settings, using defaults:", error);
+				return config;
+			});
+
+		chrome.storage.onChanged.addListener((changes, areaName) => {
+			if (areaName === "sync" && changes[STORAGE_KEY]) {
+				config = withDefaults(changes[STORAGE_KEY].newValue as Partial<ExtensionConfig> | undefined);
+				listeners.forEach((listener) => listener(config));
+			}
+		});
+	}
+
+	return loadPromise;
+}
+
+/**
+ * Returns the current settings, or the defaults if they haven't loaded yet
+ */
+export function getConfig(): ExtensionConfig
+{
+	return config;
+}
+
+/**
+ * Saves the settings, which updates every open extension page
+ */
+export async function saveConfig(newConfig: ExtensionConfig): Promise<void>
+{
+	config = newConfig;
+	await chrome.storage.sync.set({ [STORAGE_KEY]: newConfig });
+}
+
+/**
+ * Calls the listener whenever the settings change
+ * @returns A function that stops listening
+ */
+export function subscribeToConfig(listener: (config: ExtensionConfig) => void): () => void
+{
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+/**
+ * Returns the environment used for the companion API and Karl login
+ */
+export function getActiveEnvironment(): Environment
+{
+	return config.environments.find((environment) => environment.id === config.activeEnvironmentId)
+		|| config.environments[0];
+}
+
+/**
+ * Returns the environment a page belongs to, falling back to production when
+ * the URL is missing or doesn't match any of them, which is where the API and
+ * admin URLs pointed before environments were configurable
+ * @param url - The page URL
+ */
+export function getEnvironmentForUrl(url?: string): Environment
+{
+	if (url) {
+		try {
+			const hostname = new URL(url).hostname.toLowerCase();
+			const match = config.environments.find((environment) =>
+				environment.siteHosts.some((host) =>
+					host.startsWith(".") ? hostname.endsWith(host) : hostname === host
+				)
+			);
+			if (match) {
+				return match;
+			}
+		} catch (e) {
+			// invalid URL, fall through to default
+		}
+	}
+
+	return config.environments.find((environment) => environment.id === "production")
+		|| DEFAULT_CONFIG.environments[0];
+}
+
+/**
+ * Returns the Wagtail API base URL for a page, e.g. "https://api.sf.gov/api/v2/"
+ */
+export function getApiBaseUrl(url?: string): string
+{
+	return getEnvironmentForUrl(url).apiBaseUrl;
+}
+
+/**
+ * Returns the Wagtail admin base URL for a page, e.g. "https://api.sf.gov/admin/"
+ */
+export function getAdminBaseUrl(url?: string): string
+{
+	return getEnvironmentForUrl(url).adminBaseUrl;
+}
+
+/**
+ * Returns the same page in another environment.  Wagtail admin and API URLs
+ * are mapped to the environment's admin and API base URLs, and site pages by
+ * swapping the hostname for the environment's first full site hostname.
+ * @returns The URL, or null if the environment only lists subdomain patterns
+ */
+export function getUrlInEnvironment(url: string, environment: Environment): string | null
+{
+	const current = getEnvironmentForUrl(url);
+	const baseUrls: Array<[string, string]> = [
+		[current.adminBaseUrl, environment.adminBaseUrl],
+		[current.apiBaseUrl, environment.apiBaseUrl],
+	];
+
+	for (const [fromBaseUrl, toBaseUrl] of baseUrls) {
+		if (url.startsWith(fromBaseUrl)) {
+			return toBaseUrl + url.slice(fromBaseUrl.length);
+		}
+	}
+
+	const host = environment.siteHosts.find((siteHost) => !siteHost.startsWith("."));
+	if (!host) {
+		return null;
+	}
+
+	try {
+		const urlObj = new URL(url);
+		urlObj.hostname = host;
+		return urlObj.toString();
+	} catch (e) {
+		return null;
+	}
+}
+
+/**
+ * Returns match patterns for the hosts the environments use, which the
+ * extension needs permission to reach, e.g. "https://api.sf.gov/*"
+ */
+export function getEnvironmentOrigins(environments: Environment[]): string[]
+{
+	const origins = new Set<string>();
+
+	environments.forEach((environment) => {
+		[environment.apiBaseUrl, environment.adminBaseUrl, environment.companionApiUrl].forEach((url) => {
+			try {
+				const { protocol, hostname } = new URL(url);
+				origins.add(`${protocol}//${hostname}/*`);
+			} catch (e) {
+				// invalid URLs are caught before the settings are saved
+			}
+		});
+
+		environment.siteHosts.forEach((host) => {
+			origins.add(host.startsWith(".") ? `*://*${host}/*` : `*://${host}/*`);
+		});
+	});
+
+	return Array.from(origins);
+}
+
+/**
+ * Returns the companion API server URL, without a trailing slash
+ */
+export function getCompanionApiUrl(): string
+{
+	return getActiveEnvironment().companionApiUrl.replace(/\/$/, "");
+}
+
+/**
+ * Returns true if a side panel card is turned on in the options
+ */
+export function isCardEnabled(card: CardId): boolean
+{
+	return config.cards[card] !== false;
+}
+
+/**
+ * Returns how many months a page can go without being published before it's
+ * due for review
+ * @param contentType - The page's content type, e.g. "sf.Transaction"
+ */
+export function getReviewIntervalMonths(contentType: string): number
+{
+	const name = (contentType.split(".").pop() || contentType).toLowerCase();
+	const match = Object.entries(config.review.byContentType)
+		.find(([type]) => type.toLowerCase() === name);
+
+	return match ? match[1] : config.review.defaultMonths;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { getPageFreshness } from "./content-freshness";
+
+// pages use the default review interval of 12 months
+function getFreshness(lastPublishedAt: string | undefined, now: string, firstPublishedAt?: string)
+{
+	return getPageFreshness({ contentType: "sf.Transaction", firstPublishedAt, lastPublishedAt }, new Date(now));
+}
+
+describe("getPageFreshness", () => {
+	it("makes a page due a review interval after it was last published", () => {
+		const freshness = getFreshness("2024-03-15T12:00:00", "2024-06-01T12:00:00");
+
+		expect(freshness.reviewIntervalMonths).toBe(12);
+		expect(freshness.reviewDueAt).toEqual(new Date("2025-03-15T12:00:00"));
+		expect(freshness.status).toBe("current");
+	});
+
+	it("keeps the due date within a shorter month", () => {
+		expect(getFreshness("2023-02-28T12:00:00", "2023-06-01T12:00:00").reviewDueAt)
+			.toEqual(new Date("2024-02-28T12:00:00"));
+		expect(getFreshness("2024-02-29T12:00:00", "2024-06-01T12:00:00").reviewDueAt)
+			.toEqual(new Date("2025-02-28T12:00:00"));
+	});
+
+	it("counts the days until the review is due, and flags reviews due within 30 days", () => {
+		const freshness = getFreshness("2024-03-15T12:00:00", "2025-02-13T12:00:00");
+
+		expect(freshness.daysUntilDue).toBe(30);
+		expect(freshness.status).toBe("due_soon");
+		expect(getFreshness("2024-03-15T12:00:00", "2025-02-12T12:00:00").status).toBe("current");
+	});
+
+	it("flags pages past their review date as overdue", () => {
+		const freshness = getFreshness("2024-03-15T12:00:00", "2025-03-16T12:00:00");
+
+		expect(freshness.daysUntilDue).toBe(-1);
+		expect(freshness.status).toBe("overdue");
+	});
+
+	it("falls back to the first publish date", () => {
+		expect(getFreshness(undefined, "2024-06-01T12:00:00", "2024-03-15T12:00:00").reviewDueAt)
+			.toEqual(new Date("2025-03-15T12:00:00"));
+	});
+
+	it("can't say when pages that were never published are due", () => {
+		const freshness = getFreshness(undefined, "2024-06-01T12:00:00");
+
+		expect(freshness.reviewDueAt).toBeNull();
+		expect(freshness.status).toBe("unknown");
+	});
+});
@@ -0,0 +1,95 @@
+/**
+ * Works out when a page is due for review, from when it was last published
+ * and the review interval configured for its content type
+ */
+
+import type { WagtailPage } from "@sf-gov/shared";
+import { getReviewIntervalMonths } from "@/lib/config.ts";
+
+export type FreshnessStatus = "current" | "due_soon" | "overdue" | "unknown";
+
+export interface PageFreshness {
+	firstPublishedAt: Date | null;
+	lastPublishedAt: Date | null;
+	reviewIntervalMonths: number;
+	// null when the page has never been published
+	reviewDueAt: Date | null;
+	// negative once the review is overdue
+	daysUntilDue: number | null;
+	status: FreshnessStatus;
+}
+
+/**
+ * Pages due for review within this many days are flagged as due soon
+ */
+export const DUE_SOON_DAYS = 30;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses an ISO date from the API, ignoring missing or invalid values
+ */
+function parseDate(value: string | undefined): Date | null
+{
+	if (!value) {
+		return null;
+	}
+
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Adds calendar months to a date, keeping to the last day of the month when
+ * it's shorter, e.g. a year after February 29 is February 28
+ */
+function addMonths(date: Date, months: number): Date
+{
+	const result = new Date(date);
+	result.setDate(1);
+	result.setMonth(result.getMonth() + months);
+	const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+	result.setDate(Math.min(date.getDate(), lastDay));
+	return result;
+}
+
+/**
+ * Checks how fresh a page is
+ * @param page - The page's content type and publish dates
+ * @param now - The time to compare with
+ */
+export function getPageFreshness(
+	page: Pick<WagtailPage, "contentType" | "firstPublishedAt" | "lastPublishedAt">,
+	now: Date = new Date()): PageFreshness
+{
+	const firstPublishedAt = parseDate(page.firstPublishedAt);
+	// the API may only send the first publish date, e.g. for pages published once
+	const lastPublishedAt = parseDate(page.lastPublishedAt) ?? firstPublishedAt;
+	const reviewIntervalMonths = getReviewIntervalMonths(page.contentType);
+
+	if (!lastPublishedAt) {
+		return {
+			firstPublishedAt,
+			lastPublishedAt,
+			reviewIntervalMonths,
+			reviewDueAt: null,
+			daysUntilDue: null,
+			status: "unknown",
+		};
+	}
+
+	const reviewDueAt = addMonths(lastPublishedAt, reviewIntervalMonths);
+	const daysUntilDue = Math.floor((reviewDueAt.getTime() - now.getTime()) / DAY);
+	const status: FreshnessStatus = daysUntilDue < 0
+		? "overdue"
+		: daysUntilDue <= DUE_SOON_DAYS ? "due_soon" : "current";
+
+	return {
+		firstPublishedAt,
+		lastPublishedAt,
+		reviewIntervalMonths,
+		reviewDueAt,
+		daysUntilDue,
+		status,
+	};
+}
@@ -0,0 +1,32 @@
+/**
+ * Highlighting elements on the page, through the element-highlighter content
+ * script
+ */
+
+import { sendToTab } from "@/lib/messages.ts";
+
+export type HighlightStatus = "found" | "not_found" | "unavailable";
+
+/**
+ * Scrolls to an element in the active tab and outlines it
+ * @param selector - The CSS selector captured when the page was checked
+ * @returns "found" if the element was highlighted, "not_found" if it's no
+ * longer on the page, or "unavailable" if the content script isn't running,
+ * e.g. in a tab that was open before the extension was installed
+ */
+export async function highlightElement(selector: string): Promise<HighlightStatus>
+{
+	try {
+		const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+		if (!tab?.id) {
+			return "unavailable";
+		}
+
+		const reply = await sendToTab(tab.id, { type: "HIGHLIGHT_ELEMENT", selector });
+
+		return reply?.type === "HIGHLIGHT_RESULT" && reply.found ? "found" : "not_found";
+	} catch (error) {
+		console.warn("Failed to highlight element:", error);
+		return "unavailable";
+	}
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import type { MediaAsset } from "@sf-gov/shared";
+import { auditImage, type ImageMeasurement } from "./image-audit";
+
+const asset: MediaAsset = {
+	id: 1,
+	title: "Map",
+	url: "https://www.sf.gov/media/map.webp",
+	type: "image",
+	filename: "map.webp",
+};
+
+const measurement: ImageMeasurement = {
+	src: "https://www.sf.gov/media/map.webp",
+	filename: "map",
+	alt: "Map of the Mission District",
+	naturalWidth: 800,
+	naturalHeight: 600,
+	renderedWidth: 400,
+	renderedHeight: 300,
+	fileSize: 100 * 1024,
+	selector: "img",
+};
+
+describe("auditImage", () => {
+	it("passes a modern image with good alt text shown at up to twice its size", () => {
+		expect(auditImage(asset, measurement).issues).toEqual([]);
+	});
+
+	it("flags images more than twice as wide as displayed", () => {
+		expect(auditImage(asset, { ...measurement, naturalWidth: 801 }).issues).toEqual(["oversized"]);
+	});
+
+	it("doesn't flag the size of images that aren't displayed", () => {
+		expect(auditImage(asset, { ...measurement, naturalWidth: 4000, renderedWidth: 0 }).issues).toEqual([]);
+	});
+
+	it("flags files over 200 KB", () => {
+		expect(auditImage(asset, { ...measurement, fileSize: 200 * 1024 }).issues).toEqual([]);
+		expect(auditImage(asset, { ...measurement, fileSize: 200 * 1024 + 1 }).issues).toEqual(["heavy"]);
+	});
+
+	it.each(["image", "IMG", "Photo", "placeholder", "logo", "123", "map-final.jpg", " picture "])("flags placeholder alt text: %j", (alt) => {
+		expect(auditImage(asset, { ...measurement, alt }).issues).toEqual(["placeholder-alt"]);
+	});
+
+	it.each(["Photo of City Hall", "Logo of the Mayor's Office", "2024 budget chart"])("accepts descriptive alt text: %j", (alt) => {
+		expect(auditImage(asset, { ...measurement, alt }).issues).toEqual([]);
+	});
+
+	it("treats empty alt text as decorative, and no alt attribute as missing", () => {
+		expect(auditImage(asset, { ...measurement, alt: "" }).issues).toEqual([]);
+		expect(auditImage(asset, { ...measurement, alt: null }).issues).toEqual(["missing-alt"]);
+	});
+
+	it("only checks alt text when the page or the API provides it", () => {
+		expect(auditImage(asset, null).issues).toEqual([]);
+		expect(auditImage({ ...asset, alt: "image" }, null).issues).toEqual(["placeholder-alt"]);
+	});
+});
@@ -0,0 +1,193 @@
+import type { MediaAsset } from "@sf-gov/shared";
+
+export type ImageIssue = "oversized" | "heavy" | "legacy-format" | "missing-alt" | "placeholder-alt";
+
+export interface ImageMeasurement {
+	src: string;
+	filename: string;
+	alt: string | null;
+	naturalWidth: number;
+	naturalHeight: number;
+	renderedWidth: number;
+	renderedHeight: number;
+	// bytes transferred, or null when the browser doesn't expose it for the image
+	fileSize: number | null;
+	// CSS selector for highlighting the image on the page
+	selector: string;
+}
+
+export interface ImageAudit {
+	measurement: ImageMeasurement | null;
+	width: number | null;
+	height: number | null;
+	fileSize: number | null;
+	format: string;
+	alt: string | null;
+	issues: ImageIssue[];
+}
+
+export const IMAGE_ISSUE_LABELS: Record<ImageIssue, string> = {
+	"oversized": "Larger than displayed",
+	"heavy": "Large file",
+	"legacy-format": "Not WebP",
+	"missing-alt": "No alt text",
+	"placeholder-alt": "Placeholder alt text",
+};
+
+// images more than this many times wider than displayed are flagged, which
+// leaves room for high density screens
+const OVERSIZED_RATIO = 2;
+
+// files over this many bytes are flagged, since they're slow on mobile data
+const HEAVY_FILE_SIZE = 200 * 1024;
+
+const MODERN_FORMATS = ["webp", "avif", "svg"];
+
+const PLACEHOLDER_ALT_PATTERN = /^(?:image|img|photo|picture|graphic|placeholder|untitled|alt|logo|banner|\d+)$/i;
+const FILENAME_ALT_PATTERN = /^[\w\s-]+\.(?:jpe?g|png|gif|svg|webp|avif)$/i;
+
+/**
+ * Measures every image in the main content of the current page.
+ * NOTE: This function must be self-contained since it's injected via chrome.scripting.executeScript
+ */
+export function measurePageImages(): ImageMeasurement[]
+{
+	const root = document.querySelector("main") || document.body;
+
+	// builds a CSS selector that finds the element again when it's highlighted
+	const getSelector = (element: Element): string => {
+		const parts: string[] = [];
+		let current: Element | null = element;
+
+		while (current && current !== document.body) {
+			if (current.id) {
+				parts.unshift(`#${CSS.escape(current.id)}`);
+				return parts.join(" > ");
+			}
+
+			const tagName: string = current.tagName;
+			const siblings: Element[] = current.parentElement
+				? Array.from(current.parentElement.children).filter((child) => child.tagName === tagName)
+				: [current];
+			parts.unshift(`${tagName.toLowerCase()}:nth-of-type(${siblings.indexOf(current) + 1})`);
+			current = current.parentElement;
+		}
+
+		return ["body", ...parts].join(" > ");
+	};
+
+	return Array.from(root.querySelectorAll("img")).map((img) => {
+		const src = img.currentSrc || img.src;
+		const rect = img.getBoundingClientRect();
+		const timing = performance.getEntriesByName(src)[0] as PerformanceResourceTiming | undefined;
+		// cross-origin images report 0 unless the server allows timing
+		const fileSize = timing?.encodedBodySize || timing?.transferSize || null;
+
+		return {
+			src,
+			filename: decodeURIComponent(src.split("?")[0].split("/").pop() || ""),
+			alt: img.getAttribute("alt"),
+			naturalWidth: img.naturalWidth,
+			naturalHeight: img.naturalHeight,
+			renderedWidth: Math.round(rect.width),
+			renderedHeight: Math.round(rect.height),
+			fileSize,
+			selector: getSelector(img),
+		};
+	});
+}
+
+/**
+ * Looks up the size of an image from the server, for images whose size the
+ * page couldn't report
+ * @returns The size in bytes, or null if the server doesn't say
+ */
+export async function fetchImageSize(url: string): Promise<number | null>
+{
+	try {
+		const response = await fetch(url, { method: "HEAD" });
+		const length = parseInt(response.headers.get("content-length") || "", 10);
+		return response.ok && length > 0 ? length : null;
+	} catch (error) {
+		console.warn("Failed to fetch image size:", url, error);
+		return null;
+	}
+}
+
+/**
+ * Returns the lowercase file extension of a URL or filename, e.g. "jpg"
+ */
+function getFormat(url: string): string
+{
+	const extension = url.split("?")[0].split(".").pop()?.toLowerCase() || "";
+	return extension === "jpeg" ? "jpg" : extension;
+}
+
+/**
+ * Finds the image on the page for a Wagtail image.  Wagtail serves
+ * renditions like "photo.2e16d0ba.fill-800x600.jpg" for an original named
+ * "photo.jpg", so images are matched on the filename without its extension.
+ */
+export function findMeasurement(asset: MediaAsset, measurements: ImageMeasurement[]): ImageMeasurement | null
+{
+	const names = [asset.filename, asset.url.split("?")[0].split("/").pop()]
+		.filter((name): name is string => !!name)
+		.map((name) => decodeURIComponent(name).replace(/\.[^.]+$/, ""));
+
+	return measurements.find((measurement) =>
+		names.some((name) => measurement.filename === name || measurement.filename.startsWith(`${name}.`))
+	) || null;
+}
+
+/**
+ * Combines what the page and the Wagtail API know about an image and flags
+ * anything that makes the page heavier or less accessible than it needs to be
+ */
+export function auditImage(asset: MediaAsset, measurement: ImageMeasurement | null): ImageAudit
+{
+	const width = measurement?.naturalWidth || asset.width || null;
+	const height = measurement?.naturalHeight || asset.height || null;
+	// the rendition on the page is what users download, not the original
+	const fileSize = measurement ? measurement.fileSize : asset.fileSize ?? null;
+	const format = getFormat(measurement?.src || asset.filename || asset.url);
+	const alt = measurement ? measurement.alt : asset.alt ?? null;
+	const issues: ImageIssue[] = [];
+
+	if (measurement && measurement.renderedWidth > 0 && width && width > measurement.renderedWidth * OVERSIZED_RATIO) {
+		issues.push("oversized");
+	}
+
+	if (fileSize && fileSize > HEAVY_FILE_SIZE) {
+		issues.push("heavy");
+	}
+
+	if (format && !MODERN_FORMATS.includes(format)) {
+		issues.push("legacy-format");
+	}
+
+	// alt text is only known for images on the page or returned by the API
+	if (measurement || asset.alt !== undefined) {
+		const trimmedAlt = alt?.trim() || "";
+		if (alt === null) {
+			issues.push("missing-alt");
+		} else if (trimmedAlt && (PLACEHOLDER_ALT_PATTERN.test(trimmedAlt) || FILENAME_ALT_PATTERN.test(trimmedAlt))) {
+			issues.push("placeholder-alt");
+		}
+	}
+
+	return { measurement, width, height, fileSize, format, alt, issues };
+}
+
+/**
+ * Formats a file size for display, e.g. "320 KB"
+ */
+export function formatFileSize(bytes: number): string
+{
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	if (bytes < 1024 * 1024) {
+		return `${Math.round(bytes / 1024)} KB`;
+	}
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { LinkStatus } from "@sf-gov/shared";
+import { formatElapsed, getLinkCheckHistory, recordLinkCheck } from "./link-check-history";
+import type { LinkCheckResult } from "./link-checker-cache";
+
+const DAY = 24 * 60 * 60 * 1000;
+const PAGE_URL = "https://www.sf.gov/permits";
+
+let items: Map<string, unknown>;
+
+function result(url: string, status: LinkStatus): LinkCheckResult
+{
+	return { url, status, text: url };
+}
+
+describe("link check history", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2024-03-01T12:00:00Z"));
+
+		items = new Map();
+		vi.stubGlobal("chrome", {
+			storage: {
+				local: {
+					get: async (key: string | null) => key === null
+						? Object.fromEntries(items)
+						: items.has(key) ? { [key]: items.get(key) } : {},
+					set: async (values: Record<string, unknown>) => {
+						Object.entries(values).forEach(([key, value]) => items.set(key, value));
+					},
+					remove: async (keys: string | string[]) => {
+						[keys].flat().forEach((key) => items.delete(key));
+					},
+				},
+			},
+		});
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.useRealTimers();
+	});
+
+	describe("recordLinkCheck", () => {
+		it("reports nothing as newly broken on a page's first check", async () => {
+			const comparison = await recordLinkCheck(PAGE_URL, [result("/a", "broken"), result("/b", "ok")]);
+
+			expect(comparison).toEqual({
+				previousCheckedAt: null,
+				newlyBroken: [],
+				fixed: [],
+				brokenSince: { "/a": Date.now() },
+			});
+			await expect(getLinkCheckHistory(PAGE_URL)).resolves.toMatchObject({ checkedAt: Date.now() });
+		});
+
+		it("reports links that broke and were fixed since the previous check", async () => {
+			const firstCheck = Date.now();
+			await recordLinkCheck(PAGE_URL, [result("/a", "broken"), result("/b", "ok"), result("/c", "timeout")]);
+			vi.advanceTimersByTime(DAY);
+
+			const comparison = await recordLinkCheck(PAGE_URL, [result("/a", "ok"), result("/b", "error")]);
+
+			expect(comparison.previousCheckedAt).toBe(firstCheck);
+			expect(comparison.newlyBroken.map((link) => link.url)).toEqual(["/b"]);
+			// /c was removed from the page, which also counts as fixed
+			expect(comparison.fixed.map((link) => link.url)).toEqual(["/a", "/c"]);
+		});
+
+		it("carries over when a link first broke while it stays broken", async () => {
+			const firstCheck = Date.now();
+			await recordLinkCheck(PAGE_URL, [result("/a", "broken")]);
+			vi.advanceTimersByTime(DAY);
+			await recordLinkCheck(PAGE_URL, [result("/a", "broken"), result("/b", "broken")]);
+
+			await expect(getLinkCheckHistory(PAGE_URL)).resolves.toMatchObject({
+				brokenSince: { "/a": firstCheck, "/b": firstCheck + DAY },
+			});
+		});
+
+		it("forgets when a link broke once it's fixed", async () => {
+			await recordLinkCheck(PAGE_URL, [result("/a", "broken")]);
+			vi.advanceTimersByTime(DAY);
+			await recordLinkCheck(PAGE_URL, [result("/a", "ok")]);
+			vi.advanceTimersByTime(DAY);
+			await recordLinkCheck(PAGE_URL, [result("/a", "broken")]);
+
+			await expect(getLinkCheckHistory(PAGE_URL)).resolves.toMatchObject({ brokenSince: { "/a": Date.now() } });
+		});
+	});
+
+	describe("pruning", () => {
+		it("keeps the 200 most recently checked pages", async () => {
+			for (let index = 0; index < 201; index++) {
+				await recordLinkCheck(`${PAGE_URL}/${index}`, []);
+				vi.advanceTimersByTime(1000);
+			}
+
+			expect(items.size).toBe(200);
+			await expect(getLinkCheckHistory(`${PAGE_URL}/0`)).resolves.toBeNull();
+			await expect(getLinkCheckHistory(`${PAGE_URL}/1`)).resolves.not.toBeNull();
+		});
+
+		it("removes checks older than 90 days", async () => {
+			await recordLinkCheck(`${PAGE_URL}/old`, []);
+			vi.advanceTimersByTime(90 * DAY);
+			await recordLinkCheck(`${PAGE_URL}/recent`, []);
+
+			await expect(getLinkCheckHistory(`${PAGE_URL}/old`)).resolves.not.toBeNull();
+
+			vi.advanceTimersByTime(1);
+			await recordLinkCheck(PAGE_URL, []);
+
+			await expect(getLinkCheckHistory(`${PAGE_URL}/old`)).resolves.toBeNull();
+			await expect(getLinkCheckHistory(`${PAGE_URL}/recent`)).resolves.not.toBeNull();
+		});
+
+		it("leaves other stored data alone", async () => {
+			items.set("settings", { theme: "dark" });
+
+			await recordLinkCheck(PAGE_URL, []);
+			vi.advanceTimersByTime(91 * DAY);
+			await recordLinkCheck(`${PAGE_URL}/recent`, []);
+
+			expect(items.get("settings")).toEqual({ theme: "dark" });
+		});
+	});
+
+	describe("formatElapsed", () => {
+		it.each([
+			[30 * 1000, "less than a minute"],
+			[60 * 1000, "1 minute"],
+			[59 * 60 * 1000, "59 minutes"],
+			[60 * 60 * 1000, "1 hour"],
+			[23 * 60 * 60 * 1000, "23 hours"],
+			[DAY, "1 day"],
+			[45 * DAY, "45 days"],
+		])("formats %i ms ago as %j", (elapsed, expected) => {
+			expect(formatElapsed(Date.now() - elapsed)).toBe(expected);
+		});
+	});
+});
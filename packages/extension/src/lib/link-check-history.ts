@@ -0,0 +1,175 @@
+import type { LinkCheckResult } from "./link-checker-cache";
+
+/**
+ * Link check results for a page, persisted in chrome.storage.local so they
+ * survive the side panel being closed
+ */
+export interface LinkCheckHistoryEntry {
+	pageUrl: string;
+	checkedAt: number;
+	results: LinkCheckResult[];
+	// when each currently broken link was first seen broken
+	brokenSince: Record<string, number>;
+}
+
+/**
+ * Differences between the latest link check and the one before it
+ */
+export interface LinkCheckComparison {
+	previousCheckedAt: number | null;
+	newlyBroken: LinkCheckResult[];
+	fixed: LinkCheckResult[];
+	brokenSince: Record<string, number>;
+}
+
+const STORAGE_KEY_PREFIX = "linkCheckHistory:";
+
+const getStorageKey = (pageUrl: string) => `${STORAGE_KEY_PREFIX}${pageUrl}`;
+
+/**
+ * Most pages whose last link check is kept, and how long it's kept for
+ */
+const MAX_HISTORY_ENTRIES = 200;
+const MAX_HISTORY_AGE = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * Returns true if a result counts as a broken link
+ */
+export function isBrokenResult(result: LinkCheckResult): boolean
+{
+	return result.status === "broken" || result.status === "timeout" || result.status === "error";
+}
+
+/**
+ * Loads the most recent stored link check for a page
+ * @param pageUrl - The page URL the links were checked on
+ * @returns The stored entry, or null if the page has never been checked
+ */
+export async function getLinkCheckHistory(pageUrl: string): Promise<LinkCheckHistoryEntry | null>
+{
+	try {
+		const key = getStorageKey(pageUrl);
+		const stored = await chrome.storage.local.get(key);
+		return (stored[key] as LinkCheckHistoryEntry | undefined) ?? null;
+	} catch (error) {
+		console.error("Failed to load link check history:", error);
+		return null;
+	}
+}
+
+/**
+ * Removes link checks older than MAX_HISTORY_AGE, then the oldest checks
+ * beyond MAX_HISTORY_ENTRIES, so the history doesn't grow with every page
+ * ever checked
+ */
+async function pruneLinkCheckHistory(): Promise<void>
+{
+	const stored = await chrome.storage.local.get(null);
+	const oldestAllowed = Date.now() - MAX_HISTORY_AGE;
+	const entries = Object.entries(stored)
+		.filter(([key]) => key.startsWith(STORAGE_KEY_PREFIX))
+		.map(([key, value]) => ({ key, checkedAt: (value as LinkCheckHistoryEntry).checkedAt ?? 0 }))
+		.sort((a, b) => b.checkedAt - a.checkedAt);
+	const removed = entries
+		.filter((entry, index) => index >= MAX_HISTORY_ENTRIES || entry.checkedAt < oldestAllowed)
+		.map((entry) => entry.key);
+
+	if (removed.length > 0) {
+		await chrome.storage.local.remove(removed);
+	}
+}
+
+/**
+ * Stores the results of a link check and compares them with the previous run
+ * @param pageUrl - The page URL the links were checked on
+ * @param results - The results of the check that just finished
+ * @returns Links that broke or were fixed since the previous check
+ */
+export async function recordLinkCheck(
+	pageUrl: string,
+	results: LinkCheckResult[]): Promise<LinkCheckComparison>
+{
+	const previous = await getLinkCheckHistory(pageUrl);
+	const now = Date.now();
+	const previouslyBroken = new Map(
+		(previous?.results ?? [])
+			.filter(isBrokenResult)
+			.map((result) => [result.url, result])
+	);
+	const currentlyBroken = new Set(results.filter(isBrokenResult).map((result) => result.url));
+	const brokenSince: Record<string, number> = {};
+
+	results.filter(isBrokenResult).forEach((result) => {
+		brokenSince[result.url] = previous?.brokenSince[result.url] ?? now;
+	});
+
+	const entry: LinkCheckHistoryEntry = {
+		pageUrl,
+		checkedAt: now,
+		results,
+		brokenSince,
+	};
+
+	try {
+		await chrome.storage.local.set({ [getStorageKey(pageUrl)]: entry });
+		await pruneLinkCheckHistory();
+	} catch (error) {
+		console.error("Failed to save link check history:", error);
+	}
+
+	return {
+		previousCheckedAt: previous?.checkedAt ?? null,
+		// nothing is "newly" broken on the first check of a page
+		newlyBroken: previous
+			? results.filter((result) => isBrokenResult(result) && !previouslyBroken.has(result.url))
+			: [],
+		// links that were removed from the page also count as fixed
+		fixed: Array.from(previouslyBroken.values())
+			.filter((result) => !currentlyBroken.has(result.url)),
+		brokenSince,
+	};
+}
+
+/**
+ * Calls the listener whenever a link check is stored, from any extension page
+ * @returns A function that stops listening
+ */
+export function subscribeToLinkCheckHistory(listener: (entry: LinkCheckHistoryEntry) => void): () => void
+{
+	const onChanged = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+		if (areaName !== "local") {
+			return;
+		}
+
+		Object.entries(changes)
+			.filter(([key, change]) => key.startsWith(STORAGE_KEY_PREFIX) && change.newValue)
+			.forEach(([, change]) => listener(change.newValue as LinkCheckHistoryEntry));
+	};
+
+	chrome.storage.onChanged.addListener(onChanged);
+	return () => {
+		chrome.storage.onChanged.removeListener(onChanged);
+	};
+}
+
+/**
+ * Formats how long ago a timestamp was, e.g. "3 days"
+ * @param timestamp - The earlier time in milliseconds
+ * @returns A short human-readable duration
+ */
+export function formatElapsed(timestamp: number): string
+{
+	const minutes = Math.floor((Date.now() - timestamp) / 60000);
+	const hours = Math.floor(minutes / 60);
+	const days = Math.floor(hours / 24);
+
+	if (days > 0) {
+		return `${days} day${days === 1 ? "" : "s"}`;
+	}
+
+	if (hours > 0) {
+		return `${hours} hour${hours === 1 ? "" : "s"}`;
+	}
+
+	return minutes > 0 ? `${minutes} minute${minutes === 1 ? "" : "s"}` : "less than a minute";
+}
@@ -0,0 +1,64 @@
+/**
+ * Link checks requested from the context menu.  The service worker opens the
+ * side panel and stores the request in chrome.storage.session, where the link
+ * checker picks it up once the panel has loaded the page.
+ */
+
+interface LinkCheckRequest {
+	pageUrl: string;
+	requestedAt: number;
+}
+
+const STORAGE_KEY = "linkCheckRequest";
+
+// requests older than this are ignored, e.g. when the panel failed to open
+const REQUEST_TTL = 30 * 1000;
+
+/**
+ * Asks the side panel to run a link check on a page
+ */
+export async function requestLinkCheck(pageUrl: string): Promise<void>
+{
+	const request: LinkCheckRequest = { pageUrl, requestedAt: Date.now() };
+	await chrome.storage.session.set({ [STORAGE_KEY]: request });
+}
+
+/**
+ * Removes a pending request for the page, if there is one
+ * @returns true if a link check was requested for the page
+ */
+export async function takeLinkCheckRequest(pageUrl: string): Promise<boolean>
+{
+	try {
+		const stored = await chrome.storage.session.get(STORAGE_KEY);
+		const request = stored[STORAGE_KEY] as LinkCheckRequest | undefined;
+
+		if (!request || request.pageUrl !== pageUrl || Date.now() - request.requestedAt > REQUEST_TTL) {
+			return false;
+		}
+
+		await chrome.storage.session.remove(STORAGE_KEY);
+		return true;
+	} catch (error) {
+		console.error("Failed to read link check request:", error);
+		return false;
+	}
+}
+
+/**
+ * Calls the listener whenever a link check is requested while the panel is open
+ * @returns A function that stops listening
+ */
+export function subscribeToLinkCheckRequests(listener: () => void): () => void
+{
+	const onChanged = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+		if (areaName === "session" && changes[STORAGE_KEY]?.newValue) {
+			listener();
+		}
+	};
+
+	chrome.storage.onChanged.addListener(onChanged);
+	return () => {
+		chrome.storage.onChanged.removeListener(onChanged);
+	};
+}
@@ -1,6 +1,8 @@
 export interface LinkInfo {
 	url: string;
 	text: string;
+	// CSS selector for highlighting the link on the page
+	selector?: string;
 }
 
 export interface LinkCheckResult {
@@ -140,6 +142,28 @@ export async function checkLinkInPage(url: string): Promise<{ status: "ok" | "br
  */
 export function extractContentLinks(): LinkInfo[]
 {
+	// builds a CSS selector that finds the element again when it's highlighted
+	const getSelector = (element: Element): string => {
+		const parts: string[] = [];
+		let current: Element | null = element;
+
+		while (current && current !== document.body) {
+			if (current.id) {
+				parts.unshift(`#${CSS.escape(current.id)}`);
+				return parts.join(" > ");
+			}
+
+			const tagName: string = current.tagName;
+			const siblings: Element[] = current.parentElement
+				? Array.from(current.parentElement.children).filter((child) => child.tagName === tagName)
+				: [current];
+			parts.unshift(`${tagName.toLowerCase()}:nth-of-type(${siblings.indexOf(current) + 1})`);
+			current = current.parentElement;
+		}
+
+		return ["body", ...parts].join(" > ");
+	};
+
 	const main = document.querySelector("main");
 	if (!main) {
 		return [];
@@ -172,6 +196,7 @@ export function extractContentLinks(): LinkInfo[]
 		results.push({
 			url: href,
 			text: anchor.textContent?.trim() || "",
+			selector: getSelector(anchor),
 		});
 	});
 
@@ -0,0 +1,24 @@
+import type { LinkCheckResultEvent } from "@sf-gov/shared";
+import { CACHE_POLICIES, deleteCached, invalidateCached, peekCached, setCached } from "@/lib/request-cache.ts";
+
+/**
+ * Extended result type that includes link text and where the link is on the page
+ */
+export interface LinkCheckResult extends LinkCheckResultEvent {
+	text: string;
+	selector?: string;
+}
+
+const getCacheKey = (pageUrl: string) => `link-check:${pageUrl}`;
+
+export function getCachedResults(pageUrl: string): Promise<LinkCheckResult[] | null> {
+	return peekCached<LinkCheckResult[]>(getCacheKey(pageUrl));
+}
+
+export function setCachedResults(pageUrl: string, results: LinkCheckResult[]): Promise<void> {
+	return setCached(getCacheKey(pageUrl), results, CACHE_POLICIES.linkCheck);
+}
+
+export function clearLinkCheckerCache(pageUrl?: string): Promise<void> {
+	return pageUrl ? deleteCached(getCacheKey(pageUrl)) : invalidateCached("link-check:");
+}
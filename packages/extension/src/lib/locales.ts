@@ -0,0 +1,19 @@
+/**
+ * Locales that SF.gov publishes pages in, English first
+ */
+export const SUPPORTED_LOCALES = [
+	{ code: "en", name: "English" },
+	{ code: "es", name: "Español" },
+	{ code: "zh", name: "中文" },
+	{ code: "fil", name: "Filipino" },
+	{ code: "vi", name: "Tiếng Việt" },
+	{ code: "ru", name: "Русский" },
+] as const;
+
+/**
+ * Returns the display name for a locale code, e.g. "Español" for "es"
+ */
+export function getLocaleName(code: string): string
+{
+	return SUPPORTED_LOCALES.find((locale) => locale.code === code)?.name || code.toUpperCase();
+}
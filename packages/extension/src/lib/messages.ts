@@ -0,0 +1,185 @@
+/**
+ * Chrome transport for the extension messages defined in @sf-gov/shared.
+ * Content scripts and the service worker exchange one-off messages, which
+ * are validated when they arrive and answered with the request's id.  The
+ * side panel keeps a port open to the service worker, which sends each panel
+ * only the updates for the tab it's showing.
+ */
+
+import {
+	createMessage,
+	parseMessage,
+	type ExtensionMessage,
+	type MessageOfType,
+	type MessagePayload,
+	type MessageType,
+} from "@sf-gov/shared";
+
+/**
+ * Name of the port the side panel opens to the service worker
+ */
+export const PANEL_PORT_NAME = "sidepanel";
+
+/**
+ * How long a request over the port waits for its reply, in ms
+ */
+const REQUEST_TIMEOUT = 30000;
+
+export type Reply = (payload: MessagePayload) => void;
+
+/**
+ * Handles a one-off message
+ * @returns true if reply will be called after the handler returns
+ */
+export type MessageHandler = (
+	message: ExtensionMessage,
+	sender: chrome.runtime.MessageSender,
+	reply: Reply
+) => boolean | void;
+
+/**
+ * Returns a response if it's a valid reply to the message with the id
+ */
+function readReply(response: unknown, id: string): ExtensionMessage | null
+{
+	const reply = parseMessage(response);
+	return reply?.replyTo === id ? reply : null;
+}
+
+/**
+ * Listens for one-off messages from other parts of the extension.  Invalid
+ * messages are logged and dropped.
+ * @returns A function that stops listening
+ */
+export function listenForMessages(handler: MessageHandler): () => void
+{
+	const listener = (
+		value: unknown,
+		sender: chrome.runtime.MessageSender,
+		sendResponse: (response?: unknown) => void
+	) => {
+		const message = parseMessage(value);
+		if (!message) {
+			console.warn("Ignoring invalid message:", value);
+			return false;
+		}
+
+		const reply: Reply = (payload) => sendResponse(createMessage(payload, message.id));
+		return handler(message, sender, reply) === true;
+	};
+
+	chrome.runtime.onMessage.addListener(listener);
+	return () => chrome.runtime.onMessage.removeListener(listener);
+}
+
+/**
+ * Sends a message to the content scripts in a tab
+ * @returns The reply, or null if the content script didn't answer
+ */
+export async function sendToTab(tabId: number, payload: MessagePayload): Promise<ExtensionMessage | null>
+{
+	const message = createMessage(payload);
+	return readReply(await chrome.tabs.sendMessage(tabId, message), message.id);
+}
+
+/**
+ * Sends a message from a content script to the service worker
+ * @returns The reply, or null if the service worker didn't answer
+ */
+export async function sendToWorker(payload: MessagePayload): Promise<ExtensionMessage | null>
+{
+	const message = createMessage(payload);
+	return readReply(await chrome.runtime.sendMessage(message), message.id);
+}
+
+/**
+ * The side panel's end of its port to the service worker
+ */
+export interface WorkerConnection {
+	// sends a message and waits for the reply of the given type, rejecting if
+	// none arrives within REQUEST_TIMEOUT
+	request<T extends MessageType>(payload: MessagePayload, replyType: T): Promise<MessageOfType<T>>;
+	send(payload: MessagePayload): void;
+	disconnect(): void;
+}
+
+interface PendingRequest {
+	replyType: MessageType;
+	resolve: (message: ExtensionMessage) => void;
+	reject: (error: Error) => void;
+	timeoutId: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Opens a port from the side panel to the service worker
+ * @param onMessage - Called with messages that aren't replies to a request
+ * @param onDisconnect - Called if the service worker closes the port, e.g.
+ * when it's stopped for being idle
+ */
+export function connectToWorker(
+	onMessage: (message: ExtensionMessage) => void,
+	onDisconnect: () => void
+): WorkerConnection
+{
+	const port = chrome.runtime.connect({ name: PANEL_PORT_NAME });
+	const pending = new Map<string, PendingRequest>();
+
+	const rejectPending = (reason: string) => {
+		pending.forEach(({ reject, timeoutId }) => {
+			clearTimeout(timeoutId);
+			reject(new Error(reason));
+		});
+		pending.clear();
+	};
+
+	port.onMessage.addListener((value: unknown) => {
+		const message = parseMessage(value);
+		if (!message) {
+			console.warn("Ignoring invalid message from service worker:", value);
+			return;
+		}
+
+		const request = message.replyTo ? pending.get(message.replyTo) : undefined;
+		if (!message.replyTo || !request) {
+			onMessage(message);
+			return;
+		}
+
+		pending.delete(message.replyTo);
+		clearTimeout(request.timeoutId);
+		if (message.type === request.replyType) {
+			request.resolve(message);
+		} else {
+			request.reject(new Error(`Expected ${request.replyType} reply, got ${message.type}`));
+		}
+	});
+
+	port.onDisconnect.addListener(() => {
+		rejectPending("Disconnected from service worker");
+		onDisconnect();
+	});
+
+	return {
+		request: <T extends MessageType>(payload: MessagePayload, replyType: T) => {
+			const message = createMessage(payload);
+			return new Promise<MessageOfType<T>>((resolve, reject) => {
+				const timeoutId = setTimeout(() => {
+					pending.delete(message.id);
+					reject(new Error(`No ${replyType} reply within ${REQUEST_TIMEOUT / 1000}s`));
+				}, REQUEST_TIMEOUT);
+				pending.set(message.id, {
+					replyType,
+					resolve: (reply) => resolve(reply as MessageOfType<T>),
+					reject,
+					timeoutId,
+				});
+				port.postMessage(message);
+			});
+		},
+		send: (payload) => port.postMessage(createMessage(payload)),
+		disconnect: () => {
+			rejectPending("Disconnected");
+			port.disconnect();
+		},
+	};
+}
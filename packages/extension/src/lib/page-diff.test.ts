@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import type { Translation, WagtailPage } from "@sf-gov/shared";
+import { countChanges, diffPages } from "./page-diff";
+
+function makePage(textBlocks: string[], overrides: Partial<WagtailPage> = {}): WagtailPage
+{
+	return {
+		id: 1,
+		slug: "apply-permit",
+		title: "Apply for a permit",
+		translations: [],
+		images: [],
+		files: [],
+		links: [],
+		textBlocks,
+		...overrides,
+	} as WagtailPage;
+}
+
+function translation(languageCode: string, pageId: number, slug = "apply-permit"): Translation
+{
+	return {
+		language: languageCode,
+		languageCode,
+		pageId,
+		slug,
+		editUrl: `/admin/pages/${pageId}/edit/`,
+		translateUrl: `/admin/localize/submit/page/${pageId}/`,
+		syncUrl: null,
+		title: "Apply for a permit",
+		lastPublishedAt: null,
+	};
+}
+
+function diffText(before: string[], after: string[])
+{
+	return diffPages(makePage(before), makePage(after)).textBlocks;
+}
+
+describe("diffPages", () => {
+	it("finds no changes between identical pages", () => {
+		const diff = diffPages(makePage(["a", "b"]), makePage(["a", "b"]));
+
+		expect(countChanges(diff)).toBe(0);
+	});
+
+	it("reports blocks added and removed around unchanged ones", () => {
+		expect(diffText(["a", "b", "c"], ["a", "c", "d"])).toEqual([
+			{ kind: "removed", before: "b" },
+			{ kind: "added", after: "d" },
+		]);
+	});
+
+	it("pairs a removal with the addition at the same spot as a changed block", () => {
+		expect(diffText(["a", "b", "c"], ["a", "B", "c"])).toEqual([
+			{ kind: "changed", before: "b", after: "B" },
+		]);
+	});
+
+	it("pairs removals and additions in order, reporting the rest as added", () => {
+		expect(diffText(["a", "b", "c", "z"], ["a", "B", "C", "D", "z"])).toEqual([
+			{ kind: "changed", before: "b", after: "B" },
+			{ kind: "changed", before: "c", after: "C" },
+			{ kind: "added", after: "D" },
+		]);
+	});
+
+	it("keeps the longest run of unchanged blocks when blocks move", () => {
+		expect(diffText(["a", "b", "c", "d"], ["b", "c", "d", "a"])).toEqual([
+			{ kind: "removed", before: "a" },
+			{ kind: "added", after: "a" },
+		]);
+	});
+
+	it("handles pages with no text blocks on one side", () => {
+		expect(diffText([], ["a"])).toEqual([{ kind: "added", after: "a" }]);
+		expect(diffText(["a"], [])).toEqual([{ kind: "removed", before: "a" }]);
+	});
+
+	it("compares images by ID and links by URL", () => {
+		const image = { id: 1, title: "Map", url: "/map.jpg", type: "image" as const };
+		const diff = diffPages(
+			makePage([], { images: [image], links: [{ url: "/a", text: "A" }] }),
+			makePage([], { images: [{ ...image, title: "New map" }], links: [{ url: "/b", text: "A" }] })
+		);
+
+		expect(diff.images).toEqual([{ kind: "changed", before: image, after: { ...image, title: "New map" } }]);
+		expect(diff.links.map((change) => change.kind)).toEqual(["removed", "added"]);
+		expect(countChanges(diff)).toBe(3);
+	});
+
+	it("reports translations added, removed and moved to another slug", () => {
+		const diff = diffPages(
+			makePage([], { translations: [translation("en", 1), translation("es", 2), translation("zh", 3)] }),
+			makePage([], { translations: [translation("en", 1), translation("es", 2, "solicitar-permiso"), translation("fil", 4)] })
+		);
+
+		expect(diff.translations.map((change) => [change.kind, (change.after ?? change.before)!.languageCode])).toEqual([
+			["changed", "es"],
+			["removed", "zh"],
+			["added", "fil"],
+		]);
+	});
+
+	it("takes the page's own slug from the draft rather than the live listing", () => {
+		const diff = diffPages(
+			makePage([], { translations: [translation("en", 1)] }),
+			makePage([], { slug: "get-permit", translations: [translation("en", 1)] })
+		);
+
+		expect(diff.translations).toEqual([{
+			kind: "changed",
+			before: translation("en", 1),
+			after: translation("en", 1, "get-permit"),
+		}]);
+	});
+});
@@ -0,0 +1,162 @@
+import type { MediaAsset, PageLink, Translation, WagtailPage } from "@sf-gov/shared";
+
+export type ChangeKind = "added" | "removed" | "changed";
+
+export interface Change<T> {
+	kind: ChangeKind;
+	before?: T;
+	after?: T;
+}
+
+export interface PageDiff {
+	title: Change<string> | null;
+	images: Change<MediaAsset>[];
+	files: Change<MediaAsset>[];
+	links: Change<PageLink>[];
+	textBlocks: Change<string>[];
+	translations: Change<Translation>[];
+}
+
+/**
+ * Compares two lists of items that share a stable key, reporting items that
+ * were added, removed, or whose contents changed.
+ */
+function diffByKey<T>(
+	before: T[],
+	after: T[],
+	getKey: (item: T) => string | number,
+	isEqual: (a: T, b: T) => boolean): Change<T>[]
+{
+	const beforeByKey = new Map(before.map((item) => [getKey(item), item]));
+	const afterByKey = new Map(after.map((item) => [getKey(item), item]));
+	const changes: Change<T>[] = [];
+
+	before.forEach((item) => {
+		const match = afterByKey.get(getKey(item));
+
+		if (!match) {
+			changes.push({ kind: "removed", before: item });
+		} else if (!isEqual(item, match)) {
+			changes.push({ kind: "changed", before: item, after: match });
+		}
+	});
+
+	after.forEach((item) => {
+		if (!beforeByKey.has(getKey(item))) {
+			changes.push({ kind: "added", after: item });
+		}
+	});
+
+	return changes;
+}
+
+/**
+ * Compares two ordered lists of text blocks using a longest common
+ * subsequence.  Removals that are followed by additions at the same spot are
+ * paired up and reported as changed blocks, which is how edited paragraphs
+ * show up.
+ */
+function diffTextBlocks(
+	before: string[],
+	after: string[]): Change<string>[]
+{
+	const rows = before.length;
+	const cols = after.length;
+	const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+
+	for (let i = rows - 1; i >= 0; i--) {
+		for (let j = cols - 1; j >= 0; j--) {
+			lcs[i][j] = before[i] === after[j]
+				? lcs[i + 1][j + 1] + 1
+				: Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+
+	const changes: Change<string>[] = [];
+	// removals in the current run that can still be paired with an addition
+	let unpaired: Change<string>[] = [];
+	let i = 0;
+	let j = 0;
+
+	while (i < rows || j < cols) {
+		if (i < rows && j < cols && before[i] === after[j]) {
+			unpaired = [];
+			i++;
+			j++;
+		} else if (i < rows && (j === cols || lcs[i + 1][j] >= lcs[i][j + 1])) {
+			const removal: Change<string> = { kind: "removed", before: before[i] };
+
+			changes.push(removal);
+			unpaired.push(removal);
+			i++;
+		} else {
+			const removal = unpaired.shift();
+
+			if (removal) {
+				removal.kind = "changed";
+				removal.after = after[j];
+			} else {
+				changes.push({ kind: "added", after: after[j] });
+			}
+			j++;
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * Lists a page's translations by locale.  The listing they come from only has
+ * live pages, so the page's own entry gets its slug from the page itself.
+ */
+function getTranslations(page: WagtailPage): Translation[]
+{
+	return page.translations.map((translation) =>
+		translation.pageId === page.id ? { ...translation, slug: page.slug } : translation
+	);
+}
+
+/**
+ * Compares the live version of a page with its draft.  Translations are
+ * compared by locale and slug only, since they're separate pages that the API
+ * only returns live.
+ * @param live - The published page data
+ * @param draft - The draft page data
+ * @returns The differences between the two versions
+ */
+export function diffPages(
+	live: WagtailPage,
+	draft: WagtailPage): PageDiff
+{
+	const isSameAsset = (a: MediaAsset, b: MediaAsset) =>
+		a.title === b.title && a.url === b.url && a.filename === b.filename;
+
+	return {
+		title: live.title === draft.title
+			? null
+			: { kind: "changed", before: live.title, after: draft.title },
+		images: diffByKey(live.images, draft.images, (image) => image.id, isSameAsset),
+		files: diffByKey(live.files, draft.files, (file) => file.id, isSameAsset),
+		links: diffByKey(live.links, draft.links, (link) => link.url, (a, b) => a.text === b.text),
+		textBlocks: diffTextBlocks(live.textBlocks, draft.textBlocks),
+		translations: diffByKey(
+			getTranslations(live),
+			getTranslations(draft),
+			(translation) => translation.languageCode,
+			(a, b) => a.slug === b.slug
+		),
+	};
+}
+
+/**
+ * Returns the total number of changes in a page diff
+ */
+export function countChanges(diff: PageDiff): number
+{
+	return (diff.title ? 1 : 0)
+		+ diff.images.length
+		+ diff.files.length
+		+ diff.links.length
+		+ diff.textBlocks.length
+		+ diff.translations.length;
+}
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cached, peekCached, setCached } from "./request-cache";
+
+// there's no chrome.storage in the tests, so entries are only kept in memory
+const policy = { ttl: 1000, staleTtl: 4000 };
+
+describe("cached", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("returns a fresh entry without fetching", async () => {
+		await setCached("fresh", "old", policy);
+		const fetcher = vi.fn(async () => "new");
+
+		vi.advanceTimersByTime(999);
+
+		await expect(cached("fresh", fetcher, policy)).resolves.toBe("old");
+		expect(fetcher).not.toHaveBeenCalled();
+	});
+
+	it("returns a stale entry and refreshes it in the background", async () => {
+		await setCached("stale", "old", policy);
+		const fetcher = vi.fn(async () => "new");
+		const onRevalidate = vi.fn();
+
+		vi.advanceTimersByTime(1000);
+
+		await expect(cached("stale", fetcher, { ...policy, onRevalidate })).resolves.toBe("old");
+		expect(fetcher).toHaveBeenCalledOnce();
+		await vi.waitFor(() => expect(onRevalidate).toHaveBeenCalledWith("new"));
+		await expect(cached("stale", fetcher, policy)).resolves.toBe("new");
+		expect(fetcher).toHaveBeenCalledOnce();
+	});
+
+	it("fetches again once an entry is past its stale time", async () => {
+		await setCached("expired", "old", policy);
+		const fetcher = vi.fn(async () => "new");
+
+		vi.advanceTimersByTime(5000);
+
+		await expect(peekCached("expired")).resolves.toBeNull();
+		await expect(cached("expired", fetcher, policy)).resolves.toBe("new");
+		expect(fetcher).toHaveBeenCalledOnce();
+	});
+
+	it("shares one fetch between concurrent callers", async () => {
+		const fetcher = vi.fn(async () => "new");
+
+		const values = await Promise.all([cached("shared", fetcher, policy), cached("shared", fetcher, policy)]);
+
+		expect(values).toEqual(["new", "new"]);
+		expect(fetcher).toHaveBeenCalledOnce();
+	});
+
+	it("doesn't cache errors", async () => {
+		const fetcher = vi.fn()
+			.mockRejectedValueOnce(new Error("Request failed"))
+			.mockResolvedValueOnce("new");
+
+		await expect(cached("error", fetcher, policy)).rejects.toThrow("Request failed");
+		await expect(cached("error", fetcher, policy)).resolves.toBe("new");
+	});
+
+	it("drops the oldest entries kept in memory when they're over the size cap", async () => {
+		const value = "x".repeat(1.5 * 1024 * 1024);
+
+		await setCached("large-1", value, policy);
+		vi.advanceTimersByTime(1);
+		await setCached("large-2", value, policy);
+		vi.advanceTimersByTime(1);
+		await setCached("large-3", value, policy);
+
+		await expect(peekCached("large-1")).resolves.toBeNull();
+		await expect(peekCached("large-2")).resolves.toBe(value);
+		await expect(peekCached("large-3")).resolves.toBe(value);
+	});
+});
@@ -0,0 +1,405 @@
+/**
+ * Shared cache for API responses.  Entries are kept in memory and persisted
+ * in chrome.storage.session, so they survive the side panel being closed and
+ * reopened but not a browser restart.  Stale entries can be served while
+ * they're refreshed in the background, and concurrent requests for the same
+ * key share one fetch.
+ */
+
+export interface CachePolicy {
+	// how long an entry is fresh, in milliseconds
+	ttl: number;
+	// how long after that a stale entry is still returned while it's refreshed
+	staleTtl?: number;
+	// set to false to keep the entry in memory only
+	persist?: boolean;
+}
+
+export interface CacheEntryInfo {
+	key: string;
+	storedAt: number;
+	freshUntil: number;
+	staleUntil: number;
+	// approximate size of the stored JSON, in characters
+	size: number;
+}
+
+interface StoredEntry<T> {
+	value: T;
+	storedAt: number;
+	freshUntil: number;
+	staleUntil: number;
+}
+
+// what's tracked about an entry to keep the cache within its size cap
+interface EntrySize {
+	storedAt: number;
+	staleUntil: number;
+	size: number;
+}
+
+interface CachedOptions<T> extends CachePolicy {
+	// called with the new value when a stale entry has been refreshed
+	onRevalidate?: (value: T) => void;
+}
+
+/**
+ * Cache policies for the extension's clients, in one place so they're easy
+ * to compare and tune
+ */
+export const CACHE_POLICIES = {
+	// Wagtail page data
+	page: { ttl: 5 * 60 * 1000, staleTtl: 25 * 60 * 1000 },
+	// draft data changes with every edit, so it's only reused briefly
+	preview: { ttl: 5 * 60 * 1000, persist: false },
+	feedback: { ttl: 5 * 60 * 1000, staleTtl: 25 * 60 * 1000 },
+	linkCheck: { ttl: 10 * 60 * 1000 },
+} satisfies Record<string, CachePolicy>;
+
+const STORAGE_PREFIX = "cache:";
+
+/**
+ * Most the persisted entries can take up, in characters of JSON.  Session
+ * storage holds 10 MB in all, which the link checker's requests also use.
+ * The entries kept in memory have the same cap, since the service worker can
+ * run for a long time.
+ */
+const MAX_STORED_SIZE = 4 * 1024 * 1024;
+
+const memory = new Map<string, StoredEntry<unknown>>();
+// sizes of the entries in memory, in the order they were added
+const memorySizes = new Map<string, EntrySize>();
+// sizes of the persisted entries, loaded from session storage the first time
+// it's written to and then kept up to date, so writes don't have to read
+// the whole cache
+let storedSizes: Map<string, EntrySize> | null = null;
+const inFlight = new Map<string, Promise<unknown>>();
+
+// storage writes and removals run in order, and reads wait for them, so a
+// read right after an invalidation doesn't find the old entry
+let pendingWrites: Promise<unknown> = Promise.resolve();
+
+const isSessionStorageAvailable = () => typeof chrome !== "undefined" && !!chrome.storage?.session;
+
+function queueWrite(write: () => Promise<unknown>): Promise<unknown>
+{
+	pendingWrites = pendingWrites
+		.then(write)
+		.catch((error) => console.warn("Request cache storage failed:", error));
+	return pendingWrites;
+}
+
+function measure(entry: StoredEntry<unknown>): EntrySize
+{
+	return { storedAt: entry.storedAt, staleUntil: entry.staleUntil, size: JSON.stringify(entry).length };
+}
+
+/**
+ * Picks the keys to remove so the rest and an entry of neededSize fit within
+ * MAX_STORED_SIZE: every expired entry, then the oldest ones
+ */
+function selectEvictions(sizes: Map<string, EntrySize>, neededSize: number, now: number): string[]
+{
+	const entries = Array.from(sizes.entries()).sort(([, a], [, b]) => a.storedAt - b.storedAt);
+	let totalSize = entries.reduce((sum, [, entry]) => sum + entry.size, neededSize);
+
+	return entries
+		.filter(([, entry]) => {
+			if (entry.staleUntil > now && totalSize <= MAX_STORED_SIZE) {
+				return false;
+			}
+			totalSize -= entry.size;
+			return true;
+		})
+		.map(([key]) => key);
+}
+
+function forget(key: string): void
+{
+	memory.delete(key);
+	memorySizes.delete(key);
+}
+
+/**
+ * Keeps an entry in memory, dropping expired and old entries to stay within
+ * the size cap
+ */
+function remember(key: string, entry: StoredEntry<unknown>): void
+{
+	forget(key);
+
+	const entrySize = measure(entry);
+	selectEvictions(memorySizes, entrySize.size, Date.now()).forEach(forget);
+
+	if (entrySize.size <= MAX_STORED_SIZE) {
+		memory.set(key, entry);
+		memorySizes.set(key, entrySize);
+	}
+}
+
+// keep this context's memory in step with changes made by other extension pages
+if (isSessionStorageAvailable()) {
+	chrome.storage.onChanged.addListener((changes, areaName) => {
+		if (areaName !== "session") {
+			return;
+		}
+
+		Object.entries(changes).forEach(([storageKey, change]) => {
+			if (!storageKey.startsWith(STORAGE_PREFIX)) {
+				return;
+			}
+
+			const key = storageKey.slice(STORAGE_PREFIX.length);
+			if (change.newValue) {
+				const entry = change.newValue as StoredEntry<unknown>;
+				remember(key, entry);
+				storedSizes?.set(key, measure(entry));
+			} else {
+				forget(key);
+				storedSizes?.delete(key);
+			}
+		});
+	});
+}
+
+/**
+ * Looks up an entry in memory, then in session storage
+ */
+async function readEntry<T>(key: string): Promise<StoredEntry<T> | null>
+{
+	const inMemory = memory.get(key) as StoredEntry<T> | undefined;
+	if (inMemory) {
+		return inMemory;
+	}
+
+	if (!isSessionStorageAvailable()) {
+		return null;
+	}
+
+	try {
+		await pendingWrites;
+		const storageKey = `${STORAGE_PREFIX}${key}`;
+		const stored = await chrome.storage.session.get(storageKey);
+		const entry = stored[storageKey] as StoredEntry<T> | undefined;
+		if (entry) {
+			remember(key, entry);
+		}
+		return entry ?? null;
+	} catch (error) {
+		console.warn("Failed to read request cache:", error);
+		return null;
+	}
+}
+
+/**
+ * Returns the sizes of the persisted entries, reading them from session
+ * storage the first time.  Only call it from queueWrite.
+ */
+async function getStoredSizes(): Promise<Map<string, EntrySize>>
+{
+	if (!storedSizes) {
+		const stored = await chrome.storage.session.get(null);
+		storedSizes = new Map(Object.entries(stored)
+			.filter(([storageKey]) => storageKey.startsWith(STORAGE_PREFIX))
+			.map(([storageKey, value]) => [storageKey.slice(STORAGE_PREFIX.length), measure(value as StoredEntry<unknown>)]));
+	}
+
+	return storedSizes;
+}
+
+/**
+ * Removes entries from session storage and the size index
+ */
+async function removeStored(keys: string[]): Promise<void>
+{
+	if (keys.length > 0) {
+		keys.forEach((key) => storedSizes?.delete(key));
+		await chrome.storage.session.remove(keys.map((key) => `${STORAGE_PREFIX}${key}`));
+	}
+}
+
+/**
+ * Removes expired entries from session storage, then the oldest entries
+ * until the rest and a new entry fit within MAX_STORED_SIZE.  Only call it
+ * from queueWrite.
+ * @param neededSize - Size of the entry about to be stored
+ * @param storingKey - Key of the entry about to be stored, which replaces its old entry
+ */
+async function makeRoom(neededSize: number, storingKey?: string): Promise<void>
+{
+	const sizes = new Map(await getStoredSizes());
+	if (storingKey) {
+		sizes.delete(storingKey);
+	}
+
+	const removed = selectEvictions(sizes, neededSize, Date.now());
+	removed.forEach(forget);
+	await removeStored(removed);
+}
+
+/**
+ * Stores a value under a key
+ */
+export async function setCached<T>(key: string, value: T, policy: CachePolicy): Promise<void>
+{
+	const now = Date.now();
+	const entry: StoredEntry<T> = {
+		value,
+		storedAt: now,
+		freshUntil: now + policy.ttl,
+		staleUntil: now + policy.ttl + (policy.staleTtl ?? 0),
+	};
+
+	remember(key, entry);
+
+	if (policy.persist === false || !isSessionStorageAvailable()) {
+		return;
+	}
+
+	// an entry too big for the cap isn't cached
+	const entrySize = measure(entry);
+	if (entrySize.size > MAX_STORED_SIZE) {
+		return;
+	}
+
+	await queueWrite(async () => {
+		await makeRoom(entrySize.size, key);
+		await chrome.storage.session.set({ [`${STORAGE_PREFIX}${key}`]: entry });
+		(await getStoredSizes()).set(key, entrySize);
+	});
+}
+
+/**
+ * Returns a cached value without fetching, including stale values
+ * @returns The value, or null if there's no usable entry
+ */
+export async function peekCached<T>(key: string): Promise<T | null>
+{
+	const entry = await readEntry<T>(key);
+	return entry && Date.now() < entry.staleUntil ? entry.value : null;
+}
+
+/**
+ * Fetches a value once and shares the promise with concurrent callers
+ */
+function fetchOnce<T>(key: string, fetcher: () => Promise<T>, policy: CachePolicy): Promise<T>
+{
+	const existing = inFlight.get(key) as Promise<T> | undefined;
+	if (existing) {
+		return existing;
+	}
+
+	const request = fetcher()
+		.then(async (value) => {
+			await setCached(key, value, policy);
+			return value;
+		})
+		.finally(() => {
+			inFlight.delete(key);
+		});
+
+	inFlight.set(key, request);
+	return request;
+}
+
+/**
+ * Returns the cached value for a key, fetching it when there's no fresh
+ * entry.  A stale entry within its staleTtl is returned straight away and
+ * refreshed in the background.  Errors thrown by the fetcher aren't cached.
+ * @param key - Cache key, prefixed by the client, e.g. "feedback:/page?page=1"
+ * @param fetcher - Loads the value when it isn't cached
+ * @param options - Cache policy, plus a callback for background refreshes
+ */
+export async function cached<T>(key: string, fetcher: () => Promise<T>, options: CachedOptions<T>): Promise<T>
+{
+	const entry = await readEntry<T>(key);
+	const now = Date.now();
+
+	if (entry && now < entry.freshUntil) {
+		return entry.value;
+	}
+
+	if (entry && now < entry.staleUntil) {
+		fetchOnce(key, fetcher, options)
+			.then((value) => options.onRevalidate?.(value))
+			.catch((error) => console.warn(`Failed to refresh cached ${key}:`, error));
+		return entry.value;
+	}
+
+	return fetchOnce(key, fetcher, options);
+}
+
+/**
+ * Removes the entry for a key
+ * @param key - The exact key to remove
+ */
+export async function deleteCached(key: string): Promise<void>
+{
+	forget(key);
+
+	if (isSessionStorageAvailable()) {
+		await queueWrite(() => removeStored([key]));
+	}
+}
+
+/**
+ * Removes every entry whose key starts with the prefix, or every entry.  Use
+ * deleteCached for a single entry, as a prefix also matches longer keys.
+ * @param prefix - Key prefix to remove
+ */
+export async function invalidateCached(prefix?: string): Promise<void>
+{
+	const matches = (key: string) => !prefix || key.startsWith(prefix);
+
+	Array.from(memory.keys()).filter(matches).forEach(forget);
+
+	if (isSessionStorageAvailable()) {
+		await queueWrite(async () => {
+			const keys = Array.from((await getStoredSizes()).keys()).filter(matches);
+			await removeStored(keys);
+		});
+	}
+}
+
+/**
+ * Lists the persisted entries, for the cache debug view.  It reads the whole
+ * cache, so only call it when the user asks to see it.
+ */
+export async function listCached(): Promise<CacheEntryInfo[]>
+{
+	if (!isSessionStorageAvailable()) {
+		return [];
+	}
+
+	await pendingWrites;
+	const stored = await chrome.storage.session.get(null);
+
+	return Object.entries(stored)
+		.filter(([storageKey]) => storageKey.startsWith(STORAGE_PREFIX))
+		.map(([storageKey, value]) => {
+			const entry = value as StoredEntry<unknown>;
+			return {
+				key: storageKey.slice(STORAGE_PREFIX.length),
+				storedAt: entry.storedAt,
+				freshUntil: entry.freshUntil,
+				staleUntil: entry.staleUntil,
+				size: JSON.stringify(entry.value).length,
+			};
+		})
+		.sort((a, b) => b.storedAt - a.storedAt);
+}
+
+/**
+ * Removes expired entries from session storage, and the oldest entries if
+ * the cache is over its size cap.  Entries are also pruned whenever one is
+ * stored.
+ */
+export async function pruneCached(): Promise<void>
+{
+	await queueWrite(() => makeRoom(0));
+}
+
+// clear out what expired since the browser session's last page was open
+if (isSessionStorageAvailable()) {
+	void pruneCached();
+}
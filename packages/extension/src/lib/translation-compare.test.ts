@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import type { ContentBlock } from "@sf-gov/shared";
+import { alignBlocks } from "./translation-compare";
+
+function block(id: string, overrides: Partial<ContentBlock> = {}): ContentBlock
+{
+	return { id, field: "body", type: "paragraph", text: `Text ${id}`, shape: "p:1", ...overrides };
+}
+
+describe("alignBlocks", () => {
+	it("matches blocks by ID, wherever they are in the translation", () => {
+		const source = [block("a"), block("b")];
+		const translation = [block("b"), block("a")];
+
+		expect(alignBlocks(source, translation)).toEqual([
+			{ status: "match", source: source[0], translation: translation[1] },
+			{ status: "match", source: source[1], translation: translation[0] },
+		]);
+	});
+
+	it("matches blocks without a shared ID by position within the same field", () => {
+		const source = [block("a"), block("b", { field: "sidebar" }), block("c")];
+		const translation = [block("x"), block("y"), block("z", { field: "sidebar" })];
+
+		expect(alignBlocks(source, translation).map((row) => row.translation?.id)).toEqual(["x", "z", "y"]);
+	});
+
+	it("doesn't reuse a block already matched by ID when matching by position", () => {
+		const source = [block("a"), block("b")];
+		const translation = [block("b")];
+
+		expect(alignBlocks(source, translation)).toEqual([
+			{ status: "missing", source: source[0] },
+			{ status: "match", source: source[1], translation: translation[0] },
+		]);
+	});
+
+	it("lists blocks only in the translation after the source blocks", () => {
+		const source = [block("a")];
+		const translation = [block("a"), block("extra", { field: "sidebar" })];
+
+		expect(alignBlocks(source, translation).map((row) => row.status)).toEqual(["match", "extra"]);
+	});
+
+	it("flags empty translations and different structure", () => {
+		const source = [block("a"), block("b"), block("c")];
+		const translation = [
+			block("a", { text: "" }),
+			block("b", { shape: "p:1 li:3" }),
+			block("c", { type: "heading" }),
+		];
+
+		expect(alignBlocks(source, translation).map((row) => row.status)).toEqual(["empty", "structure", "structure"]);
+	});
+});
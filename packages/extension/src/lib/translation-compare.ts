@@ -0,0 +1,84 @@
+import type { ContentBlock } from "@sf-gov/shared";
+
+export type BlockStatus = "match" | "missing" | "empty" | "structure" | "extra";
+
+export interface AlignedBlock {
+	status: BlockStatus;
+	source?: ContentBlock;
+	translation?: ContentBlock;
+}
+
+export const BLOCK_STATUS_LABELS: Record<BlockStatus, string> = {
+	match: "Translated",
+	missing: "Missing",
+	empty: "Empty",
+	structure: "Different structure",
+	extra: "Not in English",
+};
+
+/**
+ * Decides how well a translated block matches its English source.  The text
+ * can't be compared across languages, so only the block type and the shape
+ * of its markup are checked.
+ */
+function getBlockStatus(source: ContentBlock, translation: ContentBlock): BlockStatus
+{
+	if (source.text && !translation.text) {
+		return "empty";
+	}
+
+	if (source.type !== translation.type || source.shape !== translation.shape) {
+		return "structure";
+	}
+
+	return "match";
+}
+
+/**
+ * Lines up the blocks of a translated page with the English source.  Blocks
+ * are matched by ID first, since translated StreamField blocks keep the IDs of
+ * the blocks they were copied from, and then by position within the same
+ * field for blocks that were added by hand.
+ * @returns One row per source block in document order, followed by any
+ * blocks that only exist in the translation
+ */
+export function alignBlocks(source: ContentBlock[], translation: ContentBlock[]): AlignedBlock[]
+{
+	const unmatched = new Set(translation);
+	const byId = new Map(translation.map((block) => [block.id, block]));
+	const matches = new Map<ContentBlock, ContentBlock>();
+
+	source.forEach((block) => {
+		const match = byId.get(block.id);
+		if (match && unmatched.has(match)) {
+			matches.set(block, match);
+			unmatched.delete(match);
+		}
+	});
+
+	source.forEach((block, index) => {
+		if (matches.has(block)) {
+			return;
+		}
+
+		const position = source.slice(0, index).filter((item) => item.field === block.field).length;
+		const match = translation.filter((item) => item.field === block.field)[position];
+		if (match && unmatched.has(match)) {
+			matches.set(block, match);
+			unmatched.delete(match);
+		}
+	});
+
+	const rows: AlignedBlock[] = source.map((block) => {
+		const match = matches.get(block);
+		return match
+			? { status: getBlockStatus(block, match), source: block, translation: match }
+			: { status: "missing", source: block };
+	});
+
+	unmatched.forEach((block) => {
+		rows.push({ status: "extra", translation: block });
+	});
+
+	return rows;
+}
@@ -41,3 +41,46 @@ export function extractPageSlug(url: string): string
 		return "";
 	}
 }
+
+/**
+ * Builds the URL of a form page's confirmation screen, which SF.gov shows
+ * when the page is loaded with ?submitted=true
+ * @param url - The form page URL
+ * @returns The confirmation page URL
+ */
+export function getFormSubmittedUrl(url: string): string
+{
+	try {
+		const urlObj = new URL(url);
+		urlObj.searchParams.set("submitted", "true");
+		return urlObj.toString();
+	} catch {
+		return url + "?submitted=true";
+	}
+}
+
+/**
+ * Checks if a URL is on SF.gov or one of its subdomains, including staging
+ * @param url - The URL to check
+ * @returns True for sf.gov and *.sf.gov, false for anything else or an
+ * invalid URL such as chrome://
+ */
+export function isSfGovDomain(url: string): boolean
+{
+	try {
+		const hostname = new URL(url).hostname.toLowerCase();
+		return hostname === "sf.gov" || hostname.endsWith(".sf.gov");
+	} catch (error) {
+		return false;
+	}
+}
+
+/**
+ * Checks if a URL is a Wagtail admin edit page
+ * @param url - The URL to check
+ * @returns True if the URL is a Wagtail admin edit page
+ */
+export function isWagtailAdminEditPage(url: string): boolean
+{
+	return isSfGovDomain(url) && extractPageIdFromAdminUrl(url) !== null;
+}
@@ -0,0 +1,552 @@
+import React, { useEffect, useState } from "react";
+import {
+	CARD_NAMES,
+	DEFAULT_CONFIG,
+	getConfig,
+	getEnvironmentOrigins,
+	saveConfig,
+	type CardId,
+	type Environment,
+	type ExtensionConfig,
+	type ReviewSettings,
+} from "@/lib/config.ts";
+import { deleteCached, invalidateCached, listCached, type CacheEntryInfo } from "@/lib/request-cache.ts";
+import { formatFileSize } from "@/lib/image-audit.ts";
+import { Button } from "@/sidepanel/components/Button.tsx";
+
+const Container = ({ children }: { children: React.ReactNode }) => (
+	<div className="min-h-screen p-8 bg-gray-50">
+		<div className="max-w-3xl mx-auto">
+			{children}
+		</div>
+	</div>
+);
+
+const Section = ({ title, description, children }: { title: string; description: string; children: React.ReactNode }) => (
+	<section className="bg-white rounded-lg border border-gray-200 shadow-sm p-6 mb-6">
+		<h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+		<p className="text-sm text-gray-600 mb-4">{description}</p>
+		{children}
+	</section>
+);
+
+const TextField = ({ label, value, placeholder, onChange }: {
+	label: string;
+	value: string;
+	placeholder?: string;
+	onChange: (value: string) => void;
+}) => (
+	<label className="block">
+		<span className="block text-xs font-medium text-gray-700 mb-1">{label}</span>
+		<input
+			type="text"
+			value={value}
+			placeholder={placeholder}
+			onChange={(event) => onChange(event.target.value)}
+			className="w-full rounded-sm border border-gray-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-sfgov-blue"
+		/>
+	</label>
+);
+
+const NumberField = ({ label, value, onChange }: {
+	label: string;
+	value: number;
+	onChange: (value: number) => void;
+}) => (
+	<label className="block">
+		<span className="block text-xs font-medium text-gray-700 mb-1">{label}</span>
+		<input
+			type="number"
+			min={1}
+			value={Number.isNaN(value) ? "" : value}
+			onChange={(event) => onChange(parseInt(event.target.value, 10))}
+			className="w-24 rounded-sm border border-gray-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-sfgov-blue"
+		/>
+	</label>
+);
+
+/**
+ * A content type's review interval while it's being edited, kept in a list
+ * so a type can be renamed without losing its place
+ */
+interface ReviewIntervalRow {
+	contentType: string;
+	months: number;
+}
+
+const toReviewRows = (review: ReviewSettings): ReviewIntervalRow[] =>
+	Object.entries(review.byContentType).map(([contentType, months]) => ({ contentType, months }));
+
+/**
+ * Describes how long ago or from now a time is, e.g. "3 min ago"
+ */
+function formatRelativeTime(timestamp: number, now: number): string
+{
+	const minutes = Math.round(Math.abs(timestamp - now) / 60000);
+	const amount = minutes < 1 ? "under a minute" : `${minutes} min`;
+	return timestamp <= now ? `${amount} ago` : `in ${amount}`;
+}
+
+/**
+ * Debug view of the responses cached for this browser session, with buttons
+ * to drop them so the next request goes to the server
+ */
+const CachedRequests: React.FC = () => {
+	const [entries, setEntries] = useState<CacheEntryInfo[]>([]);
+	const [now, setNow] = useState<number>(Date.now());
+
+	const refresh = async () => {
+		setEntries(await listCached());
+		setNow(Date.now());
+	};
+
+	// with no key, clears every entry
+	const clear = async (key?: string) => {
+		await (key ? deleteCached(key) : invalidateCached());
+		await refresh();
+	};
+
+	useEffect(() => {
+		void refresh();
+	}, []);
+
+	return (
+		<>
+			{entries.length === 0 ? (
+				<p className="text-sm text-gray-500 italic">Nothing is cached.</p>
+			) : (
+				<table className="w-full text-xs">
+					<thead>
+						<tr className="text-left text-gray-500 border-b border-gray-200">
+							<th className="py-1 pr-2 font-medium">Key</th>
+							<th className="py-1 pr-2 font-medium">Stored</th>
+							<th className="py-1 pr-2 font-medium">Status</th>
+							<th className="py-1 pr-2 font-medium text-right">Size</th>
+							<th className="py-1"></th>
+						</tr>
+					</thead>
+					<tbody>
+						{entries.map((entry) => {
+							const status = now < entry.freshUntil
+								? `Fresh, stale ${formatRelativeTime(entry.freshUntil, now)}`
+								: now < entry.staleUntil
+									? `Stale, expires ${formatRelativeTime(entry.staleUntil, now)}`
+									: "Expired";
+
+							return (
+								<tr key={entry.key} className="border-b border-gray-100 last:border-b-0 align-top">
+									<td className="py-1 pr-2 font-mono break-all">{entry.key}</td>
+									<td className="py-1 pr-2 whitespace-nowrap">{formatRelativeTime(entry.storedAt, now)}</td>
+									<td className="py-1 pr-2">{status}</td>
+									<td className="py-1 pr-2 text-right whitespace-nowrap">{formatFileSize(entry.size)}</td>
+									<td className="py-1 text-right">
+										<button
+											type="button"
+											onClick={() => clear(entry.key)}
+											className="text-red-700 hover:text-red-900 underline cursor-pointer bg-transparent border-none"
+										>
+											Clear
+										</button>
+									</td>
+								</tr>
+							);
+						})}
+					</tbody>
+				</table>
+			)}
+			<div className="flex items-center gap-4 mt-4">
+				<button
+					type="button"
+					onClick={refresh}
+					className="text-sm text-sfgov-blue hover:underline cursor-pointer bg-transparent border-none"
+				>
+					Refresh
+				</button>
+				{entries.length > 0 && (
+					<button
+						type="button"
+						onClick={() => clear()}
+						className="text-sm text-red-700 hover:text-red-900 underline cursor-pointer bg-transparent border-none"
+					>
+						Clear all
+					</button>
+				)}
+			</div>
+		</>
+	);
+};
+
+/**
+ * Returns a description of the first problem with the environments, or null
+ * if they can be saved
+ */
+function validateEnvironments(environments: Environment[]): string | null
+{
+	for (const environment of environments) {
+		const name = environment.name || "An environment";
+
+		if (!environment.name.trim()) {
+			return "Every environment needs a name.";
+		}
+
+		for (const [label, url] of [
+			["Wagtail API URL", environment.apiBaseUrl],
+			["Karl admin URL", environment.adminBaseUrl],
+			["Companion API URL", environment.companionApiUrl],
+		]) {
+			try {
+				new URL(url);
+			} catch (e) {
+				return `${name} has an invalid ${label}.`;
+			}
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Returns a description of the first problem with the review intervals, or
+ * null if they can be saved
+ */
+function validateReviewIntervals(defaultMonths: number, rows: ReviewIntervalRow[]): string | null
+{
+	const isValidMonths = (months: number) => Number.isInteger(months) && months > 0;
+
+	if (!isValidMonths(defaultMonths)) {
+		return "The default review interval must be a whole number of months.";
+	}
+
+	for (const row of rows) {
+		if (!row.contentType.trim()) {
+			return "Every review interval needs a content type.";
+		}
+
+		if (!isValidMonths(row.months)) {
+			return `The review interval for ${row.contentType} must be a whole number of months.`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Returns the hosts the environments use beyond the default environments'
+ * hosts, i.e. the ones the user added
+ */
+function getAddedOrigins(environments: Environment[]): string[]
+{
+	const defaultOrigins = new Set(getEnvironmentOrigins(DEFAULT_CONFIG.environments));
+
+	return getEnvironmentOrigins(environments).filter((origin) => !defaultOrigins.has(origin));
+}
+
+/**
+ * Adds the trailing slash the Wagtail URLs are joined with
+ */
+function withTrailingSlash(url: string): string
+{
+	return url.endsWith("/") ? url : `${url}/`;
+}
+
+/**
+ * Extension options page for choosing which environment the extension talks
+ * to, editing the environments, and hiding side panel cards
+ */
+export const OptionsPage: React.FC = () => {
+	const [draft, setDraft] = useState<ExtensionConfig>(getConfig);
+	const [reviewRows, setReviewRows] = useState<ReviewIntervalRow[]>(() => toReviewRows(getConfig().review));
+	const [error, setError] = useState<string | null>(null);
+	const [isSaved, setIsSaved] = useState<boolean>(false);
+	// added hosts that the extension already has permission to reach
+	const [grantedOrigins, setGrantedOrigins] = useState<Set<string>>(new Set());
+
+	// permissions have to be requested while handling the save click, so the
+	// ones already granted are checked ahead of time
+	useEffect(() => {
+		let isCurrent = true;
+		const origins = getAddedOrigins(draft.environments);
+
+		Promise.all(origins.map((origin) => chrome.permissions.contains({ origins: [origin] })))
+			.then((granted) => {
+				if (isCurrent) {
+					setGrantedOrigins(new Set(origins.filter((_, i) => granted[i])));
+				}
+			})
+			.catch((permissionsError) => console.error("Failed to check host permissions:", permissionsError));
+
+		return () => {
+			isCurrent = false;
+		};
+	}, [draft.environments]);
+
+	const update = (changes: Partial<ExtensionConfig>) => {
+		setDraft((current) => ({ ...current, ...changes }));
+		setIsSaved(false);
+	};
+
+	const updateEnvironment = (id: string, changes: Partial<Environment>) => {
+		update({
+			environments: draft.environments.map((environment) =>
+				environment.id === id ? { ...environment, ...changes } : environment
+			),
+		});
+	};
+
+	const addEnvironment = () => {
+		const id = `custom-${Date.now()}`;
+		update({
+			environments: [
+				...draft.environments,
+				{
+					...DEFAULT_CONFIG.environments[0],
+					id,
+					name: "New environment",
+					siteHosts: [],
+				},
+			],
+		});
+	};
+
+	const removeEnvironment = (id: string) => {
+		const environments = draft.environments.filter((environment) => environment.id !== id);
+		update({
+			environments,
+			activeEnvironmentId: draft.activeEnvironmentId === id ? environments[0].id : draft.activeEnvironmentId,
+		});
+	};
+
+	const updateReviewRow = (index: number, changes: Partial<ReviewIntervalRow>) => {
+		setReviewRows((rows) => rows.map((row, i) => i === index ? { ...row, ...changes } : row));
+		setIsSaved(false);
+	};
+
+	const addReviewRow = () => {
+		setReviewRows((rows) => [...rows, { contentType: "", months: draft.review.defaultMonths }]);
+		setIsSaved(false);
+	};
+
+	const removeReviewRow = (index: number) => {
+		setReviewRows((rows) => rows.filter((_, i) => i !== index));
+		setIsSaved(false);
+	};
+
+	const handleSave = async () => {
+		const validationError = validateEnvironments(draft.environments)
+			|| validateReviewIntervals(draft.review.defaultMonths, reviewRows);
+		setError(validationError);
+		if (validationError) {
+			return;
+		}
+
+		const newConfig: ExtensionConfig = {
+			...draft,
+			environments: draft.environments.map((environment) => ({
+				...environment,
+				name: environment.name.trim(),
+				apiBaseUrl: withTrailingSlash(environment.apiBaseUrl.trim()),
+				adminBaseUrl: withTrailingSlash(environment.adminBaseUrl.trim()),
+				companionApiUrl: environment.companionApiUrl.trim().replace(/\/$/, ""),
+			})),
+			review: {
+				defaultMonths: draft.review.defaultMonths,
+				// content types are matched without the app label, e.g. "Transaction"
+				byContentType: Object.fromEntries(reviewRows.map((row) => [
+					row.contentType.trim().split(".").pop() || row.contentType.trim(),
+					row.months,
+				])),
+			},
+		};
+
+		try {
+			// hosts the user added have to be granted, which has to be asked
+			// for while handling the click
+			const origins = getAddedOrigins(newConfig.environments).filter((origin) => !grantedOrigins.has(origin));
+			const isGranted = origins.length === 0 || await chrome.permissions.request({ origins });
+
+			await saveConfig(newConfig);
+			setDraft(newConfig);
+			setReviewRows(toReviewRows(newConfig.review));
+			setIsSaved(true);
+
+			if (!isGranted) {
+				setError("The settings were saved, but without permission to reach their hosts some environments won't work.");
+			}
+		} catch (saveError) {
+			console.error("Failed to save settings:", saveError);
+			setError("The settings couldn't be saved. Please try again.");
+		}
+	};
+
+	const handleReset = () => {
+		setDraft(DEFAULT_CONFIG);
+		setReviewRows(toReviewRows(DEFAULT_CONFIG.review));
+		setError(null);
+		setIsSaved(false);
+	};
+
+	return (
+		<Container>
+			<h1 className="text-2xl font-bold text-gray-900 mb-6">Karl Jr. Settings</h1>
+
+			<Section
+				title="Environments"
+				description="Pages are matched to an environment by their hostname. The active environment's companion API and Karl login are used for feedback, link checks and other server features, and its URLs are used for pages that don't match any environment."
+			>
+				<div className="space-y-4">
+					{draft.environments.map((environment) => (
+						<fieldset key={environment.id} className="border border-gray-200 rounded-md p-4">
+							<div className="flex items-center justify-between mb-3">
+								<label className="inline-flex items-center gap-2 text-sm font-medium text-gray-900">
+									<input
+										type="radio"
+										name="activeEnvironment"
+										checked={draft.activeEnvironmentId === environment.id}
+										onChange={() => update({ activeEnvironmentId: environment.id })}
+									/>
+									Active
+								</label>
+								{draft.environments.length > 1 && (
+									<button
+										type="button"
+										onClick={() => removeEnvironment(environment.id)}
+										className="text-xs text-red-700 hover:text-red-900 underline cursor-pointer bg-transparent border-none"
+									>
+										Remove
+									</button>
+								)}
+							</div>
+							<div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+								<TextField
+									label="Name"
+									value={environment.name}
+									onChange={(name) => updateEnvironment(environment.id, { name })}
+								/>
+								<TextField
+									label="Site hostnames (comma-separated, start with . to include subdomains)"
+									value={environment.siteHosts.join(", ")}
+									placeholder="staging.dev.sf.gov, .staging.dev.sf.gov"
+									onChange={(value) => updateEnvironment(environment.id, {
+										siteHosts: value.split(",").map((host) => host.trim().toLowerCase()).filter(Boolean),
+									})}
+								/>
+								<TextField
+									label="Wagtail API URL"
+									value={environment.apiBaseUrl}
+									placeholder="https://api.sf.gov/api/v2/"
+									onChange={(apiBaseUrl) => updateEnvironment(environment.id, { apiBaseUrl })}
+								/>
+								<TextField
+									label="Karl admin URL"
+									value={environment.adminBaseUrl}
+									placeholder="https://api.sf.gov/admin/"
+									onChange={(adminBaseUrl) => updateEnvironment(environment.id, { adminBaseUrl })}
+								/>
+								<TextField
+									label="Companion API URL"
+									value={environment.companionApiUrl}
+									placeholder="http://localhost:3000"
+									onChange={(companionApiUrl) => updateEnvironment(environment.id, { companionApiUrl })}
+								/>
+							</div>
+						</fieldset>
+					))}
+				</div>
+				<button
+					type="button"
+					onClick={addEnvironment}
+					className="mt-4 text-sm text-sfgov-blue hover:underline cursor-pointer bg-transparent border-none"
+				>
+					+ Add environment
+				</button>
+			</Section>
+
+			<Section
+				title="Side panel cards"
+				description="Turn off cards you don't use to keep the side panel short."
+			>
+				<div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+					{(Object.keys(CARD_NAMES) as CardId[]).map((card) => (
+						<label key={card} className="inline-flex items-center gap-2 text-sm text-gray-900">
+							<input
+								type="checkbox"
+								checked={draft.cards[card]}
+								onChange={(event) => update({ cards: { ...draft.cards, [card]: event.target.checked } })}
+							/>
+							{CARD_NAMES[card]}
+						</label>
+					))}
+				</div>
+			</Section>
+
+			<Section
+				title="Content review"
+				description="Pages that haven't been published within their review interval are flagged in the Content Freshness card. Content types without their own interval use the default."
+			>
+				<NumberField
+					label="Default interval (months)"
+					value={draft.review.defaultMonths}
+					onChange={(defaultMonths) => update({ review: { ...draft.review, defaultMonths } })}
+				/>
+				<div className="space-y-2 mt-4">
+					{reviewRows.map((row, index) => (
+						<div key={index} className="flex items-end gap-3">
+							<div className="flex-1">
+								<TextField
+									label="Content type"
+									value={row.contentType}
+									placeholder="Transaction"
+									onChange={(contentType) => updateReviewRow(index, { contentType })}
+								/>
+							</div>
+							<NumberField
+								label="Months"
+								value={row.months}
+								onChange={(months) => updateReviewRow(index, { months })}
+							/>
+							<button
+								type="button"
+								onClick={() => removeReviewRow(index)}
+								className="mb-1.5 text-xs text-red-700 hover:text-red-900 underline cursor-pointer bg-transparent border-none"
+							>
+								Remove
+							</button>
+						</div>
+					))}
+				</div>
+				<button
+					type="button"
+					onClick={addReviewRow}
+					className="mt-4 text-sm text-sfgov-blue hover:underline cursor-pointer bg-transparent border-none"
+				>
+					+ Add content type
+				</button>
+			</Section>
+
+			{error && (
+				<p className="text-sm text-red-700 mb-4" role="alert">{error}</p>
+			)}
+
+			<div className="flex items-center gap-4 mb-6">
+				<Button onClick={handleSave}>Save settings</Button>
+				<button
+					type="button"
+					onClick={handleReset}
+					className="text-sm text-gray-600 hover:text-gray-900 underline cursor-pointer bg-transparent border-none"
+				>
+					Reset to defaults
+				</button>
+				{isSaved && (
+					<span className="text-sm text-green-700" role="status">Settings saved</span>
+				)}
+			</div>
+
+			<Section
+				title="Cached requests"
+				description="Page data, feedback and link check results are cached until the browser closes. Clear an entry to load it fresh the next time it's shown."
+			>
+				<CachedRequests />
+			</Section>
+		</Container>
+	);
+};
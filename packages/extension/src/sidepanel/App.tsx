@@ -1,4 +1,6 @@
+import { useState } from "react";
 import { useSfGovPage } from "./hooks/useSfGovPage";
+import { useConfig } from "./hooks/useConfig";
 import { LoadingState } from "./components/LoadingState";
 import { ErrorState } from "./components/ErrorState";
 import { PageHeader } from "./components/PageHeader";
@@ -9,8 +11,16 @@ import { FormConfirmationCard } from "./components/FormConfirmationCard";
 import { PreviewBanner } from "./components/PreviewBanner";
 import { FeedbackCard } from "./components/FeedbackCard";
 import { LinkCheckerCard } from "./components/LinkCheckerCard";
-//import { TranslationsCard } from "./components/TranslationsCard";
-//import { A11yCheckCard } from "./components/A11yCheckCard";
+import { DraftChangesCard } from "./components/DraftChangesCard";
+import { TranslationsCard } from "./components/TranslationsCard";
+import { PageTreeCard } from "./components/PageTreeCard";
+import { A11yCheckCard } from "./components/A11yCheckCard";
+import { CommandPalette, type PaletteCommand } from "./components/CommandPalette";
+import { PageNavigation } from "./components/PageNavigation";
+import { FreshnessCard } from "./components/FreshnessCard";
+import { getApiBaseUrl, saveConfig } from "@/lib/config.ts";
+import { requestLinkCheck } from "@/lib/link-check-request.ts";
+import { getFormSubmittedUrl } from "@/lib/urlUtils.ts";
 
 const Container = ({ children }: { children: React.ReactNode }) => (
 	<div className="min-h-screen p-4 bg-gray-50">
@@ -22,6 +32,7 @@ export default function App()
 {
 	const {
 		pageData,
+		livePageData,
 		error,
 		isLoading,
 		isOnSfGov,
@@ -33,6 +44,9 @@ export default function App()
 		pagePath,
 		retry
 	} = useSfGovPage();
+	const config = useConfig();
+	const { cards } = config;
+	const [feedbackRefreshKey, setFeedbackRefreshKey] = useState<number>(0);
 
 	if (isLoading) {
 		return (
@@ -62,18 +76,38 @@ export default function App()
 		);
 	}
 
-	// If on admin page, show only the iframe with the SF.gov page
+	// If on admin page, show the iframe with the SF.gov page, along with the
+	// draft's changes once both the live and draft versions have loaded
 	if (isAdminPage) {
 		const iframeUrl = (isPreviewMode && previewUrl) || previewUrl || pageData?.meta.htmlUrl;
+		const showDraftChanges = isPreviewMode && pageData && livePageData && pageData !== livePageData;
 
 		if (iframeUrl) {
 			return (
-				<iframe
-					key={iframeUrl}
-					src={iframeUrl}
-					className="w-full h-screen border-0"
-					title="SF.gov Page Preview"
-				/>
+				<div className="flex flex-col h-screen">
+					{pageData && (
+						<div className="p-2 bg-gray-50 border-b border-gray-200 shrink-0">
+							<PageNavigation
+								pageId={pageData.id}
+								liveUrl={pageData.meta.htmlUrl}
+								editUrl={pageData.editUrl}
+								currentUrl={currentUrl}
+								previewUrl={previewUrl}
+							/>
+						</div>
+					)}
+					{showDraftChanges && (
+						<div className="p-2 bg-gray-50 max-h-[50vh] overflow-y-auto shrink-0">
+							<DraftChangesCard livePage={livePageData} draftPage={pageData} />
+						</div>
+					)}
+					<iframe
+						key={iframeUrl}
+						src={iframeUrl}
+						className="w-full flex-1 border-0"
+						title="SF.gov Page Preview"
+					/>
+				</div>
 			);
 		}
 
@@ -96,8 +130,58 @@ export default function App()
 		);
 	}
 
+	const commands: PaletteCommand[] = [
+		{
+			id: "edit",
+			title: "Edit on Karl",
+			run: () => { window.open(pageData.editUrl, "_blank"); },
+		},
+		{
+			id: "api-json",
+			title: "Open API JSON",
+			run: () => { window.open(`${getApiBaseUrl(currentUrl)}pages/${pageData.id}/`, "_blank"); },
+		},
+		...(cards.formConfirmation && pageData.formConfirmation ? [{
+			id: "confirmation",
+			title: "Open confirmation page",
+			keywords: "form submitted",
+			run: () => { window.open(getFormSubmittedUrl(currentUrl), "_blank"); },
+		}] : []),
+		...(cards.feedback ? [{
+			id: "refresh-feedback",
+			title: "Refresh feedback",
+			keywords: "reload",
+			run: () => setFeedbackRefreshKey((key) => key + 1),
+		}] : []),
+		{
+			id: "copy-id",
+			title: "Copy page ID",
+			run: () => navigator.clipboard.writeText(String(pageData.id)),
+		},
+		...(cards.linkChecker ? [{
+			id: "link-check",
+			title: "Run link check",
+			keywords: "broken links",
+			run: () => requestLinkCheck(currentUrl),
+		}] : []),
+		...config.environments
+			.filter((environment) => environment.id !== config.activeEnvironmentId)
+			.map((environment) => ({
+				id: `environment-${environment.id}`,
+				title: `Switch environment to ${environment.name}`,
+				run: () => saveConfig({ ...config, activeEnvironmentId: environment.id }),
+			})),
+		{
+			id: "settings",
+			title: "Open settings",
+			keywords: "options",
+			run: () => chrome.runtime.openOptionsPage(),
+		},
+	];
+
 	return (
 		<Container>
+			<CommandPalette commands={commands} />
 			<div className="max-w-3xl mx-auto space-y-4">
 				{isPreviewMode && previewTimestamp > 0 && (
 					<PreviewBanner timestamp={previewTimestamp} />
@@ -131,25 +215,56 @@ export default function App()
 					</div>
 				)}
 				<PageHeader title={pageData.title} />
-				<EditLinkCard pageId={pageData.id} />
-				<FeedbackCard pagePath={pagePath} />
-				{pageData.formConfirmation && (
-					<FormConfirmationCard formConfirmation={pageData.formConfirmation} currentUrl={currentUrl} />
-				)}
-				<MediaAssetsCard images={pageData.images} files={pageData.files} />
-				<LinkCheckerCard pageUrl={currentUrl} />
-{/*
-				<A11yCheckCard />
-*/}
-				<MetadataCard
-					primaryAgency={pageData.primaryAgency}
-					contentType={pageData.contentType}
+				<EditLinkCard editUrl={pageData.editUrl} />
+				<PageNavigation
 					pageId={pageData.id}
-					schema={pageData.schema}
+					liveUrl={pageData.meta.htmlUrl}
+					editUrl={pageData.editUrl}
+					currentUrl={currentUrl}
+					previewUrl={previewUrl}
 				/>
-{/*
-				<TranslationsCard translations={pageData.translations} />
-*/}
+				{cards.feedback && <FeedbackCard pagePath={pagePath} refreshKey={feedbackRefreshKey} />}
+				{cards.formConfirmation && pageData.formConfirmation && (
+					<FormConfirmationCard formConfirmation={pageData.formConfirmation} currentUrl={currentUrl} />
+				)}
+				{cards.media && (
+					<MediaAssetsCard images={pageData.images} files={pageData.files} pageId={pageData.id} pageUrl={currentUrl} />
+				)}
+				{cards.linkChecker && (
+					<LinkCheckerCard pageUrl={currentUrl} pageId={pageData.id} editUrl={pageData.editUrl} />
+				)}
+				{cards.a11y && <A11yCheckCard />}
+				{cards.metadata && (
+					<MetadataCard
+						primaryAgency={pageData.primaryAgency}
+						contentType={pageData.contentType}
+						pageId={pageData.id}
+						currentUrl={currentUrl}
+						schema={pageData.schema}
+					/>
+				)}
+				{cards.freshness && <FreshnessCard page={pageData} currentUrl={currentUrl} />}
+				{cards.pageTree && (
+					<PageTreeCard
+						pageId={pageData.id}
+						parentId={pageData.parentId}
+						title={pageData.title}
+						currentUrl={currentUrl}
+					/>
+				)}
+				{cards.translations && (
+					<TranslationsCard translations={pageData.translations} pageId={pageData.id} pageUrl={currentUrl} />
+				)}
+				<div className="text-center pt-2 text-xs text-gray-500">
+					<button
+						type="button"
+						onClick={() => chrome.runtime.openOptionsPage()}
+						className="text-xs text-gray-500 hover:text-gray-700 underline cursor-pointer bg-transparent border-none"
+					>
+						Settings
+					</button>
+					<span className="ml-3">Press <kbd>Ctrl</kbd>+<kbd>K</kbd> for commands</span>
+				</div>
 			</div>
 		</Container>
 	);
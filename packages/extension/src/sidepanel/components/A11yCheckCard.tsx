@@ -1,7 +1,15 @@
 import { useState } from "react";
-import { runA11yCheck, type A11yResult } from "../../lib/a11y-check";
+import {
+	A11Y_RULES,
+	A11Y_SEVERITY_ORDER,
+	type A11yIssue,
+	type A11yRule,
+	type A11ySeverity,
+	runA11yCheck,
+} from "../../lib/a11y-check";
 import { Button } from "./Button";
 import { Card } from "@/sidepanel/components/Card.tsx";
+import { LocateButton } from "@/sidepanel/components/LocateButton.tsx";
 
 const RunningLabel = () => (
 	<>
@@ -29,50 +37,107 @@ const RunningLabel = () => (
 	</>
 );
 
-const Results = ({ results }: { results: A11yResult[] }) => (
-	<div className="mt-4 space-y-3">
-		<div className="text-sm text-gray-500 font-medium">
-			Found {results.length} issue{results.length === 1 ? "" : "s"}:
+const SEVERITY_CLASSES: Record<A11ySeverity, string> = {
+	critical: "bg-red-100 text-red-800",
+	serious: "bg-orange-100 text-orange-800",
+	moderate: "bg-amber-100 text-amber-800",
+	minor: "bg-gray-100 text-gray-700",
+};
+
+const SeverityBadge = ({ severity }: { severity: A11ySeverity }) => (
+	<span className={`inline-block shrink-0 px-2 py-0.5 text-xs font-medium rounded capitalize ${SEVERITY_CLASSES[severity]}`}>
+		{severity}
+	</span>
+);
+
+const IssueDetails = ({ issue }: { issue: A11yIssue }) => (
+	<li className="p-2 bg-gray-50 rounded border border-gray-100">
+		<div className="text-gray-700">{issue.message}</div>
+		{issue.linkText && (
+			<div className="text-gray-600">
+				<span className="font-medium">Text:</span>{" "}
+				{issue.linkText}
+			</div>
+		)}
+		{issue.targetUrl && (
+			<div className="text-gray-600 break-all">
+				<span className="font-medium">Target:</span>{" "}
+				{issue.targetUrl}
+			</div>
+		)}
+		{issue.imageFilename && (
+			<div className="text-gray-600 break-all">
+				<span className="font-medium">File:</span>{" "}
+				{issue.imageFilename}
+			</div>
+		)}
+		{issue.selector && <LocateButton selector={issue.selector} />}
+	</li>
+);
+
+const RuleGroup = ({ rule, issues }: { rule: A11yRule; issues: A11yIssue[] }) => (
+	<div className="p-3 rounded border border-gray-200 text-sm">
+		<div className="flex items-start gap-2 mb-1">
+			<SeverityBadge severity={rule.severity} />
+			<div className="font-medium text-gray-900">
+				{rule.name} ({issues.length})
+			</div>
 		</div>
-		<div className="space-y-2 pr-1">
-			{results.map((result, index) => (
-				<div
-					key={index}
-					className="p-3 bg-gray-50 rounded border border-gray-100 text-sm"
-				>
-					<div className="font-medium text-gray-900 mb-1">
-						{result.type}
-					</div>
-					{result.details && (
-						<div className="text-gray-600 mb-1">{result.details}</div>
-					)}
-					{result.linkText && (
-						<div className="text-gray-600">
-							<span className="font-medium">Text:</span>{" "}
-							{result.linkText}
-						</div>
-					)}
-					{result.targetUrl && (
-						<div className="text-gray-600 break-all">
-							<span className="font-medium">Target:</span>{" "}
-							{result.targetUrl}
-						</div>
-					)}
-					{result.imageFilename && (
-						<div className="text-gray-600 break-all">
-							<span className="font-medium">File:</span>{" "}
-							{result.imageFilename}
-						</div>
-					)}
-				</div>
-			))}
+		<div className="text-gray-600 mb-1">{rule.description}</div>
+		<div className="text-xs text-gray-500 mb-2">
+			{rule.wcag.length > 0
+				? `WCAG ${rule.wcag.join(", ")}`
+				: "City best practice"}
+			{" · "}
+			{rule.id}
 		</div>
+		<ul className="space-y-2">
+			{issues.map((issue, index) => (
+				<IssueDetails key={index} issue={issue} />
+			))}
+		</ul>
 	</div>
 );
 
+const Results = ({ results }: { results: A11yIssue[] }) => {
+	// group issues by rule, most severe rules first
+	const groups = Object.values(A11Y_RULES)
+		.map((rule) => ({ rule, issues: results.filter((issue) => issue.ruleId === rule.id) }))
+		.filter(({ issues }) => issues.length > 0)
+		.sort((a, b) => A11Y_SEVERITY_ORDER.indexOf(a.rule.severity) - A11Y_SEVERITY_ORDER.indexOf(b.rule.severity));
+	const severityCounts = A11Y_SEVERITY_ORDER
+		.map((severity) => ({
+			severity,
+			count: groups
+				.filter(({ rule }) => rule.severity === severity)
+				.reduce((total, { issues }) => total + issues.length, 0),
+		}))
+		.filter(({ count }) => count > 0);
+
+	return (
+		<div className="mt-4 space-y-3">
+			<div className="text-sm text-gray-500 font-medium">
+				Found {results.length} issue{results.length === 1 ? "" : "s"}:
+			</div>
+			<div className="flex flex-wrap gap-2 text-sm">
+				{severityCounts.map(({ severity, count }) => (
+					<span key={severity} className="flex items-center gap-1">
+						<SeverityBadge severity={severity} /> {count}
+					</span>
+				))}
+			</div>
+			<div className="space-y-2 pr-1">
+				{groups.map(({ rule, issues }) => (
+					<RuleGroup key={rule.id} rule={rule} issues={issues} />
+				))}
+			</div>
+		</div>
+	);
+};
+
 export function A11yCheckCard()
 {
-	const [results, setResults] = useState<A11yResult[]>([]);
+	const [results, setResults] = useState<A11yIssue[]>([]);
 	const [isLoading, setIsLoading] = useState(false);
 	const [error, setError] = useState<string | null>(null);
 	const [hasRun, setHasRun] = useState(false);
@@ -100,7 +165,7 @@ export function A11yCheckCard()
 
 			const result = injectionResults[0]?.result;
 			if (result) {
-				setResults(result as A11yResult[]);
+				setResults(result as A11yIssue[]);
 			}
 			setHasRun(true);
 		} catch (err) {
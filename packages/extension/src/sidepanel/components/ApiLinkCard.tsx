@@ -1,12 +1,14 @@
 import { Card } from "./Card";
+import { getApiBaseUrl } from "@/lib/config.ts";
 
 interface ApiLinkCardProps {
 	pageId: number;
+	currentUrl?: string;
 }
 
-export function ApiLinkCard({ pageId }: ApiLinkCardProps)
+export function ApiLinkCard({ pageId, currentUrl }: ApiLinkCardProps)
 {
-	const apiUrl = `https://api.sf.gov/api/v2/pages/${pageId}/`;
+	const apiUrl = `${getApiBaseUrl(currentUrl)}pages/${pageId}/`;
 
 	return (
 		<Card title="API Information">
@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+
+export interface PaletteCommand {
+	id: string;
+	title: string;
+	// extra words to match, e.g. the environment name
+	keywords?: string;
+	run: () => void | Promise<void>;
+}
+
+interface CommandPaletteProps {
+	commands: PaletteCommand[];
+}
+
+/**
+ * Returns true if the user pressed the shortcut that opens the palette,
+ * Ctrl+K or Cmd+K
+ */
+function isPaletteShortcut(event: KeyboardEvent): boolean
+{
+	return (event.ctrlKey || event.metaKey) && !event.shiftKey && !event.altKey && event.key.toLowerCase() === "k";
+}
+
+/**
+ * Keyboard-driven list of side panel actions, opened with Ctrl+K (Cmd+K on
+ * macOS) and filtered by typing
+ */
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ commands }) => {
+	const [isOpen, setIsOpen] = useState<boolean>(false);
+	const [query, setQuery] = useState<string>("");
+	const [selectedIndex, setSelectedIndex] = useState<number>(0);
+	const inputRef = useRef<HTMLInputElement>(null);
+
+	const matches = useMemo(() => {
+		const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+		return commands.filter((command) => {
+			const text = `${command.title} ${command.keywords || ""}`.toLowerCase();
+			return words.every((word) => text.includes(word));
+		});
+	}, [commands, query]);
+
+	useEffect(() => {
+		const onKeyDown = (event: KeyboardEvent) => {
+			if (isPaletteShortcut(event)) {
+				event.preventDefault();
+				setIsOpen((open) => !open);
+			}
+		};
+
+		window.addEventListener("keydown", onKeyDown);
+		return () => window.removeEventListener("keydown", onKeyDown);
+	}, []);
+
+	useEffect(() => {
+		if (isOpen) {
+			setQuery("");
+			setSelectedIndex(0);
+			inputRef.current?.focus();
+		}
+	}, [isOpen]);
+
+	useEffect(() => {
+		setSelectedIndex(0);
+	}, [query]);
+
+	const runCommand = (command: PaletteCommand | undefined) => {
+		if (!command) {
+			return;
+		}
+
+		setIsOpen(false);
+		Promise.resolve(command.run()).catch((error) => {
+			console.error(`Command "${command.title}" failed:`, error);
+		});
+	};
+
+	const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+		if (event.key === "ArrowDown") {
+			event.preventDefault();
+			setSelectedIndex((index) => Math.min(index + 1, matches.length - 1));
+		} else if (event.key === "ArrowUp") {
+			event.preventDefault();
+			setSelectedIndex((index) => Math.max(index - 1, 0));
+		} else if (event.key === "Enter") {
+			event.preventDefault();
+			runCommand(matches[selectedIndex]);
+		} else if (event.key === "Escape") {
+			event.preventDefault();
+			setIsOpen(false);
+		}
+	};
+
+	if (!isOpen) {
+		return null;
+	}
+
+	return (
+		<div
+			className="fixed inset-0 z-50 flex items-start justify-center bg-black/30 p-4 pt-16"
+			onClick={() => setIsOpen(false)}
+		>
+			<div
+				role="dialog"
+				aria-label="Command palette"
+				className="w-full max-w-md bg-white rounded-lg shadow-lg border border-gray-200 overflow-hidden"
+				onClick={(event) => event.stopPropagation()}
+			>
+				<input
+					ref={inputRef}
+					type="text"
+					value={query}
+					onChange={(event) => setQuery(event.target.value)}
+					onKeyDown={handleKeyDown}
+					placeholder="Type a command…"
+					aria-label="Search commands"
+					aria-controls="command-palette-list"
+					aria-activedescendant={matches[selectedIndex] ? `command-${matches[selectedIndex].id}` : undefined}
+					className="w-full px-4 py-3 text-sm border-b border-gray-200 focus:outline-none"
+				/>
+				<ul id="command-palette-list" role="listbox" className="max-h-72 overflow-y-auto py-1">
+					{matches.length === 0 ? (
+						<li className="px-4 py-2 text-sm text-gray-500">No matching commands</li>
+					) : (
+						matches.map((command, index) => (
+							<li
+								key={command.id}
+								id={`command-${command.id}`}
+								role="option"
+								aria-selected={index === selectedIndex}
+								onMouseEnter={() => setSelectedIndex(index)}
+								onClick={() => runCommand(command)}
+								className={`px-4 py-2 text-sm cursor-pointer ${index === selectedIndex ? "bg-sfgov-blue text-white" : "text-gray-900"}`}
+							>
+								{command.title}
+							</li>
+						))
+					)}
+				</ul>
+			</div>
+		</div>
+	);
+};
@@ -0,0 +1,117 @@
+import React, { useMemo } from "react";
+import type { MediaAsset, PageLink, Translation, WagtailPage } from "@sf-gov/shared";
+import { Card } from "@/sidepanel/components/Card.tsx";
+import { type Change, type ChangeKind, countChanges, diffPages } from "@/lib/page-diff.ts";
+
+interface DraftChangesCardProps {
+	livePage: WagtailPage;
+	draftPage: WagtailPage;
+}
+
+const KIND_LABELS: Record<ChangeKind, string> = {
+	added: "Added",
+	removed: "Removed",
+	changed: "Changed",
+};
+
+const KIND_CLASSES: Record<ChangeKind, string> = {
+	added: "bg-green-100 text-green-800",
+	removed: "bg-red-100 text-red-800",
+	changed: "bg-amber-100 text-amber-800",
+};
+
+const KindBadge = ({ kind }: { kind: ChangeKind }) => (
+	<span className={`inline-block shrink-0 px-2 py-0.5 text-xs font-medium rounded ${KIND_CLASSES[kind]}`}>
+		{KIND_LABELS[kind]}
+	</span>
+);
+
+interface ChangeListProps<T> {
+	heading: string;
+	changes: Change<T>[];
+	renderValue: (value: T) => React.ReactNode;
+}
+
+function ChangeList<T>({ heading, changes, renderValue }: ChangeListProps<T>)
+{
+	if (changes.length === 0) {
+		return null;
+	}
+
+	return (
+		<div>
+			<h3 className="text-sm font-semibold text-gray-700 mb-2">{heading}</h3>
+			<ul className="space-y-2">
+				{changes.map((change, index) => (
+					<li key={index} className="flex items-start gap-2 text-sm">
+						<KindBadge kind={change.kind} />
+						<div className="min-w-0 flex-1 break-words">
+							{change.kind === "changed" ? (
+								<>
+									<div className="text-gray-500 line-through">{renderValue(change.before!)}</div>
+									<div className="text-gray-900">{renderValue(change.after!)}</div>
+								</>
+							) : (
+								<div className={change.kind === "removed" ? "text-gray-500 line-through" : "text-gray-900"}>
+									{renderValue((change.after ?? change.before)!)}
+								</div>
+							)}
+						</div>
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+}
+
+const renderText = (text: string) => text;
+
+const renderAsset = (asset: MediaAsset) => asset.title || asset.filename || asset.url;
+
+const renderLink = (link: PageLink) => (
+	<>
+		{link.text || <span className="italic">No link text</span>}
+		<span className="block text-xs text-gray-500 break-all">{link.url}</span>
+	</>
+);
+
+const renderTranslation = (translation: Translation) => (
+	<>
+		{translation.language}
+		<span className="block text-xs text-gray-500 break-all">/{translation.slug}</span>
+	</>
+);
+
+export const DraftChangesCard: React.FC<DraftChangesCardProps> = ({
+	livePage,
+	draftPage
+}) => {
+	const diff = useMemo(() => diffPages(livePage, draftPage), [livePage, draftPage]);
+	const changeCount = countChanges(diff);
+
+	return (
+		<Card
+			title="Draft Changes"
+			subtitle={changeCount === 0
+				? "The draft matches the live page"
+				: `${changeCount} change${changeCount === 1 ? "" : "s"} from the live page`}
+			collapsible
+		>
+			{changeCount === 0 ? (
+				<p className="text-sm text-gray-500 italic">No changes to publish</p>
+			) : (
+				<div className="space-y-4">
+					<ChangeList heading="Title" changes={diff.title ? [diff.title] : []} renderValue={renderText} />
+					<ChangeList heading="Body Text" changes={diff.textBlocks} renderValue={renderText} />
+					<ChangeList heading="Links" changes={diff.links} renderValue={renderLink} />
+					<ChangeList heading="Images" changes={diff.images} renderValue={renderAsset} />
+					<ChangeList heading="Files" changes={diff.files} renderValue={renderAsset} />
+					<ChangeList heading="Translations" changes={diff.translations} renderValue={renderTranslation} />
+				</div>
+			)}
+			<p className="mt-4 text-xs text-gray-500">
+				Translations are compared by language and slug only. Their content isn't compared, since they're separate pages and the API only returns their live versions.
+			</p>
+		</Card>
+	);
+};
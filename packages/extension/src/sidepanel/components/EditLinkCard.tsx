@@ -2,12 +2,10 @@ import React from "react";
 import { EditIcon } from "@/sidepanel/components/EditIcon.tsx";
 
 interface EditLinkCardProps {
-	pageId: number;
+	editUrl: string;
 }
 
-export const EditLinkCard: React.FC<EditLinkCardProps> = ({ pageId }) => {
-	const editUrl = `https://api.sf.gov/admin/pages/${pageId}/edit/`;
-
+export const EditLinkCard: React.FC<EditLinkCardProps> = ({ editUrl }) => {
 	return (
 		<a
 			href={editUrl}
@@ -1,11 +1,21 @@
 import React, { useState, useEffect, useRef } from "react";
-import type { FeedbackRecord, FeedbackStats, AirtableApiError } from "@sf-gov/shared";
+import type {
+	AirtableApiError,
+	FeedbackPagination,
+	FeedbackQuery,
+	FeedbackRecord,
+	FeedbackStats,
+	FeedbackTrends,
+} from "@sf-gov/shared";
 import { getFeedback, clearCache } from "@/api/airtable-client";
 import { Button } from "@/sidepanel/components/Button.tsx";
 import { Card } from "@/sidepanel/components/Card.tsx";
+import { FeedbackTrendsChart } from "@/sidepanel/components/FeedbackTrendsChart.tsx";
 
 interface FeedbackCardProps {
 	pagePath: string;
+	// incremented to reload the feedback, e.g. from the command palette
+	refreshKey?: number;
 }
 
 interface FeedbackItemProps {
@@ -91,53 +101,205 @@ const FeedbackItem: React.FC<FeedbackItemProps> = ({ record }) => {
 	);
 };
 
+type FeedbackFilters = Pick<FeedbackQuery, "wasHelpful" | "issueCategory" | "from" | "to" | "search">;
+
+interface FeedbackFiltersBarProps {
+	filters: FeedbackFilters;
+	searchInput: string;
+	issueCategories: string[];
+	onChange: (filters: FeedbackFilters) => void;
+	onSearchInputChange: (search: string) => void;
+}
+
+const INPUT_CLASSES = "w-full rounded-sm border border-gray-300 bg-white px-2 py-1 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-sfgov-blue";
+
+const FeedbackFiltersBar: React.FC<FeedbackFiltersBarProps> = ({
+	filters,
+	searchInput,
+	issueCategories,
+	onChange,
+	onSearchInputChange,
+}) => {
+	const hasFilters = Object.values(filters).some(Boolean) || searchInput !== "";
+
+	return (
+		<div className="space-y-2 text-sm">
+			<input
+				type="search"
+				placeholder="Search comments"
+				value={searchInput}
+				onChange={(event) => onSearchInputChange(event.target.value)}
+				className={INPUT_CLASSES}
+			/>
+			<div className="grid grid-cols-2 gap-2">
+				<select
+					aria-label="Rating"
+					value={filters.wasHelpful || ""}
+					onChange={(event) => onChange({
+						...filters,
+						wasHelpful: (event.target.value || undefined) as FeedbackFilters["wasHelpful"],
+					})}
+					className={INPUT_CLASSES}
+				>
+					<option value="">All ratings</option>
+					<option value="yes">Helpful</option>
+					<option value="no">Not helpful</option>
+				</select>
+				<select
+					aria-label="Issue"
+					value={filters.issueCategory || ""}
+					onChange={(event) => onChange({ ...filters, issueCategory: event.target.value || undefined })}
+					className={INPUT_CLASSES}
+					disabled={issueCategories.length === 0}
+				>
+					<option value="">All issues</option>
+					{issueCategories.map((category) => (
+						<option key={category} value={category}>{category}</option>
+					))}
+				</select>
+				<label className="text-xs text-gray-500">
+					From
+					<input
+						type="date"
+						value={filters.from || ""}
+						max={filters.to}
+						onChange={(event) => onChange({ ...filters, from: event.target.value || undefined })}
+						className={INPUT_CLASSES}
+					/>
+				</label>
+				<label className="text-xs text-gray-500">
+					To
+					<input
+						type="date"
+						value={filters.to || ""}
+						min={filters.from}
+						onChange={(event) => onChange({ ...filters, to: event.target.value || undefined })}
+						className={INPUT_CLASSES}
+					/>
+				</label>
+			</div>
+			{hasFilters && (
+				<button
+					onClick={() => {
+						onSearchInputChange("");
+						onChange({});
+					}}
+					className="text-xs text-sfgov-blue hover:underline cursor-pointer"
+				>
+					Clear filters
+				</button>
+			)}
+		</div>
+	);
+};
+
 const CARD_TITLE = "User Feedback";
+const PAGE_SIZE = 10;
+const SEARCH_DEBOUNCE_MS = 400;
 
-export const FeedbackCard: React.FC<FeedbackCardProps> = ({ pagePath }) => {
+export const FeedbackCard: React.FC<FeedbackCardProps> = ({ pagePath, refreshKey = 0 }) => {
 	const [feedback, setFeedback] = useState<FeedbackRecord[]>([]);
 	const [stats, setStats] = useState<FeedbackStats | null>(null);
+	const [trends, setTrends] = useState<FeedbackTrends | null>(null);
+	const [pagination, setPagination] = useState<FeedbackPagination | null>(null);
+	const [filters, setFilters] = useState<FeedbackFilters>({});
+	const [searchInput, setSearchInput] = useState<string>("");
 	const [error, setError] = useState<AirtableApiError | null>(null);
 	const [isLoading, setIsLoading] = useState<boolean>(false);
+	const [isLoadingRecords, setIsLoadingRecords] = useState<boolean>(false);
 	const [isExpanded, setIsExpanded] = useState<boolean>(() => {
 		return localStorage.getItem(`card_${CARD_TITLE.replace(/\s+/g, "_")}_expanded`) === "true";
 	});
-	const [showAll, setShowAll] = useState<boolean>(false);
 	const hasFetchedRef = useRef<string | null>(null);
-	const INITIAL_DISPLAY_COUNT = 5;
+	// ignores responses to requests that were superseded by newer filters
+	const latestRequestRef = useRef(0);
 
 	// fetch feedback when expanded and pagePath changes (or first expansion)
 	useEffect(() => {
 		if (isExpanded && hasFetchedRef.current !== pagePath) {
 			hasFetchedRef.current = pagePath;
-			loadFeedback();
+			setFilters({});
+			setSearchInput("");
+			loadFeedback({ page: 1, pageSize: PAGE_SIZE }, true);
 		}
 	}, [isExpanded, pagePath]);
 
+	// apply the search once the user stops typing.  The filters are a
+	// dependency so one chosen while the search is pending isn't overwritten.
+	useEffect(() => {
+		const search = searchInput.trim() || undefined;
+
+		if (search === filters.search) {
+			return;
+		}
+
+		const timeoutId = setTimeout(() => applyFilters({ ...filters, search }), SEARCH_DEBOUNCE_MS);
+		return () => clearTimeout(timeoutId);
+	}, [searchInput, filters]);
+
+	// reload when asked to, or refetch on the next expand if the card is closed
+	useEffect(() => {
+		if (refreshKey === 0) {
+			return;
+		}
+
+		if (isExpanded) {
+			handleRetry();
+		} else {
+			clearCache(pagePath);
+			hasFetchedRef.current = null;
+		}
+	}, [refreshKey]);
+
 	const handleExpandedChange = (expanded: boolean) => {
 		setIsExpanded(expanded);
 	};
 
-	const loadFeedback = async () => {
-		setIsLoading(true);
+	const loadFeedback = async (query: FeedbackQuery, isInitialLoad = false) => {
+		const requestId = ++latestRequestRef.current;
+
+		if (isInitialLoad) {
+			setIsLoading(true);
+		} else {
+			setIsLoadingRecords(true);
+		}
 		setError(null);
 
 		try {
 			// fetch feedback via proxy (uses Wagtail session cookie)
-			const { records, stats: statistics } = await getFeedback(pagePath);
-			setFeedback(records);
-			setStats(statistics);
+			const response = await getFeedback(pagePath, query);
+			if (requestId !== latestRequestRef.current) {
+				return;
+			}
+			setFeedback(response.records);
+			setStats(response.stats);
+			setTrends(response.trends);
+			setPagination(response.pagination);
 		} catch (err) {
-			setError(err as AirtableApiError);
+			if (requestId === latestRequestRef.current) {
+				setError(err as AirtableApiError);
+			}
 		} finally {
-			setIsLoading(false);
+			if (requestId === latestRequestRef.current) {
+				setIsLoading(false);
+				setIsLoadingRecords(false);
+			}
 		}
 	};
 
+	const applyFilters = (nextFilters: FeedbackFilters) => {
+		setFilters(nextFilters);
+		loadFeedback({ ...nextFilters, page: 1, pageSize: PAGE_SIZE });
+	};
+
+	const goToPage = (page: number) => {
+		loadFeedback({ ...filters, page, pageSize: PAGE_SIZE });
+	};
+
 	const handleRetry = () => {
 		// clear cache and refetch
 		clearCache(pagePath);
-		hasFetchedRef.current = null;
-		loadFeedback();
+		loadFeedback({ ...filters, page: pagination?.page || 1, pageSize: PAGE_SIZE }, !stats);
 	};
 
 	const renderContent = () => {
@@ -196,20 +358,54 @@ export const FeedbackCard: React.FC<FeedbackCardProps> = ({ pagePath }) => {
 					</div>
 				</div>
 
-				{feedback.length === 0 ? (
+				{trends && <FeedbackTrendsChart trends={trends} />}
+
+				<FeedbackFiltersBar
+					filters={filters}
+					searchInput={searchInput}
+					issueCategories={trends?.issueCategories.map(({ category }) => category) || []}
+					onChange={applyFilters}
+					onSearchInputChange={setSearchInput}
+				/>
+
+				{isLoadingRecords ? (
+					<div className="text-sm text-gray-500">Loading comments...</div>
+				) : feedback.length === 0 || !pagination ? (
 					<div className="text-sm text-gray-500 italic">
-						No detailed feedback comments available.
+						{Object.values(filters).some(Boolean)
+							? "No comments match these filters."
+							: "No detailed feedback comments available."}
 					</div>
 				) : (
 					<>
-						{(showAll ? feedback : feedback.slice(0, INITIAL_DISPLAY_COUNT)).map((record) => (
+						<div className="text-xs text-gray-500">
+							Showing {(pagination.page - 1) * pagination.pageSize + 1}–{(pagination.page - 1) * pagination.pageSize + feedback.length} of {pagination.totalRecords} comment{pagination.totalRecords === 1 ? "" : "s"}
+						</div>
+
+						{feedback.map((record) => (
 							<FeedbackItem key={record.id} record={record} />
 						))}
 
-						{!showAll && feedback.length > INITIAL_DISPLAY_COUNT && (
-							<Button onClick={() => setShowAll(true)}>
-								Show {feedback.length - INITIAL_DISPLAY_COUNT} more
-							</Button>
+						{pagination.totalPages > 1 && (
+							<div className="flex items-center justify-between">
+								<Button
+									onClick={() => goToPage(pagination.page - 1)}
+									disabled={pagination.page <= 1}
+									className="disabled:opacity-50 disabled:cursor-default"
+								>
+									Previous
+								</Button>
+								<span className="text-xs text-gray-500">
+									Page {pagination.page} of {pagination.totalPages}
+								</span>
+								<Button
+									onClick={() => goToPage(pagination.page + 1)}
+									disabled={pagination.page >= pagination.totalPages}
+									className="disabled:opacity-50 disabled:cursor-default"
+								>
+									Next
+								</Button>
+							</div>
 						)}
 					</>
 				)}
@@ -0,0 +1,112 @@
+import React, { useState } from "react";
+import type { FeedbackTrendPoint, FeedbackTrends } from "@sf-gov/shared";
+
+interface FeedbackTrendsChartProps {
+	trends: FeedbackTrends;
+}
+
+type Interval = "weekly" | "monthly";
+
+// number of most recent weeks or months to chart
+const MAX_PERIODS = 12;
+const CHART_HEIGHT = 96;
+
+const formatPeriod = (period: string, interval: Interval): string => {
+	// periods are UTC dates, so format them in UTC to keep the same day
+	const date = new Date(interval === "weekly" ? period : `${period}-01`);
+	return date.toLocaleDateString("en-US", interval === "weekly"
+		? { month: "numeric", day: "numeric", timeZone: "UTC" }
+		: { month: "short", timeZone: "UTC" });
+};
+
+const describePoint = (point: FeedbackTrendPoint, interval: Interval): string => {
+	const label = interval === "weekly" ? `Week of ${point.period}` : point.period;
+	const percent = point.total > 0 ? Math.round((point.helpful / point.total) * 100) : 0;
+	return `${label}: ${point.helpful} helpful, ${point.notHelpful} not helpful (${percent}% helpful)`;
+};
+
+const IntervalButton = ({ label, isActive, onClick }: { label: string; isActive: boolean; onClick: () => void }) => (
+	<button
+		onClick={onClick}
+		className={`px-2 py-0.5 text-xs rounded cursor-pointer ${isActive
+			? "bg-sfgov-blue text-white"
+			: "text-gray-600 hover:bg-gray-100"
+			}`}
+	>
+		{label}
+	</button>
+);
+
+export const FeedbackTrendsChart: React.FC<FeedbackTrendsChartProps> = ({ trends }) => {
+	const [interval, setSelectedInterval] = useState<Interval>("monthly");
+	const points = trends[interval].slice(-MAX_PERIODS);
+	const maxTotal = Math.max(1, ...points.map((point) => point.total));
+	const maxCategoryCount = Math.max(1, ...trends.issueCategories.map(({ count }) => count));
+
+	if (points.length === 0) {
+		return null;
+	}
+
+	return (
+		<div className="space-y-4 mb-6">
+			<div>
+				<div className="flex items-center justify-between mb-2">
+					<h3 className="text-sm font-semibold text-gray-700">Votes over time</h3>
+					<div className="flex gap-1">
+						<IntervalButton label="Weekly" isActive={interval === "weekly"} onClick={() => setSelectedInterval("weekly")} />
+						<IntervalButton label="Monthly" isActive={interval === "monthly"} onClick={() => setSelectedInterval("monthly")} />
+					</div>
+				</div>
+
+				<div className="flex items-end gap-1" style={{ height: CHART_HEIGHT }}>
+					{points.map((point) => (
+						<div
+							key={point.period}
+							title={describePoint(point, interval)}
+							className="flex-1 flex flex-col justify-end bg-gray-100 rounded-t overflow-hidden"
+							style={{ height: `${(point.total / maxTotal) * 100}%` }}
+						>
+							<div className="bg-orange-300" style={{ height: `${(point.notHelpful / point.total) * 100}%` }} />
+							<div className="bg-green-400" style={{ height: `${(point.helpful / point.total) * 100}%` }} />
+						</div>
+					))}
+				</div>
+				<div className="flex gap-1 mt-1">
+					{points.map((point) => (
+						<div key={point.period} className="flex-1 text-center text-[10px] text-gray-500 truncate">
+							{formatPeriod(point.period, interval)}
+						</div>
+					))}
+				</div>
+
+				<div className="flex gap-4 mt-2 text-xs text-gray-500">
+					<span className="flex items-center gap-1"><span className="w-2 h-2 bg-green-400 rounded-sm" /> Helpful</span>
+					<span className="flex items-center gap-1"><span className="w-2 h-2 bg-orange-300 rounded-sm" /> Not helpful</span>
+					<span className="flex items-center gap-1"><span className="w-2 h-2 bg-gray-100 rounded-sm" /> No vote</span>
+				</div>
+			</div>
+
+			{trends.issueCategories.length > 0 && (
+				<div>
+					<h3 className="text-sm font-semibold text-gray-700 mb-2">What was wrong</h3>
+					<ul className="space-y-1">
+						{trends.issueCategories.map(({ category, count }) => (
+							<li key={category} className="text-xs">
+								<div className="flex justify-between text-gray-700">
+									<span className="truncate">{category}</span>
+									<span className="ml-2 text-gray-500">{count}</span>
+								</div>
+								<div className="h-1.5 mt-0.5 bg-gray-100 rounded">
+									<div
+										className="h-full bg-orange-300 rounded"
+										style={{ width: `${(count / maxCategoryCount) * 100}%` }}
+									/>
+								</div>
+							</li>
+						))}
+					</ul>
+				</div>
+			)}
+		</div>
+	);
+};
@@ -2,6 +2,7 @@ import React from "react";
 import { Card } from "./Card";
 import { OpenIcon } from "./OpenIcon";
 import type { FormConfirmation } from "@sf-gov/shared";
+import { getFormSubmittedUrl } from "@/lib/urlUtils.ts";
 
 interface FormConfirmationCardProps {
 	formConfirmation: FormConfirmation;
@@ -12,18 +13,8 @@ export const FormConfirmationCard: React.FC<FormConfirmationCardProps> = ({
 	formConfirmation,
 	currentUrl
 }) => {
-	const getSubmittedUrl = () => {
-		try {
-			const url = new URL(currentUrl);
-			url.searchParams.set("submitted", "true");
-			return url.toString();
-		} catch {
-			return currentUrl + "?submitted=true";
-		}
-	};
-
 	const handleOpenConfirmation = () => {
-		window.open(getSubmittedUrl(), "_blank");
+		window.open(getFormSubmittedUrl(currentUrl), "_blank");
 	};
 
 	return (
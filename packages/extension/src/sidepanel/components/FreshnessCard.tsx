@@ -0,0 +1,95 @@
+import React from "react";
+import { Card } from "./Card";
+import type { WagtailPage } from "@sf-gov/shared";
+import { getAdminBaseUrl } from "@/lib/config.ts";
+import { getPageFreshness, type FreshnessStatus } from "@/lib/content-freshness.ts";
+
+interface FreshnessCardProps {
+	page: WagtailPage;
+	currentUrl: string;
+}
+
+const STATUS_LABELS: Record<FreshnessStatus, string> = {
+	current: "Up to date",
+	due_soon: "Review due soon",
+	overdue: "Review overdue",
+	unknown: "Never published",
+};
+
+const STATUS_CLASSES: Record<FreshnessStatus, string> = {
+	current: "bg-green-100 text-green-800",
+	due_soon: "bg-amber-100 text-amber-800",
+	overdue: "bg-red-100 text-red-800",
+	unknown: "bg-gray-100 text-gray-700",
+};
+
+function formatDate(date: Date | null): string
+{
+	return date
+		? date.toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" })
+		: "–";
+}
+
+/**
+ * Describes how far away the review date is, e.g. "in 20 days" or "45 days ago"
+ */
+function formatDaysUntil(days: number): string
+{
+	const count = Math.abs(days);
+	const amount = `${count} day${count === 1 ? "" : "s"}`;
+
+	if (days === 0) {
+		return "today";
+	}
+
+	return days > 0 ? `in ${amount}` : `${amount} ago`;
+}
+
+/**
+ * When the page was published, and when it's due for review based on the
+ * interval set for its content type in the options
+ */
+export const FreshnessCard: React.FC<FreshnessCardProps> = ({ page, currentUrl }) => {
+	const freshness = getPageFreshness(page);
+	const historyUrl = `${getAdminBaseUrl(currentUrl)}pages/${page.id}/history/`;
+
+	return (
+		<Card title="Content Freshness" subtitle={`Reviewed every ${freshness.reviewIntervalMonths} months`}>
+			<div className="mb-3">
+				<span className={`inline-block rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_CLASSES[freshness.status]}`}>
+					{STATUS_LABELS[freshness.status]}
+				</span>
+			</div>
+			<div className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2">
+				<div className="text-sm text-gray-600">First published:</div>
+				<div className="text-sm font-medium text-gray-900">{formatDate(freshness.firstPublishedAt)}</div>
+
+				<div className="text-sm text-gray-600">Last published:</div>
+				<div className="text-sm font-medium text-gray-900">{formatDate(freshness.lastPublishedAt)}</div>
+
+				<div className="text-sm text-gray-600">Review due:</div>
+				<div className="text-sm font-medium text-gray-900">
+					{formatDate(freshness.reviewDueAt)}
+					{freshness.daysUntilDue !== null && (
+						<span className="ml-1 font-normal text-gray-600">({formatDaysUntil(freshness.daysUntilDue)})</span>
+					)}
+				</div>
+			</div>
+			<div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-sm">
+				<a href={historyUrl} target="_blank" rel="noopener noreferrer" title="See every revision of this page on Karl">
+					Publish history
+				</a>
+				{page.primaryAgency && (
+					<a
+						href={chrome.runtime.getURL(`src/dashboard/index.html?agencyId=${page.primaryAgency.id}#content-review`)}
+						target="_blank"
+						rel="noopener noreferrer"
+						title="See the agency's pages that have gone longest without an update"
+					>
+						Agency's stalest pages
+					</a>
+				)}
+			</div>
+		</Card>
+	);
+};
@@ -1,14 +1,24 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { extractContentLinks, type LinkInfo } from "../../lib/link-check";
+import { subscribeToLinkCheckRequests, takeLinkCheckRequest } from "../../lib/link-check-request";
 import { LinkCheckClient } from "../../api/link-check-client";
 import { Button } from "./Button";
 import { Card } from "./Card";
+import { LocateButton } from "./LocateButton";
 import {
 	type LinkCheckResult,
 	getCachedResults,
 	setCachedResults,
 	clearLinkCheckerCache,
-} from "../lib/link-checker-cache";
+} from "../../lib/link-checker-cache";
+import {
+	type LinkCheckComparison,
+	formatElapsed,
+	getLinkCheckHistory,
+	isBrokenResult,
+	recordLinkCheck,
+} from "../../lib/link-check-history";
+import { buildExportRows, downloadFile, toCsv, toJson } from "../lib/link-check-export";
 
 const SpinnerIcon = () => (
 	<svg
@@ -52,7 +62,7 @@ const ProgressBar = ({ checked, total }: { checked: number; total: number }) =>
 	);
 };
 
-const IssueItem = ({ result }: { result: LinkCheckResult }) => (
+const IssueItem = ({ result, brokenSince }: { result: LinkCheckResult; brokenSince?: number }) => (
 	<div className="p-3 bg-gray-50 rounded border border-gray-100 text-sm">
 		<div className="font-medium text-gray-900 mb-1 flex items-center gap-2">
 			<span className={
@@ -93,11 +103,54 @@ const IssueItem = ({ result }: { result: LinkCheckResult }) => (
 		{result.error && (
 			<div className="text-gray-500 text-xs mt-1">{result.error}</div>
 		)}
+		{brokenSince && (
+			<div className="text-gray-500 text-xs mt-1">Broken for {formatElapsed(brokenSince)}</div>
+		)}
+		{result.selector && <LocateButton selector={result.selector} />}
 	</div>
 );
 
-const Results = ({ results, totalChecked }: { results: LinkCheckResult[]; totalChecked: number }) => {
-	const brokenLinks = results.filter(r => r.status === "broken" || r.status === "timeout" || r.status === "error");
+const ChangesSinceLastCheck = ({ comparison }: { comparison: LinkCheckComparison }) => {
+	const { previousCheckedAt, newlyBroken, fixed } = comparison;
+
+	if (!previousCheckedAt) {
+		return null;
+	}
+
+	return (
+		<div className="mt-4 space-y-2 text-sm">
+			<div className="text-gray-500 font-medium">
+				Since the last check {formatElapsed(previousCheckedAt)} ago:
+			</div>
+			{newlyBroken.length === 0 && fixed.length === 0 && (
+				<div className="text-gray-600">No links broke or were fixed.</div>
+			)}
+			{newlyBroken.length > 0 && (
+				<div className="p-3 bg-red-50 text-red-700 rounded border border-red-100">
+					<div className="font-medium mb-1">
+						{newlyBroken.length} newly broken link{newlyBroken.length === 1 ? "" : "s"}
+					</div>
+					<ul className="space-y-1 break-all">
+						{newlyBroken.map((result) => <li key={result.url}>{result.url}</li>)}
+					</ul>
+				</div>
+			)}
+			{fixed.length > 0 && (
+				<div className="p-3 bg-green-50 text-green-700 rounded border border-green-100">
+					<div className="font-medium mb-1">
+						{fixed.length} link{fixed.length === 1 ? "" : "s"} fixed
+					</div>
+					<ul className="space-y-1 break-all">
+						{fixed.map((result) => <li key={result.url}>{result.url}</li>)}
+					</ul>
+				</div>
+			)}
+		</div>
+	);
+};
+
+const Results = ({ results, totalChecked, brokenSince }: { results: LinkCheckResult[]; totalChecked: number; brokenSince: Record<string, number> }) => {
+	const brokenLinks = results.filter(isBrokenResult);
 	const warningLinks = results.filter(r => r.status === "warning");
 	const insecureLinks = results.filter(r => r.status === "insecure");
 	const redirectLinks = results.filter(r => r.status === "redirect");
@@ -111,7 +164,7 @@ const Results = ({ results, totalChecked }: { results: LinkCheckResult[]; totalC
 			{brokenLinks.length > 0 && (
 				<div className="space-y-2 pr-1">
 					{brokenLinks.map((result, index) => (
-						<IssueItem key={index} result={result} />
+						<IssueItem key={index} result={result} brokenSince={brokenSince[result.url]} />
 					))}
 				</div>
 			)}
@@ -156,9 +209,11 @@ const Results = ({ results, totalChecked }: { results: LinkCheckResult[]; totalC
 
 interface LinkCheckerCardProps {
 	pageUrl: string;
+	pageId: number;
+	editUrl: string;
 }
 
-export function LinkCheckerCard({ pageUrl }: LinkCheckerCardProps)
+export function LinkCheckerCard({ pageUrl, pageId, editUrl }: LinkCheckerCardProps)
 {
 	const [results, setResults] = useState<LinkCheckResult[]>([]);
 	const [isLoading, setIsLoading] = useState(false);
@@ -166,18 +221,52 @@ export function LinkCheckerCard({ pageUrl }: LinkCheckerCardProps)
 	const [hasRun, setHasRun] = useState(false);
 	const [progress, setProgress] = useState({ checked: 0, total: 0 });
 	const [linkCheckClient] = useState(() => new LinkCheckClient());
+	const [lastCheckedAt, setLastCheckedAt] = useState<number | null>(null);
+	const [brokenSince, setBrokenSince] = useState<Record<string, number>>({});
+	const [comparison, setComparison] = useState<LinkCheckComparison | null>(null);
+	const resultsRef = useRef<LinkCheckResult[]>([]);
+	const runCheckRef = useRef<() => void>(() => {});
 
-	// restore cached results when pageUrl changes
+	// restore cached results when pageUrl changes, falling back to the last
+	// check stored from a previous session
 	useEffect(() => {
-		const cached = getCachedResults(pageUrl);
-		if (cached) {
-			setResults(cached);
-			setHasRun(true);
-		} else {
-			setResults([]);
-			setHasRun(false);
-		}
+		let isCurrent = true;
+
+		resultsRef.current = [];
+		setResults([]);
+		setHasRun(false);
 		setError(null);
+		setComparison(null);
+		setLastCheckedAt(null);
+		setBrokenSince({});
+
+		Promise.all([getCachedResults(pageUrl), getLinkCheckHistory(pageUrl)]).then(([cached, history]) => {
+			// a check may have started while these were loading
+			if (!isCurrent || resultsRef.current.length > 0) {
+				return;
+			}
+
+			if (cached) {
+				setResults(cached);
+				setHasRun(true);
+			}
+
+			if (!history) {
+				return;
+			}
+
+			setLastCheckedAt(history.checkedAt);
+			setBrokenSince(history.brokenSince);
+
+			if (!cached) {
+				setResults(history.results);
+				setHasRun(true);
+			}
+		});
+
+		return () => {
+			isCurrent = false;
+		};
 	}, [pageUrl]);
 
 	// cleanup on unmount
@@ -189,12 +278,14 @@ export function LinkCheckerCard({ pageUrl }: LinkCheckerCardProps)
 
 	const handleRunCheck = async () => {
 		console.log("LinkCheckerCard: handleRunCheck called");
-		clearLinkCheckerCache(pageUrl);
+		void clearLinkCheckerCache(pageUrl);
 		setIsLoading(true);
 		setError(null);
 		setResults([]);
 		setHasRun(false);
+		setComparison(null);
 		setProgress({ checked: 0, total: 0 });
+		resultsRef.current = [];
 
 		try {
 			const [tab] = await chrome.tabs.query({
@@ -216,13 +307,14 @@ export function LinkCheckerCard({ pageUrl }: LinkCheckerCardProps)
 			if (!links || links.length === 0) {
 				setHasRun(true);
 				setIsLoading(false);
+				setLastCheckedAt(Date.now());
 				return;
 			}
 
-			// create a map of URL to link text for later reference
-			const linkTextMap = new Map<string, string>();
+			// create a map of URL to link details for later reference
+			const linkInfoMap = new Map<string, LinkInfo>();
 			links.forEach(link => {
-				linkTextMap.set(link.url, link.text);
+				linkInfoMap.set(link.url, link);
 			});
 
 			setProgress({ checked: 0, total: links.length });
@@ -233,24 +325,32 @@ export function LinkCheckerCard({ pageUrl }: LinkCheckerCardProps)
 				urls: links.map(l => l.url),
 				pageUrl,
 				onResult: (result) => {
-					// add link text to result
+					// add link text and location to result
+					const linkInfo = linkInfoMap.get(result.url);
 					const linkResult: LinkCheckResult = {
 						...result,
-						text: linkTextMap.get(result.url) || "",
+						text: linkInfo?.text || "",
+						selector: linkInfo?.selector,
 					};
 					
 					// update results incrementally
-					setResults(prev => [...prev, linkResult]);
+					resultsRef.current = [...resultsRef.current, linkResult];
+					setResults(resultsRef.current);
 					setProgress(prev => ({ ...prev, checked: prev.checked + 1 }));
 				},
-				onComplete: () => {
+				onComplete: async () => {
+					const finalResults = resultsRef.current;
+
 					setHasRun(true);
 					setIsLoading(false);
 					// cache results after completion
-					setResults(currentResults => {
-						setCachedResults(pageUrl, currentResults);
-						return currentResults;
-					});
+					void setCachedResults(pageUrl, finalResults);
+
+					// store the results and compare them with the previous check
+					const changes = await recordLinkCheck(pageUrl, finalResults);
+					setComparison(changes);
+					setBrokenSince(changes.brokenSince);
+					setLastCheckedAt(Date.now());
 				},
 				onError: (errorMessage) => {
 					setError(errorMessage);
@@ -264,7 +364,35 @@ export function LinkCheckerCard({ pageUrl }: LinkCheckerCardProps)
 		}
 	};
 
-	const brokenCount = results.filter(r => r.status === "broken" || r.status === "timeout" || r.status === "error").length;
+	runCheckRef.current = handleRunCheck;
+
+	// run a check requested from the context menu, either before the panel
+	// opened or while it's showing this page
+	useEffect(() => {
+		const runIfRequested = () => {
+			takeLinkCheckRequest(pageUrl).then((isRequested) => {
+				if (isRequested) {
+					runCheckRef.current();
+				}
+			});
+		};
+
+		runIfRequested();
+		return subscribeToLinkCheckRequests(runIfRequested);
+	}, [pageUrl]);
+
+	const handleExport = (format: "csv" | "json") => {
+		const rows = buildExportRows(results, { pageUrl, pageId, editUrl });
+		const filename = `link-check-page-${pageId}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+		if (format === "csv") {
+			downloadFile(toCsv(rows), filename, "text/csv");
+		} else {
+			downloadFile(toJson(rows), filename, "application/json");
+		}
+	};
+
+	const brokenCount = results.filter(isBrokenResult).length;
 	const warningCount = results.filter(r => r.status === "warning").length;
 	const insecureCount = results.filter(r => r.status === "insecure").length;
 	const issueCount = brokenCount + warningCount + insecureCount;
@@ -289,6 +417,14 @@ export function LinkCheckerCard({ pageUrl }: LinkCheckerCardProps)
 				<ProgressBar checked={progress.checked} total={progress.total} />
 			)}
 
+			{!isLoading && lastCheckedAt && (
+				<div className="mt-2 text-xs text-gray-500">
+					Last checked {formatElapsed(lastCheckedAt)} ago
+				</div>
+			)}
+
+			{!isLoading && comparison && <ChangesSinceLastCheck comparison={comparison} />}
+
 			{hasRun && results.length === 0 && !error && (
 				<div className="mt-4 p-3 bg-gray-50 text-gray-600 text-sm rounded border border-gray-100">
 					No links found in the main content area.
@@ -302,7 +438,25 @@ export function LinkCheckerCard({ pageUrl }: LinkCheckerCardProps)
 			)}
 
 			{results.length > 0 && issueCount > 0 && (
-				<Results results={results} totalChecked={results.length} />
+				<Results results={results} totalChecked={results.length} brokenSince={brokenSince} />
+			)}
+
+			{!isLoading && results.length > 0 && (
+				<div className="mt-4 flex gap-3 text-sm">
+					<span className="text-gray-500">Export:</span>
+					<button
+						onClick={() => handleExport("csv")}
+						className="text-sfgov-blue hover:underline cursor-pointer"
+					>
+						CSV
+					</button>
+					<button
+						onClick={() => handleExport("json")}
+						className="text-sfgov-blue hover:underline cursor-pointer"
+					>
+						JSON
+					</button>
+				</div>
 			)}
 		</Card>
 	);
@@ -0,0 +1,33 @@
+import { useState } from "react";
+import { highlightElement, type HighlightStatus } from "@/lib/highlight.ts";
+
+const STATUS_MESSAGES: Record<Exclude<HighlightStatus, "found">, string> = {
+	not_found: "This element is no longer on the page. Run the check again.",
+	unavailable: "Reload the page to show elements on it.",
+};
+
+/**
+ * Scrolls to and outlines an element in the current tab
+ */
+export function LocateButton({ selector }: { selector: string })
+{
+	const [status, setStatus] = useState<HighlightStatus | null>(null);
+
+	const handleClick = async () => {
+		setStatus(await highlightElement(selector));
+	};
+
+	return (
+		<div className="mt-1">
+			<button
+				onClick={handleClick}
+				className="text-xs text-sfgov-blue hover:underline cursor-pointer"
+			>
+				Show on page
+			</button>
+			{status && status !== "found" && (
+				<div className="text-xs text-gray-500">{STATUS_MESSAGES[status]}</div>
+			)}
+		</div>
+	);
+}
@@ -1,23 +1,190 @@
 import React, { useEffect, useState } from "react";
 import { Card } from "./Card";
-import type { MediaAsset } from "@sf-gov/shared";
+import type { AirtableApiError, MediaAsset, MediaUsagePage, MediaUsageResponse, PdfCheckResult } from "@sf-gov/shared";
 import { EditIcon } from "@/sidepanel/components/EditIcon.tsx";
 import { OpenIcon } from "@/sidepanel/components/OpenIcon.tsx";
 import { extractPdfLinks, type LinkInfo } from "@/lib/link-check";
+import { getMediaUsage, getPdfCheck } from "@/api/airtable-client";
+import { getAdminBaseUrl } from "@/lib/config.ts";
+import {
+	auditImage,
+	fetchImageSize,
+	findMeasurement,
+	formatFileSize,
+	IMAGE_ISSUE_LABELS,
+	measurePageImages,
+	type ImageAudit,
+	type ImageMeasurement,
+} from "@/lib/image-audit.ts";
+import { LocateButton } from "@/sidepanel/components/LocateButton.tsx";
 
 interface MediaAssetsCardProps {
 	images: MediaAsset[];
 	files: MediaAsset[];
+	pageId: number;
+	pageUrl?: string;
 }
 
+/**
+ * Shows how many other pages use an asset, expanding to list them
+ */
+const UsageDrillDown = ({ pages }: { pages: MediaUsagePage[] }) => {
+	const [isExpanded, setIsExpanded] = useState(false);
+
+	if (pages.length === 0) {
+		return <div className="text-xs text-gray-500">Not used on any other pages</div>;
+	}
+
+	return (
+		<div className="text-xs">
+			<button
+				onClick={() => setIsExpanded(!isExpanded)}
+				className="text-sfgov-blue hover:underline cursor-pointer"
+				aria-expanded={isExpanded}
+			>
+				Used on {pages.length} other page{pages.length === 1 ? "" : "s"}
+			</button>
+			{isExpanded && (
+				<ul className="mt-1 ml-3 space-y-1">
+					{pages.map((page) => (
+						<li key={page.id} className="flex items-center gap-1">
+							<a href={page.url} target="_blank" rel="noopener noreferrer" className="truncate">
+								{page.title || page.url}
+							</a>
+							<a
+								href={page.editUrl}
+								target="_blank"
+								rel="noopener noreferrer"
+								className="shrink-0 text-gray-500 hover:text-sfgov-blue"
+								title="Edit this page in Karl"
+							>
+								<EditIcon className="w-3.5 h-3.5" />
+							</a>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+};
+
+/**
+ * Shows the dimensions, size and format of an image, and what could be improved
+ */
+const ImageAuditDetails = ({ audit, isMeasured }: { audit: ImageAudit; isMeasured: boolean }) => {
+	const { measurement } = audit;
+	const details = [
+		audit.width && audit.height ? `${audit.width}×${audit.height}` : null,
+		measurement && measurement.renderedWidth > 0
+			? `shown at ${measurement.renderedWidth}×${measurement.renderedHeight}`
+			: null,
+		audit.fileSize ? formatFileSize(audit.fileSize) : null,
+		audit.format ? audit.format.toUpperCase() : null,
+	].filter(Boolean);
+
+	return (
+		<div className="ml-6 text-xs text-gray-500">
+			{details.length > 0 && <div>{details.join(" · ")}</div>}
+			{isMeasured && !measurement && <div className="italic">Not shown on this page</div>}
+			{audit.issues.length > 0 && (
+				<div className="flex flex-wrap gap-1 mt-1">
+					{audit.issues.map((issue) => (
+						<span key={issue} className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-800">
+							{IMAGE_ISSUE_LABELS[issue]}
+						</span>
+					))}
+				</div>
+			)}
+			{measurement && audit.issues.length > 0 && <LocateButton selector={measurement.selector} />}
+		</div>
+	);
+};
+
+// number of PDFs checked at once, since each one is downloaded by the server
+const PDF_CHECK_CONCURRENCY = 2;
+
+const isPdfUrl = (url: string) => url.split("?")[0].toLowerCase().endsWith(".pdf");
+
+/**
+ * Shows the accessibility problems found in a PDF, worst first
+ */
+const PdfCheckDetails = ({ result }: { result: PdfCheckResult }) => {
+	if (result.status === "error") {
+		return <div className="text-xs text-gray-500">Couldn't check this PDF: {result.error}</div>;
+	}
+
+	const problems = [
+		result.isScanned && { label: "Scanned, no text", className: "bg-red-100 text-red-800" },
+		!result.isTagged && { label: "Not tagged", className: "bg-red-100 text-red-800" },
+		!result.title && { label: "No title", className: "bg-amber-100 text-amber-800" },
+		!result.language && { label: "No language", className: "bg-amber-100 text-amber-800" },
+	].filter((problem): problem is { label: string; className: string } => !!problem);
+	const details = [
+		result.pageCount ? `${result.pageCount} page${result.pageCount === 1 ? "" : "s"}` : null,
+		result.fileSize ? formatFileSize(result.fileSize) : null,
+	].filter(Boolean);
+
+	return (
+		<div className="text-xs text-gray-500">
+			{details.length > 0 && <div>{details.join(" · ")}</div>}
+			<div className="flex flex-wrap gap-1 mt-1">
+				{problems.length === 0 ? (
+					<span className="px-1.5 py-0.5 rounded bg-green-100 text-green-800">Tagged, titled and searchable</span>
+				) : problems.map((problem) => (
+					<span key={problem.label} className={`px-1.5 py-0.5 rounded ${problem.className}`}>{problem.label}</span>
+				))}
+			</div>
+		</div>
+	);
+};
+
 export const MediaAssetsCard: React.FC<MediaAssetsCardProps> = ({
 	images,
-	files
+	files,
+	pageId,
+	pageUrl
 }) => {
 	const hasImages = images.length > 0;
 	const hasFiles = files.length > 0;
 	const [pdfLinks, setPdfLinks] = useState<LinkInfo[]>([]);
 	const [isLoadingPdfs, setIsLoadingPdfs] = useState(true);
+	const [usage, setUsage] = useState<MediaUsageResponse | null>(null);
+	const [usageError, setUsageError] = useState<AirtableApiError | null>(null);
+	const [isLoadingUsage, setIsLoadingUsage] = useState(false);
+	const [measurements, setMeasurements] = useState<ImageMeasurement[] | null>(null);
+	const [pdfChecks, setPdfChecks] = useState<Record<string, PdfCheckResult>>({});
+	const [pdfCheckError, setPdfCheckError] = useState<AirtableApiError | null>(null);
+	const [isCheckingPdfs, setIsCheckingPdfs] = useState(false);
+
+	useEffect(() => {
+		if (!hasImages && !hasFiles) {
+			return;
+		}
+
+		let isCurrent = true;
+		setIsLoadingUsage(true);
+		setUsageError(null);
+		setUsage(null);
+
+		getMediaUsage(images.map((image) => image.id), files.map((file) => file.id))
+			.then((data) => isCurrent && setUsage(data))
+			.catch((error: AirtableApiError) => isCurrent && setUsageError(error))
+			.finally(() => isCurrent && setIsLoadingUsage(false));
+
+		return () => {
+			isCurrent = false;
+		};
+	}, [images, files]);
+
+	// the current page is in the index too, but editors only care about the others
+	const renderUsage = (asset: MediaAsset) => {
+		if (isLoadingUsage) {
+			return <div className="text-xs text-gray-400">Checking where this is used...</div>;
+		}
+
+		const pages = (asset.type === "image" ? usage?.images : usage?.documents)?.[asset.id];
+		return pages ? <UsageDrillDown pages={pages.filter((page) => page.id !== pageId)} /> : null;
+	};
 
 	useEffect(() => {
 		const fetchPdfLinks = async () => {
@@ -46,8 +213,93 @@ export const MediaAssetsCard: React.FC<MediaAssetsCardProps> = ({
 		fetchPdfLinks();
 	}, [files]);
 
+	useEffect(() => {
+		if (!hasImages) {
+			return;
+		}
+
+		let isCurrent = true;
+
+		const measureImages = async () => {
+			try {
+				const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
+				if (!tabs[0]?.id) {
+					return;
+				}
+
+				const results = await chrome.scripting.executeScript({
+					target: { tabId: tabs[0].id },
+					func: measurePageImages,
+				});
+				const pageImages = results[0]?.result || [];
+
+				// ask the server for the sizes the page couldn't report
+				const measured = await Promise.all(pageImages.map(async (measurement) =>
+					measurement.fileSize === null
+						? { ...measurement, fileSize: await fetchImageSize(measurement.src) }
+						: measurement
+				));
+
+				if (isCurrent) {
+					setMeasurements(measured);
+				}
+			} catch (error) {
+				console.error("Failed to measure images:", error);
+			}
+		};
+
+		measureImages();
+
+		return () => {
+			isCurrent = false;
+		};
+	}, [images]);
+
+	const imageAudits = new Map(images.map((image) => [image.id, auditImage(image, findMeasurement(image, measurements || []))]));
+	const imagesWithIssues = Array.from(imageAudits.values()).filter((audit) => audit.issues.length > 0).length;
+
+	const pdfUrls = Array.from(new Set([
+		...files.map((file) => file.url).filter(isPdfUrl),
+		...pdfLinks.map((pdf) => pdf.url),
+	]));
+
+	useEffect(() => {
+		setPdfChecks({});
+		setPdfCheckError(null);
+	}, [files]);
+
+	const handleCheckPdfs = async () => {
+		setIsCheckingPdfs(true);
+		setPdfCheckError(null);
+
+		const queue = pdfUrls.filter((url) => !pdfChecks[url]);
+		const workers = Array.from({ length: Math.min(PDF_CHECK_CONCURRENCY, queue.length) }, async () => {
+			while (queue.length > 0) {
+				const url = queue.shift()!;
+				const result = await getPdfCheck(url);
+				setPdfChecks((checks) => ({ ...checks, [url]: result }));
+			}
+		});
+
+		try {
+			await Promise.all(workers);
+		} catch (error) {
+			// stop the remaining checks, since they'd fail the same way
+			queue.length = 0;
+			setPdfCheckError(error as AirtableApiError);
+		} finally {
+			setIsCheckingPdfs(false);
+		}
+	};
+
+	const checkedPdfs = pdfUrls.filter((url) => pdfChecks[url]?.status === "ok");
+	const pdfsNeedingWork = checkedPdfs.filter((url) => {
+		const result = pdfChecks[url];
+		return result.isScanned || !result.isTagged || !result.title || !result.language;
+	});
+
 	const handleImageClick = async (imageId: number) => {
-		const adminUrl = `https://api.sf.gov/admin/images/${imageId}/`;
+		const adminUrl = `${getAdminBaseUrl(pageUrl)}images/${imageId}/`;
 		const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
 		if (tabs[0]?.id) {
 			// navigate from within the page context to preserve history properly
@@ -73,31 +325,55 @@ export const MediaAssetsCard: React.FC<MediaAssetsCardProps> = ({
 	return (
 		<Card title="Images and Files">
 			<div className="space-y-4">
+				{usageError && (
+					<p className="text-xs text-gray-500">
+						{usageError.type === "auth"
+							? "Log in to Karl to see which other pages use these images and files."
+							: `Couldn't check where these images and files are used. ${usageError.message}`}
+					</p>
+				)}
+
+				{usage?.indexTruncated && (
+					<p className="text-xs text-gray-500">
+						Only {usage.pagesScanned} pages were checked, so some pages that use these may be missing.
+					</p>
+				)}
+
 				{/* Images Section */}
 				<div>
 					<h3 className="text-sm font-semibold text-gray-700 mb-2">Images</h3>
+					{imagesWithIssues > 0 && (
+						<p className="text-xs text-gray-500 mb-2">
+							{imagesWithIssues} of {images.length} image{images.length === 1 ? "" : "s"} could be
+							smaller or more accessible. Large images slow down the page on mobile data.
+						</p>
+					)}
 					{hasImages ? (
 						<ul className="w-full space-y-2">
 							{images.map((image) => (
-								<li key={image.id} className="flex items-center gap-2">
-									<a
-										href="#"
-										onClick={() => handleImageClick(image.id)}
-										className="text-sm text-left min-w-0 shrink inline-flex flex-row items-center gap-2 cursor-pointer bg-transparent border-none p-0"
-										title="Edit image on Karl"
-									>
-										<EditIcon className="h-4 w-4" aria-hidden="true" />
-										{image.title || image.filename || "Untitled Image"}
-									</a>
-									<a
-										href={image.url}
-										target="_blank"
-										rel="noopener noreferrer"
-										className="ml-1 inline-block bg-sfgov-blue rounded-sm text-white opacity-70 hover:opacity-100 shrink-0 mt-0.5"
-										title="Open original image in new tab"
-									>
-										<OpenIcon className="w-4 h-4" aria-hidden="true" />
-									</a>
+								<li key={image.id}>
+									<div className="flex items-center gap-2">
+										<a
+											href="#"
+											onClick={() => handleImageClick(image.id)}
+											className="text-sm text-left min-w-0 shrink inline-flex flex-row items-center gap-2 cursor-pointer bg-transparent border-none p-0"
+											title="Edit image on Karl"
+										>
+											<EditIcon className="h-4 w-4" aria-hidden="true" />
+											{image.title || image.filename || "Untitled Image"}
+										</a>
+										<a
+											href={image.url}
+											target="_blank"
+											rel="noopener noreferrer"
+											className="ml-1 inline-block bg-sfgov-blue rounded-sm text-white opacity-70 hover:opacity-100 shrink-0 mt-0.5"
+											title="Open original image in new tab"
+										>
+											<OpenIcon className="w-4 h-4" aria-hidden="true" />
+										</a>
+									</div>
+									<ImageAuditDetails audit={imageAudits.get(image.id)!} isMeasured={measurements !== null} />
+									{renderUsage(image)}
 								</li>
 							))}
 						</ul>
@@ -106,6 +382,33 @@ export const MediaAssetsCard: React.FC<MediaAssetsCardProps> = ({
 					)}
 				</div>
 
+				{/* PDF Accessibility */}
+				{pdfUrls.length > 0 && (
+					<div className="p-3 bg-gray-50 rounded border border-gray-100">
+						<div className="flex items-center justify-between gap-2">
+							<p className="text-xs text-gray-600">
+								{checkedPdfs.length > 0
+									? `${pdfsNeedingWork.length} of ${checkedPdfs.length} checked PDF${checkedPdfs.length === 1 ? "" : "s"} need accessibility work`
+									: `Check whether the ${pdfUrls.length} PDF${pdfUrls.length === 1 ? "" : "s"} on this page can be read with a screen reader`}
+							</p>
+							<button
+								onClick={handleCheckPdfs}
+								disabled={isCheckingPdfs || pdfUrls.every((url) => pdfChecks[url])}
+								className="shrink-0 text-xs text-sfgov-blue hover:underline cursor-pointer disabled:text-gray-400 disabled:no-underline disabled:cursor-default"
+							>
+								{isCheckingPdfs ? "Checking..." : "Check PDFs"}
+							</button>
+						</div>
+						{pdfCheckError && (
+							<p className="text-xs text-red-600 mt-1">
+								{pdfCheckError.type === "auth"
+									? "Log in to Karl to check PDFs."
+									: pdfCheckError.message}
+							</p>
+						)}
+					</div>
+				)}
+
 				{/* Files Section */}
 				<div>
 					<h3 className="text-sm font-semibold text-gray-700 mb-2">Files</h3>
@@ -127,6 +430,8 @@ export const MediaAssetsCard: React.FC<MediaAssetsCardProps> = ({
                     </span>
 										<OpenIcon className="w-4 h-4 shrink-0" aria-hidden="true" />
 									</a>
+									{pdfChecks[file.url] && <PdfCheckDetails result={pdfChecks[file.url]} />}
+									{renderUsage(file)}
 								</li>
 							))}
 						</ul>
@@ -155,6 +460,7 @@ export const MediaAssetsCard: React.FC<MediaAssetsCardProps> = ({
 											<span className="text-xs text-gray-500 break-all">{decodeURIComponent(new URL(pdf.url).pathname.split("/").pop() || "")}</span>
 										</span>
 									</a>
+									{pdfChecks[pdf.url] && <PdfCheckDetails result={pdfChecks[pdf.url]} />}
 								</li>
 							))}
 						</ul>
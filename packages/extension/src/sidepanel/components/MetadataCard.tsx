@@ -2,17 +2,19 @@ import React from "react";
 import { Card } from "./Card";
 import type { Agency, FormSchema } from "@sf-gov/shared";
 import { EditIcon } from "@/sidepanel/components/EditIcon.tsx";
+import { getAdminBaseUrl, getApiBaseUrl } from "@/lib/config.ts";
 
 interface MetadataCardProps {
 	primaryAgency: Agency | undefined;
 	contentType: string;
 	pageId: number;
+	currentUrl?: string;
 	schema?: FormSchema;
 }
 
-const CreateNewLink = ({ contentType }: { contentType: string }) => (
+const CreateNewLink = ({ contentType, currentUrl }: { contentType: string; currentUrl?: string }) => (
 	<a
-		href={`https://api.sf.gov/admin/pages/add/sf/${contentType}/2`}
+		href={`${getAdminBaseUrl(currentUrl)}pages/add/sf/${contentType}/2`}
 		className="ml-4 inline-flex items-center gap-1 align-bottom"
 		title="Create a new page of this type"
 		target="_blank"
@@ -34,9 +36,10 @@ export const MetadataCard: React.FC<MetadataCardProps> = ({
 	primaryAgency,
 	contentType,
 	pageId,
+	currentUrl,
 	schema
 }) => {
-	const apiUrl = `https://api.sf.gov/api/v2/pages/${pageId}/`;
+	const apiUrl = `${getApiBaseUrl(currentUrl)}pages/${pageId}/`;
 	const formEditUrl = schema
 		? `https://formio.dev.sf.gov/#/project/${schema.project}/form/${schema._id}/edit`
 		: null;
@@ -53,19 +56,30 @@ export const MetadataCard: React.FC<MetadataCardProps> = ({
 				<div className="text-sm text-gray-600">Content Type:</div>
 				<div className="text-sm font-medium text-gray-900">
 					{formatContentType(contentTypeName)}
-					<CreateNewLink contentType={contentTypeParam} />
+					<CreateNewLink contentType={contentTypeParam} currentUrl={currentUrl} />
 				</div>
 
 				<div className="text-sm text-gray-600">Primary Agency:</div>
 				<div className="text-sm font-medium text-gray-900">
 					{primaryAgency ? (
-						<a
-							href={primaryAgency.url}
-							target="_blank"
-							rel="noopener noreferrer"
-						>
-							{primaryAgency.title}
-						</a>
+						<>
+							<a
+								href={primaryAgency.url}
+								target="_blank"
+								rel="noopener noreferrer"
+							>
+								{primaryAgency.title}
+							</a>
+							<a
+								href={chrome.runtime.getURL(`src/dashboard/index.html?agencyId=${primaryAgency.id}`)}
+								target="_blank"
+								rel="noopener noreferrer"
+								title="See feedback for every page this agency owns"
+								className="block text-xs font-normal mt-1"
+							>
+								Agency feedback dashboard
+							</a>
+						</>
 					) : (
 						<span className="text-gray-400 italic">None</span>
 					)}
@@ -0,0 +1,110 @@
+import React from "react";
+import { getAdminBaseUrl, getConfig, getEnvironmentForUrl, getUrlInEnvironment } from "@/lib/config.ts";
+import { navigateTo } from "@/sidepanel/lib/navigation.ts";
+
+interface PageNavigationProps {
+	pageId: number;
+	// the published page, including its locale prefix
+	liveUrl: string;
+	editUrl: string;
+	// URL of the tab the side panel is showing
+	currentUrl: string;
+	// the latest preview from the editor, when one has been opened
+	previewUrl: string | null;
+}
+
+interface NavigationTarget {
+	id: string;
+	label: string;
+	title: string;
+	url: string;
+}
+
+/**
+ * Compares two URLs ignoring the query string, hash and trailing slash
+ */
+function isSamePage(a: string, b: string): boolean
+{
+	try {
+		const urlA = new URL(a);
+		const urlB = new URL(b);
+		return urlA.host === urlB.host && urlA.pathname.replace(/\/$/, "") === urlB.pathname.replace(/\/$/, "");
+	} catch (e) {
+		return false;
+	}
+}
+
+/**
+ * Returns true for a headless preview of a draft, which is the page URL with
+ * preview parameters added
+ */
+function isPreviewUrl(url: string): boolean
+{
+	try {
+		return new URL(url).searchParams.has("preview");
+	} catch (e) {
+		return false;
+	}
+}
+
+/**
+ * Switches the current tab between the views of one page: the live page, the
+ * same page in the other environments, and its editor, history and latest
+ * preview in Karl.  Every target is built from the page ID or the page's own
+ * URL, so the locale is kept.
+ */
+export const PageNavigation: React.FC<PageNavigationProps> = ({
+	pageId,
+	liveUrl,
+	editUrl,
+	currentUrl,
+	previewUrl,
+}) => {
+	const adminBaseUrl = getAdminBaseUrl(currentUrl);
+	const liveEnvironment = getEnvironmentForUrl(liveUrl || currentUrl);
+
+	const targets: NavigationTarget[] = [
+		{ id: "live", label: "Live", title: "View the published page", url: liveUrl },
+		...getConfig().environments
+			.filter((environment) => environment.id !== liveEnvironment.id)
+			.map((environment) => ({
+				id: `environment-${environment.id}`,
+				label: environment.name,
+				title: `View this page on ${environment.name}`,
+				url: liveUrl ? getUrlInEnvironment(liveUrl, environment) || "" : "",
+			})),
+		{ id: "edit", label: "Edit", title: "Edit this page on Karl", url: editUrl },
+		{ id: "history", label: "History", title: "See this page's revisions on Karl", url: `${adminBaseUrl}pages/${pageId}/history/` },
+		{
+			id: "preview",
+			label: "Preview",
+			title: "View the latest draft",
+			url: previewUrl || `${adminBaseUrl}pages/${pageId}/view_draft/`,
+		},
+	];
+
+	return (
+		<nav aria-label="Page views" className="flex flex-wrap gap-1">
+			{targets.filter((target) => target.url).map((target) => {
+				const isCurrent = target.id === "preview"
+					? isPreviewUrl(currentUrl) || isSamePage(target.url, currentUrl)
+					: !isPreviewUrl(currentUrl) && isSamePage(target.url, currentUrl);
+
+				return (
+					<a
+						key={target.id}
+						href={target.url}
+						onClick={(event) => navigateTo(event, target.url)}
+						title={target.title}
+						aria-current={isCurrent ? "page" : undefined}
+						className={`rounded-sm border px-2 py-1 text-xs no-underline ${isCurrent
+							? "border-sfgov-blue bg-sfgov-blue text-white"
+							: "border-gray-300 bg-white text-gray-700 hover:bg-gray-100"}`}
+					>
+						{target.label}
+					</a>
+				);
+			})}
+		</nav>
+	);
+};
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from "react";
+import { Card } from "./Card";
+import type { PageTree, PageTreeNode } from "@sf-gov/shared";
+import { getPageTree } from "@/api/wagtail-client.ts";
+import { EditIcon } from "@/sidepanel/components/EditIcon.tsx";
+import { navigateTo } from "@/sidepanel/lib/navigation.ts";
+
+interface PageTreeCardProps {
+	pageId: number;
+	parentId?: number;
+	title: string;
+	currentUrl: string;
+}
+
+const PageLink = ({ node }: { node: PageTreeNode }) => (
+	<span className="inline-flex items-center gap-1 min-w-0">
+		{node.url ? (
+			<a href={node.url} onClick={(event) => navigateTo(event, node.url)} className="truncate" title={node.url}>
+				{node.title}
+			</a>
+		) : (
+			<span className="truncate">{node.title}</span>
+		)}
+		<a
+			href={node.editUrl}
+			target="_blank"
+			rel="noopener noreferrer"
+			className="shrink-0 text-gray-500 hover:text-sfgov-blue"
+			title={`Edit "${node.title}" in Karl`}
+		>
+			<EditIcon className="w-3.5 h-3.5" />
+		</a>
+	</span>
+);
+
+const PageList = ({ heading, nodes, total }: { heading: string; nodes: PageTreeNode[]; total: number }) => (
+	<div>
+		<h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+			{heading} ({total})
+		</h3>
+		<ul className="space-y-1 text-sm">
+			{nodes.map((node) => (
+				<li key={node.id} className="flex">
+					<PageLink node={node} />
+				</li>
+			))}
+		</ul>
+		{total > nodes.length && (
+			<p className="text-xs text-gray-500 mt-1">and {total - nodes.length} more</p>
+		)}
+	</div>
+);
+
+/**
+ * Where the page sits in the site tree.  The tree takes three more requests,
+ * so it's loaded here rather than with the page data.
+ */
+export const PageTreeCard: React.FC<PageTreeCardProps> = ({
+	pageId,
+	parentId,
+	title,
+	currentUrl
+}) => {
+	const [tree, setTree] = useState<PageTree | null>(null);
+
+	useEffect(() => {
+		let isCurrent = true;
+
+		setTree(null);
+		void getPageTree(pageId, parentId, currentUrl).then((pageTree) => {
+			if (isCurrent) {
+				setTree(pageTree);
+			}
+		});
+
+		return () => {
+			isCurrent = false;
+		};
+	}, [pageId, parentId, currentUrl]);
+
+	if (!tree) {
+		return (
+			<Card title="Location" collapsible>
+				<div className="text-sm text-gray-500">Loading page location...</div>
+			</Card>
+		);
+	}
+
+	const { ancestors, siblings, siblingCount, children, childCount } = tree;
+
+	return (
+		<Card
+			title="Location"
+			subtitle={ancestors.length > 0 ? `${ancestors.length} level${ancestors.length === 1 ? "" : "s"} deep` : "Top-level page"}
+			collapsible
+		>
+			<div className="space-y-4">
+				<nav aria-label="Breadcrumb">
+					<ol className="flex flex-wrap items-center gap-x-1 gap-y-1 text-sm">
+						{ancestors.map((node) => (
+							<li key={node.id} className="inline-flex items-center gap-1 min-w-0">
+								<PageLink node={node} />
+								<span className="text-gray-400" aria-hidden="true">/</span>
+							</li>
+						))}
+						<li className="font-medium text-gray-900" aria-current="page">{title}</li>
+					</ol>
+				</nav>
+
+				{siblingCount > 0 && (
+					<PageList heading="Sibling pages" nodes={siblings} total={siblingCount} />
+				)}
+
+				{childCount > 0 ? (
+					<PageList heading="Child pages" nodes={children} total={childCount} />
+				) : (
+					<p className="text-xs text-gray-500 italic">This page has no child pages.</p>
+				)}
+			</div>
+		</Card>
+	);
+};
@@ -2,40 +2,168 @@ import React from 'react'
 import { Card } from './Card'
 import type { Translation } from '@sf-gov/shared'
 import { OpenIcon } from "@/sidepanel/components/OpenIcon.tsx";
+import { SUPPORTED_LOCALES } from "@/lib/locales.ts";
 
 interface TranslationsCardProps {
   translations: Translation[]
+  pageId: number
+  pageUrl: string
 }
 
-export const TranslationsCard: React.FC<TranslationsCardProps> = ({ translations }) => {
-  if (translations.length === 0) {
-    return (
-      <Card title="Translations">
-        <p className="text-sm text-gray-500 italic">No translations available</p>
-      </Card>
-    )
-  }
+type CoverageStatus = 'source' | 'current' | 'stale' | 'unknown' | 'missing'
+
+interface LocaleCoverage {
+  code: string
+  name: string
+  status: CoverageStatus
+  translation?: Translation
+}
+
+const STATUS_LABELS: Record<CoverageStatus, string> = {
+  source: 'Source',
+  current: 'Up to date',
+  stale: 'Out of date',
+  unknown: 'Translated',
+  missing: 'Missing',
+}
+
+const STATUS_CLASSES: Record<CoverageStatus, string> = {
+  source: 'bg-blue-100 text-blue-800',
+  current: 'bg-green-100 text-green-800',
+  stale: 'bg-amber-100 text-amber-800',
+  unknown: 'bg-gray-100 text-gray-700',
+  missing: 'bg-red-100 text-red-800',
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+/**
+ * Compares each supported locale with the English source page.  A translation
+ * is out of date when it was last published before the English page was.
+ */
+function getCoverage(translations: Translation[]): LocaleCoverage[] {
+  const source = translations.find((translation) => translation.languageCode === 'en')
+
+  return SUPPORTED_LOCALES.map(({ code, name }) => {
+    const translation = translations.find((item) => item.languageCode === code)
+    let status: CoverageStatus = 'missing'
+
+    if (translation === source && translation) {
+      status = 'source'
+    } else if (translation) {
+      if (!translation.lastPublishedAt || !source?.lastPublishedAt) {
+        status = 'unknown'
+      } else {
+        status = new Date(translation.lastPublishedAt) < new Date(source.lastPublishedAt) ? 'stale' : 'current'
+      }
+    }
+
+    return { code, name, status, translation }
+  })
+}
+
+export const TranslationsCard: React.FC<TranslationsCardProps> = ({ translations, pageId, pageUrl }) => {
+  const source = translations.find((translation) => translation.languageCode === 'en')
+  const coverage = getCoverage(translations)
+  const translatedCount = coverage.filter(({ status }) => status !== 'missing').length
+  const staleCount = coverage.filter(({ status }) => status === 'stale').length
+  const compareUrl = chrome.runtime.getURL(
+    `src/translations/index.html?pageId=${pageId}&url=${encodeURIComponent(pageUrl)}`
+  )
 
   return (
-    <Card title="Translations" collapsible>
-      <ul className="space-y-2">
-        {translations.map((translation) => (
-          <li key={translation.pageId} className="flex items-center gap-3">
-            <span className="inline-block px-2 py-1 bg-green-100 text-green-800 text-xs font-medium rounded uppercase">
-              {translation.languageCode}
+    <Card
+      title="Translations"
+      subtitle={`${translatedCount} of ${coverage.length} languages${staleCount > 0 ? `, ${staleCount} out of date` : ''}`}
+      collapsible
+    >
+      <ul className="space-y-3">
+        {coverage.map(({ code, name, status, translation }) => (
+          <li key={code} className="flex items-start gap-3 text-sm">
+            <span className="inline-block w-10 shrink-0 px-2 py-1 bg-gray-100 text-gray-700 text-xs font-medium text-center rounded uppercase">
+              {code}
             </span>
-            <a
-              href={translation.editUrl}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-sm flex-1"
-            >
-              {translation.title}
-            </a>
-            <OpenIcon className="w-4 h-4 text-gray-400" aria-hidden="true" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                {translation ? (
+                  <a
+                    href={translation.editUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="truncate"
+                    title={`Edit the ${name} page`}
+                  >
+                    {translation.title || name}
+                  </a>
+                ) : (
+                  <span className="text-gray-500">{name}</span>
+                )}
+                <span className={`inline-block shrink-0 px-2 py-0.5 text-xs font-medium rounded ${STATUS_CLASSES[status]}`}>
+                  {STATUS_LABELS[status]}
+                </span>
+              </div>
+
+              {status === 'stale' && translation?.lastPublishedAt && source?.lastPublishedAt && (
+                <div className="text-xs text-gray-500 mt-0.5">
+                  Published {formatDate(translation.lastPublishedAt)}, English updated {formatDate(source.lastPublishedAt)}
+                </div>
+              )}
+
+              {/* syncing updates every translation from the English page, and
+                  needs its translation source ID, so without it this only
+                  opens the translated page's editor */}
+              {status === 'stale' && translation && (source?.syncUrl ? (
+                <a
+                  href={source.syncUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-xs mt-0.5"
+                  title="Sync the translations with the English page in Karl"
+                >
+                  Sync translation <OpenIcon className="w-3 h-3" aria-hidden="true" />
+                </a>
+              ) : (
+                <a
+                  href={translation.editUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-xs mt-0.5"
+                  title={`Open the ${name} page in Karl`}
+                >
+                  Open translation <OpenIcon className="w-3 h-3" aria-hidden="true" />
+                </a>
+              ))}
+
+              {status === 'missing' && source && (
+                <a
+                  href={source.translateUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-xs mt-0.5"
+                >
+                  Translate <OpenIcon className="w-3 h-3" aria-hidden="true" />
+                </a>
+              )}
+            </div>
           </li>
         ))}
       </ul>
+      {source && translatedCount > 1 && (
+        <a
+          href={compareUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 mt-3 text-sm"
+        >
+          Compare translations side by side <OpenIcon className="w-3 h-3" aria-hidden="true" />
+        </a>
+      )}
+      {!source && (
+        <p className="mt-3 text-xs text-gray-500 italic">
+          There's no English version of this page to translate from.
+        </p>
+      )}
     </Card>
   )
 }
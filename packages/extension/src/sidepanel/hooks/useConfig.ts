@@ -0,0 +1,20 @@
+/**
+ * Custom React hook for reading the extension settings
+ * Re-renders when the settings are changed on the options page
+ */
+
+import { useEffect, useState } from "react";
+import { getConfig, subscribeToConfig, type ExtensionConfig } from "@/lib/config.ts";
+
+export function useConfig(): ExtensionConfig
+{
+	const [config, setConfig] = useState<ExtensionConfig>(getConfig);
+
+	useEffect(() => {
+		// pick up a change made between the first render and subscribing
+		setConfig(getConfig());
+		return subscribeToConfig(setConfig);
+	}, []);
+
+	return config;
+}
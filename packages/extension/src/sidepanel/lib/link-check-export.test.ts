@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { toCsv, type LinkCheckExportRow } from "./link-check-export";
+
+const row: LinkCheckExportRow = {
+	url: "https://www.sf.gov/apply-permit",
+	text: "Apply for a permit",
+	status: "broken",
+	statusCode: 404,
+	finalUrl: null,
+	error: null,
+	pageUrl: "https://www.sf.gov/permits",
+	pageId: 123,
+	editUrl: "https://api.sf.gov/admin/pages/123/edit/",
+};
+
+function getFields(csv: string): string
+{
+	return csv.split("\r\n")[1];
+}
+
+describe("toCsv", () => {
+	it("quotes fields with commas, quotes and line breaks", () => {
+		const csv = toCsv([{ ...row, text: 'Apply, "now"\nonline' }]);
+
+		expect(getFields(csv)).toContain('"Apply, ""now""\nonline"');
+	});
+
+	it.each(["=1+1", "+1", "-1", "@SUM(A1)", "\tcmd", "\rcmd"])("prefixes text that starts a formula: %j", (text) => {
+		const csv = toCsv([{ ...row, text }]);
+
+		expect(getFields(csv)).toContain(`'${text}`);
+		expect(getFields(csv)).not.toMatch(/,"?[=+\-@\t\r]/);
+	});
+
+	it("doesn't prefix numbers", () => {
+		const csv = toCsv([{ ...row, statusCode: -1 }]);
+
+		expect(getFields(csv)).toContain(",-1,");
+	});
+});
@@ -0,0 +1,116 @@
+import type { LinkCheckResult } from "../../lib/link-checker-cache";
+
+/**
+ * One row of an exported link check report
+ */
+export interface LinkCheckExportRow {
+	url: string;
+	text: string;
+	status: string;
+	statusCode: number | null;
+	finalUrl: string | null;
+	error: string | null;
+	pageUrl: string;
+	pageId: number;
+	editUrl: string;
+}
+
+/**
+ * The page that the exported links were checked on
+ */
+export interface LinkCheckExportPage {
+	pageUrl: string;
+	pageId: number;
+	editUrl: string;
+}
+
+const CSV_COLUMNS: (keyof LinkCheckExportRow)[] = [
+	"url",
+	"text",
+	"status",
+	"statusCode",
+	"finalUrl",
+	"error",
+	"pageUrl",
+	"pageId",
+	"editUrl",
+];
+
+/**
+ * Combines link check results with the details of the page they were found on
+ */
+export function buildExportRows(
+	results: LinkCheckResult[],
+	page: LinkCheckExportPage): LinkCheckExportRow[]
+{
+	return results.map((result) => ({
+		url: result.url,
+		text: result.text,
+		status: result.status,
+		statusCode: result.statusCode ?? null,
+		finalUrl: result.finalUrl ?? null,
+		error: result.error ?? null,
+		pageUrl: page.pageUrl,
+		pageId: page.pageId,
+		editUrl: page.editUrl,
+	}));
+}
+
+/**
+ * Quotes a CSV field if it contains a delimiter, quote or line break.  Text
+ * from the page that a spreadsheet would run as a formula is prefixed with a
+ * ' so it's shown as text instead.
+ */
+function escapeCsvValue(value: string | number | null): string
+{
+	let text = value === null ? "" : String(value);
+
+	if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+		text = `'${text}`;
+	}
+
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats export rows as CSV with a header row
+ */
+export function toCsv(rows: LinkCheckExportRow[]): string
+{
+	const lines = [
+		CSV_COLUMNS.join(","),
+		...rows.map((row) => CSV_COLUMNS.map((column) => escapeCsvValue(row[column])).join(",")),
+	];
+
+	return lines.join("\r\n");
+}
+
+/**
+ * Formats export rows as pretty-printed JSON
+ */
+export function toJson(rows: LinkCheckExportRow[]): string
+{
+	return JSON.stringify(rows, null, 2);
+}
+
+/**
+ * Saves text content to a file in the user's downloads
+ * @param content - The file contents
+ * @param filename - The suggested file name
+ * @param mimeType - The MIME type of the content
+ */
+export function downloadFile(
+	content: string,
+	filename: string,
+	mimeType: string)
+{
+	const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+	const link = document.createElement("a");
+
+	link.href = url;
+	link.download = filename;
+	link.click();
+
+	// revoking the URL right away can cancel the download in some browsers
+	setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
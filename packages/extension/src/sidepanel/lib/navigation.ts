@@ -0,0 +1,19 @@
+import type { MouseEvent } from "react";
+
+/**
+ * Opens a page in the current tab, so the side panel follows along.
+ * Modifier clicks are left to the browser, which opens a new tab.
+ */
+export async function navigateTo(event: MouseEvent<HTMLAnchorElement>, url: string)
+{
+	if (event.metaKey || event.ctrlKey || event.shiftKey) {
+		// let the browser open the link in a new tab
+		return;
+	}
+
+	event.preventDefault();
+	const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+	if (tab?.id) {
+		await chrome.tabs.update(tab.id, { url });
+	}
+}
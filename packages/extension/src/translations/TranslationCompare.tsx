@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from "react";
+import type { ApiError, ContentBlock, WagtailPage } from "@sf-gov/shared";
+import { findPageById } from "@/api/wagtail-client";
+import { alignBlocks, BLOCK_STATUS_LABELS, type AlignedBlock, type BlockStatus } from "@/lib/translation-compare.ts";
+import { SUPPORTED_LOCALES } from "@/lib/locales.ts";
+import { Button } from "@/sidepanel/components/Button.tsx";
+import { EditIcon } from "@/sidepanel/components/EditIcon.tsx";
+
+const STATUS_CLASSES: Record<BlockStatus, string> = {
+	match: "bg-green-100 text-green-800",
+	missing: "bg-red-100 text-red-800",
+	empty: "bg-red-100 text-red-800",
+	structure: "bg-amber-100 text-amber-800",
+	extra: "bg-gray-100 text-gray-700",
+};
+
+const ROW_CLASSES: Record<BlockStatus, string> = {
+	match: "border-gray-200",
+	missing: "border-red-300 bg-red-50",
+	empty: "border-red-300 bg-red-50",
+	structure: "border-amber-300 bg-amber-50",
+	extra: "border-gray-300 bg-gray-50",
+};
+
+const Container = ({ children }: { children: React.ReactNode }) => (
+	<div className="min-h-screen p-8 bg-gray-50">
+		<div className="max-w-6xl mx-auto">
+			{children}
+		</div>
+	</div>
+);
+
+const BlockContent = ({ block }: { block?: ContentBlock }) => {
+	if (!block) {
+		return <p className="text-sm text-gray-400 italic">No matching block</p>;
+	}
+
+	return (
+		<div>
+			<div className="text-xs text-gray-500 mb-1">
+				{block.type}{block.shape && <span className="text-gray-400"> · {block.shape}</span>}
+			</div>
+			{block.text ? (
+				<p className="text-sm text-gray-900 whitespace-pre-line break-words">{block.text}</p>
+			) : (
+				<p className="text-sm text-gray-400 italic">No text</p>
+			)}
+		</div>
+	);
+};
+
+const BlockRow = ({ row }: { row: AlignedBlock }) => (
+	<div className={`grid grid-cols-2 gap-4 p-3 border rounded ${ROW_CLASSES[row.status]}`}>
+		<BlockContent block={row.source} />
+		<div className="relative">
+			<span className={`absolute top-0 right-0 px-2 py-0.5 text-xs font-medium rounded ${STATUS_CLASSES[row.status]}`}>
+				{BLOCK_STATUS_LABELS[row.status]}
+			</span>
+			<BlockContent block={row.translation} />
+		</div>
+	</div>
+);
+
+/**
+ * Full-page view that lines up a page's English content with one of its
+ * translations block by block, opened from the side panel with the page ID
+ * and page URL in the query string
+ */
+export const TranslationCompare: React.FC = () => {
+	const params = new URLSearchParams(window.location.search);
+	const pageId = parseInt(params.get("pageId") || "", 10);
+	const pageUrl = params.get("url") || undefined;
+	const [locale, setLocale] = useState<string | null>(params.get("locale"));
+	const [source, setSource] = useState<WagtailPage | null>(null);
+	const [translation, setTranslation] = useState<WagtailPage | null>(null);
+	const [error, setError] = useState<ApiError | null>(null);
+	const [isLoading, setIsLoading] = useState<boolean>(false);
+
+	const loadSource = async () => {
+		setIsLoading(true);
+		setError(null);
+
+		try {
+			// the page may itself be a translation, so find the English page first
+			const page = await findPageById(pageId, pageUrl);
+			const english = page?.translations.find((item) => item.languageCode === "en");
+			const sourcePage = english && english.pageId !== page?.id
+				? await findPageById(english.pageId, pageUrl)
+				: page;
+
+			setSource(sourcePage);
+			if (!locale && sourcePage) {
+				setLocale(sourcePage.translations.find((item) => item.languageCode !== "en")?.languageCode || null);
+			}
+		} catch (err) {
+			setError(err as ApiError);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	const loadTranslation = async (translationId: number) => {
+		setIsLoading(true);
+		setError(null);
+		setTranslation(null);
+
+		try {
+			setTranslation(await findPageById(translationId, pageUrl));
+		} catch (err) {
+			setError(err as ApiError);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	const selected = source?.translations.find((item) => item.languageCode === locale);
+
+	useEffect(() => {
+		if (pageId > 0) {
+			loadSource();
+		}
+	}, [pageId]);
+
+	useEffect(() => {
+		if (selected) {
+			loadTranslation(selected.pageId);
+		}
+	}, [selected?.pageId]);
+
+	useEffect(() => {
+		if (source?.title) {
+			document.title = `${source.title} Translations - Karl Jr.`;
+		}
+	}, [source]);
+
+	if (!(pageId > 0)) {
+		return (
+			<Container>
+				<p className="text-gray-600 text-sm">No page was selected.</p>
+			</Container>
+		);
+	}
+
+	if (error) {
+		return (
+			<Container>
+				<div className="space-y-3">
+					<p className="text-sm font-medium text-red-600">{error.message}</p>
+					{error.retryable && (
+						<Button onClick={source && selected ? () => loadTranslation(selected.pageId) : loadSource}>Retry</Button>
+					)}
+				</div>
+			</Container>
+		);
+	}
+
+	if (!source) {
+		return isLoading ? (
+			<Container>
+				<div className="flex flex-col items-center justify-center min-h-[200px] p-8">
+					<div className="w-12 h-12 border-4 border-blue-200 border-t-blue-600 rounded-full animate-spin mb-4"></div>
+					<p className="text-gray-600 text-sm">Loading page...</p>
+				</div>
+			</Container>
+		) : null;
+	}
+
+	const rows = translation ? alignBlocks(source.contentBlocks, translation.contentBlocks) : [];
+	const issueCount = rows.filter((row) => row.status !== "match").length;
+
+	return (
+		<Container>
+			<h1 className="text-2xl font-semibold text-gray-900">{source.title}</h1>
+			<p className="text-sm text-gray-500 mt-1">
+				Compare the English page with a translation. Blocks are highlighted when they're missing,
+				empty, or structured differently from the English version.
+			</p>
+
+			<div className="mt-6 flex flex-wrap gap-2" role="tablist">
+				{SUPPORTED_LOCALES.filter(({ code }) => code !== "en").map(({ code, name }) => {
+					const isAvailable = source.translations.some((item) => item.languageCode === code);
+					return (
+						<button
+							key={code}
+							role="tab"
+							aria-selected={code === locale}
+							disabled={!isAvailable}
+							onClick={() => setLocale(code)}
+							title={isAvailable ? undefined : `This page hasn't been translated into ${name}`}
+							className={`px-3 py-1.5 text-sm rounded border ${
+								code === locale
+									? "bg-sfgov-blue text-white border-sfgov-blue"
+									: "bg-white text-gray-700 border-gray-300 hover:bg-gray-100 cursor-pointer"
+							} disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-white`}
+						>
+							{name}
+						</button>
+					);
+				})}
+			</div>
+
+			{!selected ? (
+				<p className="mt-6 text-sm text-gray-500 italic">This page hasn't been translated yet.</p>
+			) : isLoading || !translation ? (
+				<div className="flex flex-col items-center justify-center min-h-[200px] p-8">
+					<div className="w-12 h-12 border-4 border-blue-200 border-t-blue-600 rounded-full animate-spin mb-4"></div>
+					<p className="text-gray-600 text-sm">Loading the {selected.language} page...</p>
+				</div>
+			) : (
+				<div className="mt-6 bg-white border border-gray-200 rounded-lg shadow-sm p-4">
+					<div className="flex items-center justify-between mb-3">
+						<p className="text-sm text-gray-600">
+							{issueCount === 0
+								? "Every block lines up with the English page."
+								: `${issueCount} of ${rows.length} block${rows.length === 1 ? "" : "s"} need attention`}
+						</p>
+						<a
+							href={selected.editUrl}
+							target="_blank"
+							rel="noopener noreferrer"
+							className="inline-flex items-center gap-1 text-sm"
+						>
+							<EditIcon /> Edit {selected.language} page
+						</a>
+					</div>
+
+					<div className="grid grid-cols-2 gap-4 px-3 mb-2 text-xs text-gray-500 uppercase tracking-wide">
+						<div>English</div>
+						<div>{selected.language}</div>
+					</div>
+					<div className="space-y-2">
+						{rows.map((row, index) => (
+							<BlockRow key={`${index}-${row.source?.id || row.translation?.id}`} row={row} />
+						))}
+					</div>
+				</div>
+			)}
+		</Container>
+	);
+};
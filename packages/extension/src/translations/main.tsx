@@ -0,0 +1,18 @@
+import "@/lib/console.ts";
+import { StrictMode } from "react";
+import ReactDOM from "react-dom/client";
+import { loadConfig } from "@/lib/config.ts";
+import { TranslationCompare } from "./TranslationCompare";
+import "@/sidepanel/index.css";
+
+const root = document.getElementById("root");
+// settings are loaded first so the API clients can read them synchronously
+if (root) {
+	void loadConfig().then(() => {
+		ReactDOM.createRoot(root).render(
+			<StrictMode>
+				<TranslationCompare />
+			</StrictMode>
+		);
+	});
+}
@@ -25,6 +25,15 @@ export default defineConfig(({ mode }) => ({
 		crx({ manifest }),
 		zip({ outDir: 'release', outFileName: `karl-jr-${version}.zip` }),
 	],
+	build: {
+		rollupOptions: {
+			// extension pages that aren't referenced from the manifest
+			input: {
+				dashboard: 'src/dashboard/index.html',
+				translations: 'src/translations/index.html',
+			},
+		},
+	},
 	server: {
 		cors: {
 			origin: [
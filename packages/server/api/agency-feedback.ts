@@ -0,0 +1,224 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { AgencyFeedbackResponse, AgencyPageFeedback, AirtableRecord } from "@sf-gov/shared";
+import {
+	type AirtableEnv,
+	buildReferrerFormula,
+	calculateFeedbackStats,
+	fetchAirtableRecords,
+	normalizePath,
+} from "../lib/airtable.js";
+import { getSessionCacheKey, validateCachedWagtailSession, validateOrigin } from "../lib/auth.js";
+import { hasRedis, validateEnv } from "../lib/env.js";
+import { logAuthFailure, logError, logInfo, logValidationError } from "../lib/logger.js";
+import { redisGet, redisSet } from "../lib/redis.js";
+import { getPage, getPageEditUrl, listAgencyPages } from "../lib/wagtail.js";
+
+/**
+ * Agency feedback dashboard endpoint
+ *
+ * Finds every page whose primary agency is the requested agency through the
+ * Wagtail pages API, then aggregates the Airtable feedback for those pages
+ * into per-page stats, ranked with the worst performing pages first.
+ */
+
+// cache TTL for agency feedback (2 hours in seconds)
+const AGENCY_FEEDBACK_CACHE_TTL = 7200;
+// cache TTL for feedback that didn't cover every page (10 minutes in seconds),
+// so the next request gets a chance soon
+const TRUNCATED_CACHE_TTL = 600;
+
+// maximum number of agency pages to include
+const MAX_AGENCY_PAGES = parseInt(process.env.AGENCY_FEEDBACK_MAX_PAGES || "500", 10);
+
+// total time budget for listing the pages and fetching their feedback in
+// milliseconds, which has to fit the function's maxDuration in vercel.json
+const MAX_EXECUTION_TIME = parseInt(process.env.AGENCY_FEEDBACK_MAX_EXECUTION_TIME || "50000", 10);
+
+// number of paths combined into one Airtable formula, which keeps the
+// request URL well under Airtable's length limit
+const PATHS_PER_REQUEST = 25;
+
+// pages with fewer votes than this are listed after the ranked pages, since
+// a single bad vote would otherwise put them at the top
+const MIN_VOTES_TO_RANK = 5;
+
+/**
+ * Sorts pages so the lowest helpfulness scores come first
+ */
+function rankPages(pages: AgencyPageFeedback[]): AgencyPageFeedback[] {
+	const isRanked = (page: AgencyPageFeedback) => page.stats.total >= MIN_VOTES_TO_RANK;
+
+	return [...pages].sort((a, b) => {
+		if (isRanked(a) !== isRanked(b)) {
+			return isRanked(a) ? -1 : 1;
+		}
+
+		if (!isRanked(a)) {
+			return b.stats.total - a.stats.total;
+		}
+
+		return a.stats.helpfulPercent - b.stats.helpfulPercent
+			|| b.stats.notHelpful - a.stats.notHelpful;
+	});
+}
+
+async function buildAgencyFeedback(agencyId: number, env: AirtableEnv): Promise<AgencyFeedbackResponse> {
+	const startTime = Date.now();
+	const isOutOfTime = () => Date.now() - startTime >= MAX_EXECUTION_TIME;
+	const [agency, items] = await Promise.all([
+		getPage(agencyId),
+		listAgencyPages(agencyId, MAX_AGENCY_PAGES + 1, {}, isOutOfTime),
+	]);
+	const agencyPages = items.slice(0, MAX_AGENCY_PAGES);
+	// the listing stops early when it runs out of time
+	let pagesTruncated = items.length > MAX_AGENCY_PAGES || isOutOfTime();
+
+	// several pages can share a path across locales, so group them by path
+	const pagesByPath = new Map<string, AgencyPageFeedback[]>();
+	agencyPages.forEach((item) => {
+		const url: string = item.meta?.html_url || "";
+		if (!url) return;
+
+		const page: AgencyPageFeedback = {
+			id: item.id,
+			title: item.title || "",
+			url,
+			editUrl: getPageEditUrl(item.id),
+			stats: calculateFeedbackStats([]),
+		};
+		const path = normalizePath(new URL(url).pathname);
+		pagesByPath.set(path, [...(pagesByPath.get(path) || []), page]);
+	});
+
+	const paths = Array.from(pagesByPath.keys());
+	const records: AirtableRecord[] = [];
+
+	// batches are fetched one at a time to stay under Airtable's rate limit
+	for (let i = 0; i < paths.length; i += PATHS_PER_REQUEST) {
+		if (isOutOfTime()) {
+			// leave out the pages whose feedback wasn't fetched, rather than
+			// showing them without any votes
+			paths.slice(i).forEach((path) => pagesByPath.delete(path));
+			pagesTruncated = true;
+			break;
+		}
+
+		const formula = buildReferrerFormula(paths.slice(i, i + PATHS_PER_REQUEST));
+		records.push(...await fetchAirtableRecords(formula, env));
+	}
+
+	const recordsByPath = new Map<string, AirtableRecord[]>();
+	records.forEach((record) => {
+		const path = normalizePath(record.fields.referrer || "");
+		recordsByPath.set(path, [...(recordsByPath.get(path) || []), record]);
+	});
+
+	const pages: AgencyPageFeedback[] = [];
+	pagesByPath.forEach((pagesForPath, path) => {
+		const stats = calculateFeedbackStats(recordsByPath.get(path) || []);
+		pagesForPath.forEach((page) => pages.push({ ...page, stats }));
+	});
+
+	return {
+		agency: {
+			id: agencyId,
+			title: agency.title || "",
+		},
+		stats: calculateFeedbackStats(records),
+		pages: rankPages(pages),
+		pagesTruncated,
+		generatedAt: new Date().toISOString(),
+	};
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+	const requestId = `agency_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+	const origin = req.headers.origin as string | undefined;
+	const isValidOrigin = validateOrigin(origin);
+
+	if (isValidOrigin && origin) {
+		res.setHeader("Access-Control-Allow-Origin", origin);
+		res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+		res.setHeader("Access-Control-Allow-Headers", "Content-Type, X-Wagtail-Session, X-SF-Gov-Extension");
+		res.setHeader("Access-Control-Max-Age", "86400");
+	}
+
+	if (req.method === "OPTIONS") {
+		return isValidOrigin ? res.status(200).end() : res.status(403).json({ error: "Invalid origin" });
+	}
+
+	if (req.method !== "GET") {
+		return res.status(405).json({ error: "Method not allowed" });
+	}
+
+	if (!isValidOrigin) {
+		return res.status(403).json({ error: "Invalid origin" });
+	}
+
+	try {
+		const env = validateEnv(["AIRTABLE_API_KEY", "AIRTABLE_BASE_ID", "AIRTABLE_TABLE_NAME"]);
+		const useRedis = hasRedis(env);
+
+		const sessionId = req.headers["x-wagtail-session"] as string | undefined;
+		if (!sessionId) {
+			logAuthFailure("Missing Wagtail session", { requestId });
+			return res.status(401).json({ error: "Missing session token" });
+		}
+
+		const agencyId = parseInt(req.query.agencyId as string, 10);
+		if (!(agencyId > 0)) {
+			logValidationError([{ field: "agencyId", message: "Must be a positive integer" }], { requestId });
+			return res.status(400).json({ error: "Missing or invalid agencyId" });
+		}
+
+		const cacheKey = `agency-feedback:v1:${agencyId}`;
+		const sessionCacheKey = getSessionCacheKey(sessionId);
+
+		let cachedSession: boolean | null = null;
+		let cachedFeedback: AgencyFeedbackResponse | null = null;
+
+		if (useRedis) {
+			[cachedSession, cachedFeedback] = await Promise.all([
+				redisGet<boolean>(sessionCacheKey, env.UPSTASH_REDIS_REST_URL!, env.UPSTASH_REDIS_REST_TOKEN!),
+				redisGet<AgencyFeedbackResponse>(cacheKey, env.UPSTASH_REDIS_REST_URL!, env.UPSTASH_REDIS_REST_TOKEN!)
+			]);
+		}
+
+		const isValidSession = await validateCachedWagtailSession(sessionId, env, cachedSession);
+
+		if (!isValidSession) {
+			logAuthFailure("Invalid Wagtail session", { requestId, sessionId: sessionId.substring(0, 8) + "..." });
+			return res.status(401).json({ error: "Invalid session" });
+		}
+
+		if (cachedFeedback) {
+			logInfo("Agency feedback cache hit", { requestId, agencyId });
+			return res.status(200).json(cachedFeedback);
+		}
+
+		const startTime = Date.now();
+		const feedback = await buildAgencyFeedback(agencyId, env);
+
+		logInfo("Agency feedback aggregated", {
+			requestId,
+			agencyId,
+			pages: feedback.pages.length,
+			total: feedback.stats.total,
+			pagesTruncated: feedback.pagesTruncated,
+			duration: Date.now() - startTime,
+		});
+
+		if (useRedis) {
+			const ttl = feedback.pagesTruncated ? TRUNCATED_CACHE_TTL : AGENCY_FEEDBACK_CACHE_TTL;
+			await redisSet(cacheKey, feedback, env.UPSTASH_REDIS_REST_URL!, env.UPSTASH_REDIS_REST_TOKEN!, ttl);
+		}
+
+		return res.status(200).json(feedback);
+	} catch (error) {
+		logError("Agency feedback handler error", {
+			requestId,
+			error: error instanceof Error ? error.message : "Unknown error",
+		});
+		return res.status(500).json({ error: "Internal server error" });
+	}
+}
@@ -0,0 +1,329 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type {
+	LinkCheckErrorEvent,
+	LinkCheckResultEvent,
+	LinkCrawlIssue,
+	LinkCrawlPage,
+	LinkCrawlReport,
+	LinkCrawlRequest,
+} from "@sf-gov/shared";
+import { extractRichTextLinks } from "@sf-gov/shared";
+import { extractWagtailSessionId, validateCachedWagtailSession, validateOrigin } from "../lib/auth.js";
+import { validateEnv } from "../lib/env.js";
+import {
+	logAuthFailure,
+	logValidationError,
+	logError,
+	logInfo,
+	logWarn,
+} from "../lib/logger.js";
+import { isValidHttpUrl, processLinksWithRateLimiting } from "../lib/link-checker.js";
+import { closeSSE, initSSE, sendSSE, setupDisconnectionDetection } from "../lib/sse.js";
+import { forEachWithConcurrency, getPage, getPageEditUrl, listAgencyPages, listPages } from "../lib/wagtail.js";
+
+/**
+ * Site-wide link crawl endpoint
+ *
+ * Enumerates every page in a subtree or owned by an agency through the Wagtail
+ * pages API, checks the links found in each page's rich text, and streams
+ * progress via Server-Sent Events (SSE), ending with one combined report.
+ * Each unique URL is only checked once, no matter how many pages link to it.
+ */
+
+// maximum number of pages to crawl in one request
+const MAX_PAGES = parseInt(process.env.CRAWL_MAX_PAGES || "300", 10);
+
+// total time budget for the crawl in milliseconds, which has to fit the
+// function's maxDuration in vercel.json
+const MAX_EXECUTION_TIME = parseInt(process.env.CRAWL_MAX_EXECUTION_TIME || "240000", 10);
+
+// number of page details fetched from Wagtail at once
+const PAGE_FETCH_CONCURRENCY = 5;
+
+// statuses that are reported as issues; ok and redirect links are left out
+const ISSUE_STATUSES = new Set(["broken", "timeout", "error", "warning", "insecure"]);
+
+/**
+ * Validates the crawl request payload
+ *
+ * @param body - The request body to validate
+ * @returns The parsed request, or an error message if it's invalid
+ */
+function validateRequestPayload(body: unknown): { data?: LinkCrawlRequest; error?: string } {
+	if (!body || typeof body !== "object") {
+		return { error: "Request body must be a JSON object" };
+	}
+
+	const { rootPageId, agencyId, locale } = body as Record<string, unknown>;
+	const isId = (value: unknown) => typeof value === "number" && Number.isInteger(value) && value > 0;
+
+	if ((rootPageId === undefined) === (agencyId === undefined)) {
+		return { error: "Provide exactly one of rootPageId or agencyId" };
+	}
+
+	if (rootPageId !== undefined && !isId(rootPageId)) {
+		return { error: "Field 'rootPageId' must be a positive integer" };
+	}
+
+	if (agencyId !== undefined && !isId(agencyId)) {
+		return { error: "Field 'agencyId' must be a positive integer" };
+	}
+
+	if (locale !== undefined && typeof locale !== "string") {
+		return { error: "Field 'locale' must be a string" };
+	}
+
+	return {
+		data: {
+			rootPageId: rootPageId as number | undefined,
+			agencyId: agencyId as number | undefined,
+			locale: locale as string | undefined,
+		},
+	};
+}
+
+/**
+ * Returns the IDs of the pages to crawl for a request
+ *
+ * @param request - The validated crawl request
+ * @returns Page IDs, including the root page itself for subtree crawls, and
+ * whether there were more pages than MAX_PAGES
+ */
+async function findPageIds(request: LinkCrawlRequest): Promise<{ pageIds: number[]; pagesTruncated: boolean }> {
+	const filters: Record<string, string> = {};
+
+	if (request.locale) {
+		filters.locale = request.locale;
+	}
+
+	// one more than the limit is listed to tell if there are more
+	if (!request.rootPageId && request.agencyId) {
+		const items = await listAgencyPages(request.agencyId, MAX_PAGES + 1, filters);
+		return {
+			pageIds: items.slice(0, MAX_PAGES).map((item) => item.id as number),
+			pagesTruncated: items.length > MAX_PAGES,
+		};
+	}
+
+	if (request.rootPageId) {
+		filters.descendant_of = String(request.rootPageId);
+	}
+
+	const maxDescendants = request.rootPageId ? MAX_PAGES - 1 : MAX_PAGES;
+	const items = await listPages(filters, maxDescendants + 1);
+	const ids = items.slice(0, maxDescendants).map((item) => item.id as number);
+
+	return {
+		pageIds: request.rootPageId ? [request.rootPageId, ...ids] : ids,
+		pagesTruncated: items.length > maxDescendants,
+	};
+}
+
+/**
+ * Resolves the links in a page's content to absolute HTTP/HTTPS URLs
+ *
+ * @param pageData - Raw page detail data from the Wagtail API
+ * @param pageUrl - The page's public URL, used to resolve relative links
+ * @returns Unique absolute URLs linked from the page
+ */
+function collectPageUrls(pageData: any, pageUrl: string): string[] {
+	const urls = new Set<string>();
+
+	extractRichTextLinks(pageData).forEach(({ url }) => {
+		try {
+			const absoluteUrl = new URL(url, pageUrl).href;
+			if (isValidHttpUrl(absoluteUrl)) {
+				urls.add(absoluteUrl);
+			}
+		} catch {
+			// skip links that can't be resolved, like Wagtail's internal page references
+		}
+	});
+
+	return Array.from(urls);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+	// generate request ID for logging context
+	const requestId = `crawl_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+	const startTime = Date.now();
+
+	// handle CORS
+	const origin = req.headers.origin as string | undefined;
+	const isValidOrigin = validateOrigin(origin);
+
+	if (isValidOrigin && origin) {
+		res.setHeader("Access-Control-Allow-Origin", origin);
+		res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+		res.setHeader("Access-Control-Allow-Headers", "Content-Type, X-Wagtail-Session, X-SF-Gov-Extension");
+		res.setHeader("Access-Control-Max-Age", "86400");
+	}
+
+	if (req.method === "OPTIONS") {
+		return isValidOrigin ? res.status(200).end() : res.status(403).json({ error: "Invalid origin" });
+	}
+
+	if (req.method !== "POST") {
+		return res.status(405).json({ error: "Method not allowed" });
+	}
+
+	if (!isValidOrigin) {
+		return res.status(403).json({ error: "Invalid origin" });
+	}
+
+	try {
+		const env = validateEnv();
+
+		const sessionId = extractWagtailSessionId(req);
+		if (!sessionId) {
+			logAuthFailure("Missing Wagtail session", { requestId });
+			return res.status(401).json({ error: "Unauthorized: Missing Wagtail session" });
+		}
+
+		const isValidSession = await validateCachedWagtailSession(sessionId, env);
+		if (!isValidSession) {
+			logAuthFailure("Invalid Wagtail session", { requestId, sessionId: sessionId.substring(0, 8) + "..." });
+			return res.status(401).json({ error: "Unauthorized: Invalid Wagtail session" });
+		}
+
+		const validation = validateRequestPayload(req.body);
+		if (!validation.data) {
+			const message = validation.error || "Invalid request payload";
+			logValidationError([{ field: "body", message }], { requestId });
+			return res.status(400).json({ error: message });
+		}
+
+		const request = validation.data;
+		logInfo("Link crawl started", { requestId, ...request });
+
+		initSSE(res);
+
+		const { isDisconnected, cleanup } = setupDisconnectionDetection(res);
+
+		try {
+			const { pageIds, pagesTruncated } = await findPageIds(request);
+
+			// map each unique URL to the pages that link to it
+			const pagesByUrl = new Map<string, LinkCrawlPage[]>();
+			const failedPageIds: number[] = [];
+			let pagesCrawled = 0;
+
+			await forEachWithConcurrency(pageIds, PAGE_FETCH_CONCURRENCY, async (pageId) => {
+				try {
+					const pageData = await getPage(pageId);
+					const page: LinkCrawlPage = {
+						id: pageId,
+						title: pageData.title || "",
+						url: pageData.meta?.html_url || "",
+						editUrl: getPageEditUrl(pageId),
+					};
+					const urls = collectPageUrls(pageData, page.url || "https://www.sf.gov/");
+
+					urls.forEach((url) => {
+						const pages = pagesByUrl.get(url) || [];
+						pages.push(page);
+						pagesByUrl.set(url, pages);
+					});
+
+					pagesCrawled++;
+					sendSSE(res, { type: "page", page, linkCount: urls.length, pagesFound: pageIds.length });
+				} catch (error) {
+					// one unreadable page shouldn't stop the crawl
+					failedPageIds.push(pageId);
+					logWarn("Failed to fetch page for crawl", {
+						requestId,
+						pageId,
+						error: error instanceof Error ? error.message : "Unknown error",
+					});
+				}
+			}, () => isDisconnected() || Date.now() - startTime >= MAX_EXECUTION_TIME);
+
+			if (isDisconnected()) {
+				cleanup();
+				return;
+			}
+
+			const uniqueUrls = Array.from(pagesByUrl.keys());
+			const issues: LinkCrawlIssue[] = [];
+			let checked = 0;
+
+			const { timedOut } = await processLinksWithRateLimiting(
+				uniqueUrls,
+				// every SF.gov page is served over HTTPS, which is what mixed content detection needs
+				"https://www.sf.gov/",
+				(result: LinkCheckResultEvent) => {
+					checked++;
+					if (ISSUE_STATUSES.has(result.status)) {
+						issues.push({ ...result, pages: pagesByUrl.get(result.url) || [] });
+					}
+					sendSSE(res, { type: "progress", checked, total: uniqueUrls.length });
+				},
+				isDisconnected,
+				requestId,
+				Math.max(0, MAX_EXECUTION_TIME - (Date.now() - startTime))
+			);
+
+			if (isDisconnected()) {
+				cleanup();
+				return;
+			}
+
+			const report: LinkCrawlReport = {
+				pagesCrawled,
+				failedPageIds,
+				pagesTruncated,
+				linksChecked: checked,
+				totalLinks: uniqueUrls.length,
+				// pages that were never fetched were skipped when time ran out
+				timedOut: timedOut || pagesCrawled + failedPageIds.length < pageIds.length,
+				// list the links that appear on the most pages first
+				issues: issues.sort((a, b) => b.pages.length - a.pages.length),
+				startedAt: new Date(startTime).toISOString(),
+				completedAt: new Date().toISOString(),
+			};
+			sendSSE(res, { type: "report", report });
+
+			logInfo("Link crawl completed", {
+				requestId,
+				pagesCrawled,
+				pagesFailed: failedPageIds.length,
+				pagesTruncated,
+				checked,
+				total: uniqueUrls.length,
+				issues: issues.length,
+				timedOut: report.timedOut,
+			});
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : "Unknown error during crawl";
+			logError("Error during link crawl", { requestId, error: errorMessage });
+
+			if (!isDisconnected()) {
+				const errorEvent: LinkCheckErrorEvent = {
+					type: "error",
+					message: errorMessage,
+				};
+				sendSSE(res, errorEvent);
+			}
+		} finally {
+			cleanup();
+			closeSSE(res);
+		}
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : "Unknown error";
+		logError("Link crawl handler error", { requestId, error: errorMessage });
+
+		if (!res.headersSent) {
+			return res.status(500).json({
+				error: "Internal server error",
+				message: errorMessage,
+			});
+		}
+
+		try {
+			sendSSE(res, { type: "error", message: errorMessage });
+			closeSSE(res);
+		} catch {
+			res.end();
+		}
+	}
+}
@@ -0,0 +1,300 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { MediaUsagePage, MediaUsageResponse } from "@sf-gov/shared";
+import { getSessionCacheKey, validateCachedWagtailSession, validateOrigin } from "../lib/auth.js";
+import { hasRedis, validateEnv } from "../lib/env.js";
+import { logAuthFailure, logError, logInfo, logValidationError, logWarn } from "../lib/logger.js";
+import { redisGet, redisSet } from "../lib/redis.js";
+import { forEachWithConcurrency, getPage, getPageEditUrl, listPages } from "../lib/wagtail.js";
+
+/**
+ * Media usage endpoint
+ *
+ * Answers "where is this used" for images and documents.  Every page body is
+ * scanned through the Wagtail pages API to build an index from asset IDs to
+ * the pages that reference them, which is cached in Redis so only the first
+ * request after the cache expires pays for the scan.
+ */
+
+// cache TTL for the usage index (6 hours in seconds)
+const MEDIA_USAGE_CACHE_TTL = 21600;
+// cache TTL for an index that didn't cover every page (10 minutes in seconds),
+// so the next build gets a chance soon
+const TRUNCATED_CACHE_TTL = 600;
+
+// maximum number of pages scanned when building the index
+const MAX_PAGES = parseInt(process.env.MEDIA_USAGE_MAX_PAGES || "2000", 10);
+
+// total time budget for building the index in milliseconds, including
+// listing the pages, which has to fit the function's maxDuration in vercel.json
+const MAX_EXECUTION_TIME = parseInt(process.env.MEDIA_USAGE_MAX_EXECUTION_TIME || "90000", 10);
+
+// number of page details fetched from Wagtail at once
+const PAGE_FETCH_CONCURRENCY = 5;
+
+// maximum number of asset IDs of each type in one request
+const MAX_IDS_PER_TYPE = 100;
+
+const CACHE_KEY = "media-usage:v1:index";
+
+/**
+ * Index from asset IDs to page IDs, stored compactly since it covers the
+ * whole site
+ */
+interface MediaUsageIndex {
+	pages: Record<string, { title: string; url: string }>;
+	images: Record<string, number[]>;
+	documents: Record<string, number[]>;
+	pagesScanned: number;
+	truncated: boolean;
+	indexedAt: string;
+}
+
+// index build in progress on this instance, shared by concurrent requests
+let pendingIndex: Promise<MediaUsageIndex> | null = null;
+
+/**
+ * Parses a comma-separated list of asset IDs from the query string
+ * @returns The IDs, or null if any of them isn't a positive integer
+ */
+function parseIds(value: unknown): number[] | null {
+	if (value === undefined || value === "") {
+		return [];
+	}
+
+	const ids = String(value).split(",").map((id) => parseInt(id, 10));
+	return ids.every((id) => id > 0) ? Array.from(new Set(ids)) : null;
+}
+
+/**
+ * Finds the images and documents referenced by a page, from chooser blocks,
+ * image and document fields, and embeds and links in rich text
+ * @param pageData - Raw page data from the Wagtail API
+ */
+function findMediaReferences(pageData: any): { images: Set<number>; documents: Set<number> } {
+	const images = new Set<number>();
+	const documents = new Set<number>();
+
+	// chooser values are serialized either as the ID or as an object with an ID
+	const getId = (value: any): number | null => {
+		if (typeof value === "number") return value;
+		if (value && typeof value === "object" && typeof value.id === "number") return value.id;
+		return null;
+	};
+
+	const visit = (obj: any): void => {
+		if (typeof obj === "string") {
+			for (const [tag] of obj.matchAll(/<(?:embed|a)\s[^>]*>/gi)) {
+				const id = parseInt(tag.match(/\sid="(\d+)"/)?.[1] || "", 10);
+				if (!id) continue;
+
+				if (/embedtype="image"/.test(tag)) {
+					images.add(id);
+				} else if (/linktype="document"/.test(tag)) {
+					documents.add(id);
+				}
+			}
+			return;
+		}
+
+		if (!obj || typeof obj !== "object") return;
+
+		if (Array.isArray(obj)) {
+			obj.forEach(visit);
+			return;
+		}
+
+		if (obj.type === "image" || obj.type === "document") {
+			const id = getId(obj.value);
+			if (id) {
+				(obj.type === "image" ? images : documents).add(id);
+			}
+		}
+
+		Object.entries(obj).forEach(([key, value]) => {
+			if (key === "meta") return;
+
+			const id = key === "image" || key === "document" ? getId(value) : null;
+			if (id) {
+				(key === "image" ? images : documents).add(id);
+			}
+			visit(value);
+		});
+	};
+
+	visit(pageData);
+
+	return { images, documents };
+}
+
+async function buildIndex(requestId: string): Promise<MediaUsageIndex> {
+	const startTime = Date.now();
+	const isOutOfTime = () => Date.now() - startTime >= MAX_EXECUTION_TIME;
+	const items = await listPages({}, MAX_PAGES + 1, isOutOfTime);
+	const pageIds: number[] = items.slice(0, MAX_PAGES).map((item) => item.id);
+
+	const index: MediaUsageIndex = {
+		pages: {},
+		images: {},
+		documents: {},
+		pagesScanned: 0,
+		// the listing stops early when it runs out of time
+		truncated: items.length > MAX_PAGES || isOutOfTime(),
+		indexedAt: new Date().toISOString(),
+	};
+
+	const addUsage = (usage: Record<string, number[]>, assetId: number, pageId: number) => {
+		usage[assetId] = [...(usage[assetId] || []), pageId];
+	};
+
+	await forEachWithConcurrency(pageIds, PAGE_FETCH_CONCURRENCY, async (pageId) => {
+		try {
+			const pageData = await getPage(pageId);
+			const { images, documents } = findMediaReferences(pageData);
+
+			if (images.size > 0 || documents.size > 0) {
+				index.pages[pageId] = {
+					title: pageData.title || "",
+					url: pageData.meta?.html_url || "",
+				};
+				images.forEach((imageId) => addUsage(index.images, imageId, pageId));
+				documents.forEach((documentId) => addUsage(index.documents, documentId, pageId));
+			}
+			index.pagesScanned++;
+		} catch (error) {
+			// one unreadable page shouldn't stop the scan
+			logWarn("Failed to fetch page for media usage", {
+				requestId,
+				pageId,
+				error: error instanceof Error ? error.message : "Unknown error",
+			});
+		}
+	}, isOutOfTime);
+
+	if (index.pagesScanned < pageIds.length) {
+		index.truncated = true;
+	}
+
+	logInfo("Media usage index built", {
+		requestId,
+		pagesScanned: index.pagesScanned,
+		images: Object.keys(index.images).length,
+		documents: Object.keys(index.documents).length,
+		truncated: index.truncated,
+		duration: Date.now() - startTime,
+	});
+
+	return index;
+}
+
+/**
+ * Looks up the pages that reference each asset
+ */
+function getUsage(index: MediaUsageIndex, usage: Record<string, number[]>, ids: number[]): Record<string, MediaUsagePage[]> {
+	return Object.fromEntries(ids.map((id) => [
+		id,
+		(usage[id] || []).map((pageId) => ({
+			id: pageId,
+			...index.pages[pageId],
+			editUrl: getPageEditUrl(pageId),
+		})),
+	]));
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+	const requestId = `media_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+	const origin = req.headers.origin as string | undefined;
+	const isValidOrigin = validateOrigin(origin);
+
+	if (isValidOrigin && origin) {
+		res.setHeader("Access-Control-Allow-Origin", origin);
+		res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+		res.setHeader("Access-Control-Allow-Headers", "Content-Type, X-Wagtail-Session, X-SF-Gov-Extension");
+		res.setHeader("Access-Control-Max-Age", "86400");
+	}
+
+	if (req.method === "OPTIONS") {
+		return isValidOrigin ? res.status(200).end() : res.status(403).json({ error: "Invalid origin" });
+	}
+
+	if (req.method !== "GET") {
+		return res.status(405).json({ error: "Method not allowed" });
+	}
+
+	if (!isValidOrigin) {
+		return res.status(403).json({ error: "Invalid origin" });
+	}
+
+	try {
+		const env = validateEnv();
+		const useRedis = hasRedis(env);
+
+		const sessionId = req.headers["x-wagtail-session"] as string | undefined;
+		if (!sessionId) {
+			logAuthFailure("Missing Wagtail session", { requestId });
+			return res.status(401).json({ error: "Missing session token" });
+		}
+
+		const imageIds = parseIds(req.query.images);
+		const documentIds = parseIds(req.query.documents);
+		if (!imageIds || !documentIds || imageIds.length + documentIds.length === 0) {
+			logValidationError([{ field: "images/documents", message: "Must be comma-separated positive integers" }], { requestId });
+			return res.status(400).json({ error: "Missing or invalid images or documents" });
+		}
+		if (imageIds.length > MAX_IDS_PER_TYPE || documentIds.length > MAX_IDS_PER_TYPE) {
+			logValidationError([{ field: "images/documents", message: `At most ${MAX_IDS_PER_TYPE} IDs of each type` }], { requestId });
+			return res.status(400).json({ error: `Too many IDs. Maximum is ${MAX_IDS_PER_TYPE} of each type` });
+		}
+
+		const sessionCacheKey = getSessionCacheKey(sessionId);
+
+		let cachedSession: boolean | null = null;
+		let cachedIndex: MediaUsageIndex | null = null;
+
+		if (useRedis) {
+			[cachedSession, cachedIndex] = await Promise.all([
+				redisGet<boolean>(sessionCacheKey, env.UPSTASH_REDIS_REST_URL!, env.UPSTASH_REDIS_REST_TOKEN!),
+				redisGet<MediaUsageIndex>(CACHE_KEY, env.UPSTASH_REDIS_REST_URL!, env.UPSTASH_REDIS_REST_TOKEN!)
+			]);
+		}
+
+		const isValidSession = await validateCachedWagtailSession(sessionId, env, cachedSession);
+
+		if (!isValidSession) {
+			logAuthFailure("Invalid Wagtail session", { requestId, sessionId: sessionId.substring(0, 8) + "..." });
+			return res.status(401).json({ error: "Invalid session" });
+		}
+
+		let index = cachedIndex;
+		if (index) {
+			logInfo("Media usage cache hit", { requestId });
+		} else {
+			if (!pendingIndex) {
+				pendingIndex = buildIndex(requestId).finally(() => {
+					pendingIndex = null;
+				});
+			}
+			index = await pendingIndex;
+
+			if (useRedis) {
+				const ttl = index.truncated ? TRUNCATED_CACHE_TTL : MEDIA_USAGE_CACHE_TTL;
+				await redisSet(CACHE_KEY, index, env.UPSTASH_REDIS_REST_URL!, env.UPSTASH_REDIS_REST_TOKEN!, ttl);
+			}
+		}
+
+		const response: MediaUsageResponse = {
+			images: getUsage(index, index.images, imageIds),
+			documents: getUsage(index, index.documents, documentIds),
+			pagesScanned: index.pagesScanned,
+			indexTruncated: index.truncated,
+			indexedAt: index.indexedAt,
+		};
+
+		return res.status(200).json(response);
+	} catch (error) {
+		logError("Media usage handler error", {
+			requestId,
+			error: error instanceof Error ? error.message : "Unknown error",
+		});
+		return res.status(500).json({ error: "Internal server error" });
+	}
+}
@@ -0,0 +1,283 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { PdfCheckResult } from "@sf-gov/shared";
+import { getSessionCacheKey, validateCachedWagtailSession, validateOrigin } from "../lib/auth.js";
+import { hasRedis, validateEnv } from "../lib/env.js";
+import { logAuthFailure, logError, logInfo, logValidationError, logWarn } from "../lib/logger.js";
+import { isValidHttpUrl } from "../lib/link-checker.js";
+import { inspectPdf } from "../lib/pdf-inspector.js";
+import { redisGet, redisSet } from "../lib/redis.js";
+
+/**
+ * PDF accessibility check endpoint
+ *
+ * Downloads a linked PDF and reports whether it's tagged, has a title and
+ * language set, is a scan without text, and how many pages it has, so
+ * editors can decide which PDFs to turn into web pages first.
+ */
+
+// cache TTL for results (24 hours in seconds), since published PDFs rarely change
+const PDF_CHECK_CACHE_TTL = 86400;
+
+// largest PDF that will be downloaded, in bytes
+const MAX_PDF_SIZE = parseInt(process.env.PDF_CHECK_MAX_BYTES || String(25 * 1024 * 1024), 10);
+
+// timeout for downloading a PDF in milliseconds
+const DOWNLOAD_TIMEOUT = 20000;
+
+// most redirects followed before giving up
+const MAX_REDIRECTS = 5;
+
+// domains PDFs can be downloaded from, including their subdomains, so the
+// endpoint can't be used to fetch arbitrary URLs.  Wagtail documents and
+// media served from another host have to be added here.
+const ALLOWED_HOSTS = (process.env.PDF_CHECK_ALLOWED_HOSTS || "sf.gov")
+	.split(",")
+	.map((host) => host.trim().toLowerCase().replace(/^\./, ""))
+	.filter(Boolean);
+
+// private, loopback and link-local ranges, which a public hostname could
+// still resolve to
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet("0.0.0.0", 8, "ipv4");
+PRIVATE_ADDRESSES.addSubnet("10.0.0.0", 8, "ipv4");
+PRIVATE_ADDRESSES.addSubnet("100.64.0.0", 10, "ipv4");
+PRIVATE_ADDRESSES.addSubnet("127.0.0.0", 8, "ipv4");
+PRIVATE_ADDRESSES.addSubnet("169.254.0.0", 16, "ipv4");
+PRIVATE_ADDRESSES.addSubnet("172.16.0.0", 12, "ipv4");
+PRIVATE_ADDRESSES.addSubnet("192.168.0.0", 16, "ipv4");
+PRIVATE_ADDRESSES.addAddress("::", "ipv6");
+PRIVATE_ADDRESSES.addAddress("::1", "ipv6");
+PRIVATE_ADDRESSES.addSubnet("fc00::", 7, "ipv6");
+PRIVATE_ADDRESSES.addSubnet("fe80::", 10, "ipv6");
+
+/**
+ * Checks if a URL is on one of the allowed hosts
+ */
+function isAllowedHost(url: URL): boolean {
+	const hostname = url.hostname.toLowerCase();
+
+	return ALLOWED_HOSTS.some((host) => hostname === host || hostname.endsWith(`.${host}`));
+}
+
+function isPrivateAddress(address: string): boolean {
+	// IPv4 addresses mapped to IPv6 are checked against the IPv4 ranges
+	const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+	if (mapped) {
+		return PRIVATE_ADDRESSES.check(mapped[1], "ipv4");
+	}
+
+	return PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Makes sure a URL, including one redirected to, is on an allowed host that
+ * doesn't resolve to a private address
+ * @throws Error if the URL can't be downloaded from
+ */
+async function validateTarget(url: URL): Promise<void> {
+	if (url.protocol !== "http:" && url.protocol !== "https:") {
+		throw new Error("Only HTTP and HTTPS URLs can be checked");
+	}
+
+	if (!isAllowedHost(url)) {
+		throw new Error(`PDFs on ${url.hostname} can't be checked`);
+	}
+
+	const addresses = await lookup(url.hostname, { all: true });
+	if (addresses.some(({ address }) => isPrivateAddress(address))) {
+		throw new Error(`${url.hostname} resolves to a private address`);
+	}
+}
+
+/**
+ * Downloads a file, giving up once it's larger than MAX_PDF_SIZE.  Redirects
+ * are followed one at a time, so each target can be validated.
+ * @throws Error if the request fails, times out or the file is too large
+ */
+async function downloadPdf(url: string): Promise<Buffer> {
+	const controller = new AbortController();
+	const timeoutId = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT);
+
+	try {
+		let target = new URL(url);
+		let response: Response;
+		let redirects = 0;
+
+		while (true) {
+			await validateTarget(target);
+
+			response = await fetch(target, {
+				signal: controller.signal,
+				redirect: "manual",
+				headers: {
+					"User-Agent": "SF-Gov-Companion-Extension/1.0",
+				},
+			});
+
+			const location = response.headers.get("location");
+			if (response.status < 300 || response.status >= 400 || !location) {
+				break;
+			}
+
+			if (++redirects > MAX_REDIRECTS) {
+				throw new Error("Too many redirects");
+			}
+
+			await response.body?.cancel();
+			target = new URL(location, target);
+		}
+
+		if (!response.ok || !response.body) {
+			throw new Error(`HTTP ${response.status}`);
+		}
+
+		const contentLength = parseInt(response.headers.get("content-length") || "0", 10);
+		if (contentLength > MAX_PDF_SIZE) {
+			throw new Error(`File is larger than ${Math.round(MAX_PDF_SIZE / (1024 * 1024))} MB`);
+		}
+
+		// the content length can be missing or wrong, so count while reading
+		const chunks: Uint8Array[] = [];
+		let size = 0;
+		const reader = response.body.getReader();
+
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+
+			size += value.length;
+			if (size > MAX_PDF_SIZE) {
+				await reader.cancel();
+				throw new Error(`File is larger than ${Math.round(MAX_PDF_SIZE / (1024 * 1024))} MB`);
+			}
+			chunks.push(value);
+		}
+
+		return Buffer.concat(chunks);
+	} catch (error) {
+		if (error instanceof Error && error.name === "AbortError") {
+			throw new Error("Download timed out");
+		}
+		throw error;
+	} finally {
+		clearTimeout(timeoutId);
+	}
+}
+
+async function checkPdf(url: string): Promise<PdfCheckResult> {
+	const checkedAt = new Date().toISOString();
+
+	try {
+		const buffer = await downloadPdf(url);
+		return {
+			url,
+			status: "ok",
+			fileSize: buffer.length,
+			...inspectPdf(buffer),
+			checkedAt,
+		};
+	} catch (error) {
+		return {
+			url,
+			status: "error",
+			error: error instanceof Error ? error.message : "Unknown error",
+			checkedAt,
+		};
+	}
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+	const requestId = `pdf_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+	const origin = req.headers.origin as string | undefined;
+	const isValidOrigin = validateOrigin(origin);
+
+	if (isValidOrigin && origin) {
+		res.setHeader("Access-Control-Allow-Origin", origin);
+		res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+		res.setHeader("Access-Control-Allow-Headers", "Content-Type, X-Wagtail-Session, X-SF-Gov-Extension");
+		res.setHeader("Access-Control-Max-Age", "86400");
+	}
+
+	if (req.method === "OPTIONS") {
+		return isValidOrigin ? res.status(200).end() : res.status(403).json({ error: "Invalid origin" });
+	}
+
+	if (req.method !== "GET") {
+		return res.status(405).json({ error: "Method not allowed" });
+	}
+
+	if (!isValidOrigin) {
+		return res.status(403).json({ error: "Invalid origin" });
+	}
+
+	try {
+		const env = validateEnv();
+		const useRedis = hasRedis(env);
+
+		const sessionId = req.headers["x-wagtail-session"] as string | undefined;
+		if (!sessionId) {
+			logAuthFailure("Missing Wagtail session", { requestId });
+			return res.status(401).json({ error: "Missing session token" });
+		}
+
+		const url = req.query.url as string | undefined;
+		if (!url || !isValidHttpUrl(url)) {
+			logValidationError([{ field: "url", message: "Must be a valid HTTP/HTTPS URL" }], { requestId });
+			return res.status(400).json({ error: "Missing or invalid url" });
+		}
+
+		if (!isAllowedHost(new URL(url))) {
+			logValidationError([{ field: "url", message: `Must be on ${ALLOWED_HOSTS.join(", ")}` }], { requestId });
+			return res.status(400).json({ error: "PDFs can only be checked on sf.gov" });
+		}
+
+		const cacheKey = `pdf-check:v1:${url}`;
+		const sessionCacheKey = getSessionCacheKey(sessionId);
+
+		let cachedSession: boolean | null = null;
+		let cachedResult: PdfCheckResult | null = null;
+
+		if (useRedis) {
+			[cachedSession, cachedResult] = await Promise.all([
+				redisGet<boolean>(sessionCacheKey, env.UPSTASH_REDIS_REST_URL!, env.UPSTASH_REDIS_REST_TOKEN!),
+				redisGet<PdfCheckResult>(cacheKey, env.UPSTASH_REDIS_REST_URL!, env.UPSTASH_REDIS_REST_TOKEN!)
+			]);
+		}
+
+		const isValidSession = await validateCachedWagtailSession(sessionId, env, cachedSession);
+
+		if (!isValidSession) {
+			logAuthFailure("Invalid Wagtail session", { requestId, sessionId: sessionId.substring(0, 8) + "..." });
+			return res.status(401).json({ error: "Invalid session" });
+		}
+
+		if (cachedResult) {
+			logInfo("PDF check cache hit", { requestId, url });
+			return res.status(200).json(cachedResult);
+		}
+
+		const startTime = Date.now();
+		const result = await checkPdf(url);
+
+		if (result.status === "error") {
+			logWarn("PDF check failed", { requestId, url, error: result.error });
+		} else {
+			logInfo("PDF checked", { requestId, url, pageCount: result.pageCount, duration: Date.now() - startTime });
+
+			// failures aren't cached, since they're often temporary
+			if (useRedis) {
+				await redisSet(cacheKey, result, env.UPSTASH_REDIS_REST_URL!, env.UPSTASH_REDIS_REST_TOKEN!, PDF_CHECK_CACHE_TTL);
+			}
+		}
+
+		return res.status(200).json(result);
+	} catch (error) {
+		logError("PDF check handler error", {
+			requestId,
+			error: error instanceof Error ? error.message : "Unknown error",
+		});
+		return res.status(500).json({ error: "Internal server error" });
+	}
+}
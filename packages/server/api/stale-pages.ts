@@ -0,0 +1,178 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { StalePage, StalePagesResponse } from "@sf-gov/shared";
+import { getSessionCacheKey, validateCachedWagtailSession, validateOrigin } from "../lib/auth.js";
+import { hasRedis, validateEnv } from "../lib/env.js";
+import { logAuthFailure, logError, logInfo, logValidationError } from "../lib/logger.js";
+import { redisGet, redisSet } from "../lib/redis.js";
+import { getPage, getPageEditUrl, listAgencyPages } from "../lib/wagtail.js";
+
+/**
+ * Stale pages endpoint
+ *
+ * Lists the pages whose primary agency is the requested agency, with the
+ * ones that have gone longest without being published first.  Agencies are
+ * expected to review their content, and each page's publish dates and
+ * content type are returned so the extension can compare them with the
+ * review interval set for the content type.
+ */
+
+// cache TTL for stale pages (2 hours in seconds)
+const STALE_PAGES_CACHE_TTL = 7200;
+// cache TTL for a listing that didn't cover every page (10 minutes in
+// seconds), so the next request gets a chance soon
+const TRUNCATED_CACHE_TTL = 600;
+
+// maximum number of agency pages to check
+const MAX_AGENCY_PAGES = parseInt(process.env.STALE_PAGES_MAX_PAGES || "500", 10);
+
+// time budget for listing the pages in milliseconds, which has to fit the
+// function's maxDuration in vercel.json
+const MAX_EXECUTION_TIME = parseInt(process.env.STALE_PAGES_MAX_EXECUTION_TIME || "50000", 10);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Converts a listing item from the Wagtail API into a StalePage
+ */
+function toStalePage(item: any, now: number): StalePage {
+	const firstPublishedAt: string | null = item.meta?.first_published_at || null;
+	const lastPublishedAt: string | null = item.meta?.last_published_at || item.last_published_at || null;
+	const publishedTime = lastPublishedAt ? new Date(lastPublishedAt).getTime() : NaN;
+	const daysSincePublished = Number.isNaN(publishedTime) ? null : Math.floor((now - publishedTime) / DAY);
+
+	return {
+		id: item.id,
+		title: item.title || "",
+		url: item.meta?.html_url || "",
+		editUrl: getPageEditUrl(item.id),
+		contentType: item.meta?.type || "",
+		firstPublishedAt,
+		lastPublishedAt,
+		daysSincePublished,
+	};
+}
+
+/**
+ * Sorts pages so the longest unpublished come first, with pages that have no
+ * publish date at the top
+ */
+function rankPages(pages: StalePage[]): StalePage[] {
+	const age = (page: StalePage) => page.daysSincePublished ?? Infinity;
+
+	return [...pages].sort((a, b) => age(b) - age(a) || a.title.localeCompare(b.title));
+}
+
+async function buildStalePages(agencyId: number): Promise<StalePagesResponse> {
+	const startTime = Date.now();
+	const isOutOfTime = () => Date.now() - startTime >= MAX_EXECUTION_TIME;
+	const [agency, items] = await Promise.all([
+		getPage(agencyId),
+		listAgencyPages(agencyId, MAX_AGENCY_PAGES + 1, {}, isOutOfTime),
+	]);
+	const now = Date.now();
+	// the listing is in tree order, so when it's cut off at MAX_AGENCY_PAGES
+	// or stops early when it runs out of time, the ranking only covers the
+	// pages listed, which pagesTruncated flags
+	const pages = rankPages(items.slice(0, MAX_AGENCY_PAGES).map((item) => toStalePage(item, now)));
+
+	return {
+		agency: {
+			id: agencyId,
+			title: agency.title || "",
+		},
+		totalPages: pages.length,
+		pages,
+		pagesTruncated: items.length > MAX_AGENCY_PAGES || isOutOfTime(),
+		generatedAt: new Date(now).toISOString(),
+	};
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+	const requestId = `stale_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+	const origin = req.headers.origin as string | undefined;
+	const isValidOrigin = validateOrigin(origin);
+
+	if (isValidOrigin && origin) {
+		res.setHeader("Access-Control-Allow-Origin", origin);
+		res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+		res.setHeader("Access-Control-Allow-Headers", "Content-Type, X-Wagtail-Session, X-SF-Gov-Extension");
+		res.setHeader("Access-Control-Max-Age", "86400");
+	}
+
+	if (req.method === "OPTIONS") {
+		return isValidOrigin ? res.status(200).end() : res.status(403).json({ error: "Invalid origin" });
+	}
+
+	if (req.method !== "GET") {
+		return res.status(405).json({ error: "Method not allowed" });
+	}
+
+	if (!isValidOrigin) {
+		return res.status(403).json({ error: "Invalid origin" });
+	}
+
+	try {
+		const env = validateEnv();
+		const useRedis = hasRedis(env);
+
+		const sessionId = req.headers["x-wagtail-session"] as string | undefined;
+		if (!sessionId) {
+			logAuthFailure("Missing Wagtail session", { requestId });
+			return res.status(401).json({ error: "Missing session token" });
+		}
+
+		const agencyId = parseInt(req.query.agencyId as string, 10);
+		if (!(agencyId > 0)) {
+			logValidationError([{ field: "agencyId", message: "Must be a positive integer" }], { requestId });
+			return res.status(400).json({ error: "Missing or invalid agencyId" });
+		}
+
+		const cacheKey = `stale-pages:v2:${agencyId}`;
+		const sessionCacheKey = getSessionCacheKey(sessionId);
+
+		let cachedSession: boolean | null = null;
+		let cachedPages: StalePagesResponse | null = null;
+
+		if (useRedis) {
+			[cachedSession, cachedPages] = await Promise.all([
+				redisGet<boolean>(sessionCacheKey, env.UPSTASH_REDIS_REST_URL!, env.UPSTASH_REDIS_REST_TOKEN!),
+				redisGet<StalePagesResponse>(cacheKey, env.UPSTASH_REDIS_REST_URL!, env.UPSTASH_REDIS_REST_TOKEN!)
+			]);
+		}
+
+		const isValidSession = await validateCachedWagtailSession(sessionId, env, cachedSession);
+
+		if (!isValidSession) {
+			logAuthFailure("Invalid Wagtail session", { requestId, sessionId: sessionId.substring(0, 8) + "..." });
+			return res.status(401).json({ error: "Invalid session" });
+		}
+
+		let stalePages = cachedPages;
+		if (stalePages) {
+			logInfo("Stale pages cache hit", { requestId, agencyId });
+		} else {
+			const startTime = Date.now();
+			stalePages = await buildStalePages(agencyId);
+
+			logInfo("Stale pages listed", {
+				requestId,
+				agencyId,
+				pages: stalePages.totalPages,
+				duration: Date.now() - startTime,
+			});
+
+			if (useRedis) {
+				const ttl = stalePages.pagesTruncated ? TRUNCATED_CACHE_TTL : STALE_PAGES_CACHE_TTL;
+				await redisSet(cacheKey, stalePages, env.UPSTASH_REDIS_REST_URL!, env.UPSTASH_REDIS_REST_TOKEN!, ttl);
+			}
+		}
+
+		return res.status(200).json(stalePages);
+	} catch (error) {
+		logError("Stale pages handler error", {
+			requestId,
+			error: error instanceof Error ? error.message : "Unknown error",
+		});
+		return res.status(500).json({ error: "Internal server error" });
+	}
+}
@@ -120,7 +120,12 @@ const server = createServer(async (req, res) => {
 	// route to handlers
 	const routes: Record<string, string> = {
 		"/api/feedback": "feedback",
+		"/api/agency-feedback": "agency-feedback",
+		"/api/stale-pages": "stale-pages",
+		"/api/media-usage": "media-usage",
+		"/api/pdf-check": "pdf-check",
 		"/api/link-check": "link-check",
+		"/api/link-crawl": "link-crawl",
 		"/api/health": "health",
 		"/api/test": "test",
 	};
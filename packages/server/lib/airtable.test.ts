@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AirtableRecord } from "@sf-gov/shared";
+import { calculateTrends } from "./airtable.js";
+
+function record(created: string, vote?: "yes" | "no", issue?: string): AirtableRecord {
+	return {
+		id: created,
+		fields: {
+			submission_id: created,
+			submission_created: created,
+			referrer: "/apply-permit",
+			wasTheLastPageYouViewedHelpful: vote,
+			whatWasWrongWithThePage1: issue,
+		},
+		createdTime: created,
+	};
+}
+
+describe("calculateTrends", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		// a Tuesday
+		vi.setSystemTime(new Date("2024-04-02T12:00:00Z"));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("buckets votes into weeks that start on Monday in UTC", () => {
+		const trends = calculateTrends([
+			// Sunday night in UTC, even where it's already Monday
+			record("2024-03-10T23:30:00Z", "yes"),
+			record("2024-03-11T00:00:00Z", "no"),
+			record("2024-03-17T23:59:59Z", "yes"),
+		]);
+
+		expect(trends.weekly.slice(0, 2)).toEqual([
+			{ period: "2024-03-04", total: 1, helpful: 1, notHelpful: 0 },
+			{ period: "2024-03-11", total: 2, helpful: 1, notHelpful: 1 },
+		]);
+	});
+
+	it("fills weeks and months without votes with zeros, up to now", () => {
+		const trends = calculateTrends([record("2024-03-12T10:00:00Z", "yes")]);
+
+		expect(trends.weekly).toEqual([
+			{ period: "2024-03-11", total: 1, helpful: 1, notHelpful: 0 },
+			{ period: "2024-03-18", total: 0, helpful: 0, notHelpful: 0 },
+			{ period: "2024-03-25", total: 0, helpful: 0, notHelpful: 0 },
+			{ period: "2024-04-01", total: 0, helpful: 0, notHelpful: 0 },
+		]);
+		expect(trends.monthly).toEqual([
+			{ period: "2024-03", total: 1, helpful: 1, notHelpful: 0 },
+			{ period: "2024-04", total: 0, helpful: 0, notHelpful: 0 },
+		]);
+	});
+
+	it("doesn't skip February when the first vote is late in a month", () => {
+		const trends = calculateTrends([record("2024-01-31T10:00:00Z", "no")]);
+
+		expect(trends.monthly.map((point) => point.period)).toEqual(["2024-01", "2024-02", "2024-03", "2024-04"]);
+	});
+
+	it("counts votes without an answer in the total only", () => {
+		const trends = calculateTrends([record("2024-04-01T10:00:00Z")]);
+
+		expect(trends.monthly).toEqual([{ period: "2024-04", total: 1, helpful: 0, notHelpful: 0 }]);
+	});
+
+	it("ignores records with an invalid date", () => {
+		expect(calculateTrends([record("not a date", "yes")])).toEqual({ weekly: [], monthly: [], issueCategories: [] });
+	});
+
+	it("counts the issues picked with unhelpful votes, most common first", () => {
+		const trends = calculateTrends([
+			record("2024-04-01T10:00:00Z", "no", "Outdated"),
+			record("2024-04-01T11:00:00Z", "no", "Confusing"),
+			record("2024-04-01T12:00:00Z", "no", "Confusing"),
+			record("2024-04-01T13:00:00Z", "yes", "Outdated"),
+		]);
+
+		expect(trends.issueCategories).toEqual([
+			{ category: "Confusing", count: 2 },
+			{ category: "Outdated", count: 1 },
+		]);
+	});
+});
@@ -0,0 +1,235 @@
+/**
+ * Airtable helpers for reading SF.gov feedback submissions
+ */
+
+import type { AirtableRecord, AirtableResponse, FeedbackStats, FeedbackTrendPoint, FeedbackTrends } from "@sf-gov/shared";
+
+// stop following pagination after this many requests for one query
+const MAX_REQUESTS = 50;
+
+// timeout for each Airtable request in milliseconds
+const REQUEST_TIMEOUT = 30000;
+
+export interface AirtableEnv {
+	AIRTABLE_API_KEY: string;
+	AIRTABLE_BASE_ID: string;
+	AIRTABLE_TABLE_NAME: string;
+}
+
+/**
+ * Normalizes a page path so it matches the referrer stored with feedback
+ * @param path - The page path
+ * @returns The path without query string or trailing slash, in lowercase
+ */
+export function normalizePath(path: string): string {
+	const withoutQuery = path.split("?")[0];
+	const withoutTrailingSlash = withoutQuery === "/" ? "/" : withoutQuery.replace(/\/+$/, "");
+	return withoutTrailingSlash.toLowerCase();
+}
+
+/**
+ * Converts the stored "was this page helpful" answer to yes, no or null
+ */
+export function parseHelpfulVote(value: unknown): "yes" | "no" | null {
+	if (!value) return null;
+
+	const val = String(value).toLowerCase();
+	if (val === "yes" || val === "true") return "yes";
+	if (val === "no" || val === "false") return "no";
+	return null;
+}
+
+/**
+ * Returns an Airtable formula that matches feedback for any of the given paths
+ * @param paths - Normalized page paths
+ */
+export function buildReferrerFormula(paths: string[]): string {
+	const conditions = paths.map(path => `LOWER({referrer})='${path.replace(/'/g, "\\'")}'`);
+	return conditions.length === 1 ? conditions[0] : `OR(${conditions.join(",")})`;
+}
+
+/**
+ * Fetches every feedback record matching a formula, newest first, following
+ * Airtable's pagination
+ * @param filterFormula - The filterByFormula expression
+ * @param env - Airtable credentials
+ * @returns The raw Airtable records
+ * @throws Error if a request fails or times out
+ */
+export async function fetchAirtableRecords(filterFormula: string, env: AirtableEnv): Promise<AirtableRecord[]> {
+	const encodedTableName = encodeURIComponent(env.AIRTABLE_TABLE_NAME);
+
+	let allRecords: AirtableRecord[] = [];
+	let offset: string | undefined;
+
+	let requestCount = 0;
+	const startTime = Date.now();
+
+	do {
+		requestCount++;
+		if (requestCount > MAX_REQUESTS) {
+			console.warn(`Hit max requests limit for formula: ${filterFormula}`);
+			break;
+		}
+
+		const url = new URL(
+			`https://api.airtable.com/v0/${env.AIRTABLE_BASE_ID}/${encodedTableName}`
+		);
+		url.searchParams.set("filterByFormula", filterFormula);
+		url.searchParams.set("sort[0][field]", "submission_created");
+		url.searchParams.set("sort[0][direction]", "desc");
+		if (offset) {
+			url.searchParams.set("offset", offset);
+		}
+
+		console.log(`Fetching page ${requestCount} from Airtable for ${filterFormula}`);
+		let timeoutId: NodeJS.Timeout;
+
+		const fetchPromise = fetch(url.toString(), {
+			method: "GET",
+			headers: {
+				"Authorization": `Bearer ${env.AIRTABLE_API_KEY}`,
+			},
+		});
+
+		const timeoutPromise = new Promise<Response>((_, reject) => {
+			timeoutId = setTimeout(() => reject(new Error("Request timed out")), REQUEST_TIMEOUT);
+		});
+
+		let response: Response;
+		try {
+			response = await Promise.race([fetchPromise, timeoutPromise]);
+			clearTimeout(timeoutId!);
+		} catch (e) {
+			// @ts-ignore
+			if (typeof timeoutId !== "undefined") clearTimeout(timeoutId);
+			throw e;
+		}
+
+		if (!response.ok) {
+			console.error(`Airtable error: ${response.status}`);
+			throw new Error(`Airtable API error: ${response.status}`);
+		}
+
+		const data = await response.json() as AirtableResponse;
+		allRecords = allRecords.concat(data.records);
+		offset = data.offset;
+
+	} while (offset);
+
+	const duration = Date.now() - startTime;
+	console.log(`Fetched ${allRecords.length} records from Airtable in ${duration}ms (${requestCount} requests)`);
+
+	return allRecords;
+}
+
+/**
+ * Counts helpful and not helpful votes
+ * @param records - Raw Airtable feedback records
+ */
+export function calculateFeedbackStats(records: AirtableRecord[]): FeedbackStats {
+	let helpful = 0;
+	let notHelpful = 0;
+
+	records.forEach(record => {
+		const vote = parseHelpfulVote(record.fields.wasTheLastPageYouViewedHelpful);
+		if (vote === "yes") {
+			helpful++;
+		} else if (vote === "no") {
+			notHelpful++;
+		}
+	});
+
+	const total = records.length;
+	const helpfulPercent = total > 0 ? Math.round((helpful / total) * 100) : 0;
+	const notHelpfulPercent = total > 0 ? Math.round((notHelpful / total) * 100) : 0;
+
+	return {
+		total,
+		helpful,
+		notHelpful,
+		helpfulPercent,
+		notHelpfulPercent
+	};
+}
+
+/**
+ * Returns the Monday that starts a date's week, e.g. "2024-03-11".  Weeks
+ * are in UTC so every request buckets records the same way.
+ */
+function getWeekStart(date: Date): string {
+	const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+	const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+	start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+	return start.toISOString().slice(0, 10);
+}
+
+/**
+ * Lists every period from the first vote to now, with zero counts for
+ * periods without votes, so the chart's time axis is even
+ */
+function fillPeriods(
+	buckets: Map<string, FeedbackTrendPoint>,
+	firstVote: Date,
+	getPeriod: (date: Date) => string,
+	nextPeriod: (date: Date) => void
+): FeedbackTrendPoint[] {
+	const points: FeedbackTrendPoint[] = [];
+	const current = getPeriod(new Date());
+	const date = new Date(firstVote);
+
+	for (let period = getPeriod(date); period <= current; nextPeriod(date), period = getPeriod(date)) {
+		points.push(buckets.get(period) || { period, total: 0, helpful: 0, notHelpful: 0 });
+	}
+
+	return points;
+}
+
+/**
+ * Counts votes by week and month, and the reasons given for unhelpful votes
+ * @param records - Raw Airtable feedback records
+ */
+export function calculateTrends(records: AirtableRecord[]): FeedbackTrends {
+	const weekly = new Map<string, FeedbackTrendPoint>();
+	const monthly = new Map<string, FeedbackTrendPoint>();
+	const categories = new Map<string, number>();
+	let firstVote: Date | null = null;
+
+	const addVote = (buckets: Map<string, FeedbackTrendPoint>, period: string, vote: "yes" | "no" | null) => {
+		const point = buckets.get(period) || { period, total: 0, helpful: 0, notHelpful: 0 };
+		point.total++;
+		if (vote === "yes") point.helpful++;
+		if (vote === "no") point.notHelpful++;
+		buckets.set(period, point);
+	};
+
+	records.forEach(record => {
+		const created = new Date(record.fields.submission_created);
+		if (isNaN(created.getTime())) return;
+
+		if (!firstVote || created < firstVote) {
+			firstVote = created;
+		}
+
+		const vote = parseHelpfulVote(record.fields.wasTheLastPageYouViewedHelpful);
+		addVote(weekly, getWeekStart(created), vote);
+		addVote(monthly, created.toISOString().slice(0, 7), vote);
+
+		const category = record.fields.whatWasWrongWithThePage1;
+		if (vote === "no" && category) {
+			categories.set(category, (categories.get(category) || 0) + 1);
+		}
+	});
+
+	const getMonth = (date: Date) => date.toISOString().slice(0, 7);
+
+	return {
+		weekly: firstVote ? fillPeriods(weekly, firstVote, getWeekStart, (date) => date.setUTCDate(date.getUTCDate() + 7)) : [],
+		// the first of the month, so adding a month never skips one
+		monthly: firstVote
+			? fillPeriods(monthly, new Date(getMonth(firstVote)), getMonth, (date) => date.setUTCMonth(date.getUTCMonth() + 1))
+			: [],
+		issueCategories: Array.from(categories, ([category, count]) => ({ category, count }))
+			.sort((a, b) => b.count - a.count),
+	};
+}
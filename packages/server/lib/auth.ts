@@ -2,8 +2,39 @@
  * Authentication utilities for server-side API endpoints
  */
 
+import type { VercelRequest } from "@vercel/node";
+import { hasRedis, type ServerEnv } from "./env.js";
+import { redisGet, redisSet } from "./redis.js";
+
 const WAGTAIL_VALIDATION_TIMEOUT = parseInt(process.env.WAGTAIL_VALIDATION_TIMEOUT || "5000", 10);
 
+// how long a validated session is trusted without asking Wagtail again (in seconds)
+const SESSION_CACHE_TTL = 300;
+
+/**
+ * Checks that a request comes from the extension, or from a local origin
+ * during development
+ * @param origin - The request's Origin header
+ * @returns True if the origin is allowed to call the API
+ */
+export function validateOrigin(origin: string | undefined): boolean {
+	if (!origin) return false;
+	if (origin.startsWith("chrome-extension://") || origin.startsWith("edge-extension://")) {
+		return true;
+	}
+	if (origin.includes("localhost") || origin.includes("127.0.0.1")) {
+		return true;
+	}
+	return false;
+}
+
+/**
+ * Returns the Redis key that caches a session's validation
+ */
+export function getSessionCacheKey(sessionId: string): string {
+	return `session:${sessionId}`;
+}
+
 /**
  * Validates a Wagtail session by making a request to the Wagtail API
  * @param sessionId - The Wagtail session ID from the cookie
@@ -42,3 +73,69 @@ export async function validateWagtailSession(sessionId: string, wagtailApiUrl: s
 		if (typeof timeoutId !== "undefined") clearTimeout(timeoutId);
 	}
 }
+
+/**
+ * Extracts the Wagtail session ID from request cookies
+ * Requirements: 2.1, 2.5
+ * 
+ * @param req - The Vercel request object
+ * @returns The session ID or null if not found
+ */
+export function extractWagtailSessionId(req: VercelRequest): string | null {
+	// check for X-Wagtail-Session header first (sent by extension)
+	const sessionHeader = req.headers["x-wagtail-session"] as string | undefined;
+	if (sessionHeader) {
+		return sessionHeader;
+	}
+
+	// fallback to cookie header
+	const cookieHeader = req.headers.cookie;
+	if (!cookieHeader) {
+		return null;
+	}
+
+	// parse cookies to find sessionid
+	const cookies = cookieHeader.split(";").map(c => c.trim());
+	for (const cookie of cookies) {
+		const [name, value] = cookie.split("=");
+		if (name === "sessionid" && value) {
+			return value;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Validates a Wagtail session, trusting a validation cached in Redis and
+ * caching new ones, so repeated requests skip the round trip to Wagtail
+ * @param sessionId - The Wagtail session ID
+ * @param env - The server environment
+ * @param cachedSession - The cached validation, if the caller already read it
+ * from Redis along with its other keys
+ * @returns Promise<boolean> - True if the session is valid, false otherwise
+ */
+export async function validateCachedWagtailSession(
+	sessionId: string,
+	env: ServerEnv,
+	cachedSession?: boolean | null
+): Promise<boolean> {
+	const useRedis = hasRedis(env);
+	const cacheKey = getSessionCacheKey(sessionId);
+
+	if (cachedSession === undefined && useRedis) {
+		cachedSession = await redisGet<boolean>(cacheKey, env.UPSTASH_REDIS_REST_URL!, env.UPSTASH_REDIS_REST_TOKEN!);
+	}
+
+	if (cachedSession === true) {
+		return true;
+	}
+
+	const isValidSession = await validateWagtailSession(sessionId, env.WAGTAIL_API_URL);
+	if (isValidSession && useRedis) {
+		// don't await - fire and forget
+		redisSet(cacheKey, true, env.UPSTASH_REDIS_REST_URL!, env.UPSTASH_REDIS_REST_TOKEN!, SESSION_CACHE_TTL);
+	}
+
+	return isValidSession;
+}
@@ -0,0 +1,43 @@
+/**
+ * Environment configuration shared by the server-side API endpoints
+ */
+
+export interface ServerEnv {
+	WAGTAIL_API_URL: string;
+	UPSTASH_REDIS_REST_URL?: string;
+	UPSTASH_REDIS_REST_TOKEN?: string;
+}
+
+/**
+ * Reads the environment variables every endpoint uses, along with any others
+ * the endpoint requires
+ * @param required - Other variables that must be set, e.g. the Airtable keys
+ * @returns The environment, with the required variables typed as strings
+ * @throws Error if WAGTAIL_API_URL or any of the required variables is missing
+ */
+export function validateEnv<K extends string = never>(required: K[] = []): ServerEnv & Record<K, string> {
+	const keys = ["WAGTAIL_API_URL", ...required];
+	const env: Record<string, string | undefined> = {
+		UPSTASH_REDIS_REST_URL: process.env.UPSTASH_REDIS_REST_URL,
+		UPSTASH_REDIS_REST_TOKEN: process.env.UPSTASH_REDIS_REST_TOKEN,
+	};
+
+	keys.forEach((key) => {
+		env[key] = process.env[key];
+	});
+
+	const missing = keys.filter((key) => !env[key]);
+
+	if (missing.length > 0) {
+		throw new Error(`Missing required environment variables: ${missing.join(", ")}`);
+	}
+
+	return env as ServerEnv & Record<K, string>;
+}
+
+/**
+ * Returns whether Upstash Redis is configured for caching
+ */
+export function hasRedis(env: ServerEnv): boolean {
+	return !!(env.UPSTASH_REDIS_REST_URL && env.UPSTASH_REDIS_REST_TOKEN);
+}
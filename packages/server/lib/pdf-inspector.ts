@@ -0,0 +1,201 @@
+/**
+ * Reads accessibility information from a PDF without a full PDF parser.
+ * Looks for the catalog and document info entries in the file, including
+ * inside compressed object streams, which most PDFs written since PDF 1.5 use.
+ */
+
+import { inflateSync } from "node:zlib";
+import type { PdfCheckResult } from "@sf-gov/shared";
+
+export type PdfInspection = Pick<PdfCheckResult, "pageCount" | "isTagged" | "title" | "language" | "isScanned">;
+
+// maximum total size of decompressed object streams, which keeps a
+// malicious or unusual file from using too much memory
+const MAX_INFLATED_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Decompresses the object streams and XML metadata streams in the file, so
+ * the entries inside them can be searched as text
+ * @param buffer - The PDF file
+ * @param text - The file decoded as latin1, so string offsets match byte offsets
+ */
+function inflateObjectStreams(buffer: Buffer, text: string): string[] {
+	const inflated: string[] = [];
+	let totalSize = 0;
+	let position = text.indexOf("stream");
+
+	while (position !== -1 && totalSize < MAX_INFLATED_BYTES) {
+		const isStreamKeyword = text.startsWith("stream", position) && !text.startsWith("endstream", position - 3);
+		const objStart = text.lastIndexOf(" obj", position);
+		const dict = objStart === -1 ? "" : text.slice(objStart, position);
+
+		if (isStreamKeyword && /\/FlateDecode/.test(dict) && /\/Type\s*\/(?:ObjStm|Metadata)/.test(dict)) {
+			// stream data starts after the end of line following the keyword
+			let dataStart = position + "stream".length;
+			if (text[dataStart] === "\r") dataStart++;
+			if (text[dataStart] === "\n") dataStart++;
+
+			const dataEnd = text.indexOf("endstream", dataStart);
+			if (dataEnd !== -1) {
+				try {
+					const data = inflateSync(buffer.subarray(dataStart, dataEnd), { maxOutputLength: MAX_INFLATED_BYTES - totalSize });
+					totalSize += data.length;
+					inflated.push(data.toString("latin1"));
+				} catch {
+					// skip streams that don't decompress, e.g. when they're encrypted
+				}
+			}
+		}
+
+		position = text.indexOf("stream", position + "stream".length);
+	}
+
+	return inflated;
+}
+
+/**
+ * Decodes a PDF literal string such as "(Annual Report)", including escapes
+ * and UTF-16 strings marked with a byte order mark
+ */
+function decodeLiteralString(value: string): string {
+	const bytes = value.replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_match, escape: string) => {
+		const escapes: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+		if (/^[0-7]+$/.test(escape)) {
+			return String.fromCharCode(parseInt(escape, 8));
+		}
+		return escapes[escape] ?? escape;
+	});
+
+	return decodeStringBytes(bytes);
+}
+
+/**
+ * Decodes a PDF hex string such as "<FEFF0041>"
+ */
+function decodeHexString(value: string): string {
+	const hex = value.replace(/\s/g, "");
+	let bytes = "";
+	for (let i = 0; i < hex.length; i += 2) {
+		bytes += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, "0"), 16));
+	}
+	return decodeStringBytes(bytes);
+}
+
+/**
+ * Decodes the bytes of a PDF text string, which are either UTF-16BE with a
+ * byte order mark or PDFDocEncoding, which matches latin1 for most text
+ */
+function decodeStringBytes(bytes: string): string {
+	if (bytes.startsWith("\xfe\xff")) {
+		let decoded = "";
+		for (let i = 2; i + 1 < bytes.length; i += 2) {
+			decoded += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+		}
+		return decoded;
+	}
+	return bytes;
+}
+
+/**
+ * Reads a text string entry, such as /Title or /Lang, from the file
+ * @returns The decoded value, or undefined if it's missing or empty
+ */
+function findStringEntry(sources: string[], key: string): string | undefined {
+	const pattern = new RegExp(`\\/${key}\\s*(?:\\(((?:\\\\.|[^\\\\)])*)\\)|<([0-9a-fA-F\\s]*)>)`);
+
+	for (const source of sources) {
+		const match = source.match(pattern);
+		if (match) {
+			const value = (match[1] !== undefined ? decodeLiteralString(match[1]) : decodeHexString(match[2])).trim();
+			if (value) {
+				return value;
+			}
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Reads the document title from the XMP metadata, which some tools write
+ * instead of the /Title entry
+ */
+function findXmpTitle(sources: string[]): string | undefined {
+	for (const source of sources) {
+		const match = source.match(/<dc:title>[\s\S]*?<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/);
+		if (match && match[1].trim()) {
+			return Buffer.from(match[1].trim(), "latin1").toString("utf8");
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Finds the document info dictionary referenced from the trailer, where the
+ * title is normally set.  Outline entries also have titles, so the whole file
+ * is only searched when there's no info dictionary.
+ */
+function findInfoDictionary(text: string): string | undefined {
+	// incrementally updated files have several trailers, and the last one wins
+	const references = Array.from(text.matchAll(/\/Info\s+(\d+)\s+0\s+R/g));
+	const objectNumber = references[references.length - 1]?.[1];
+	if (!objectNumber) {
+		return undefined;
+	}
+
+	const start = text.lastIndexOf(`\n${objectNumber} 0 obj`);
+	const end = start === -1 ? -1 : text.indexOf("endobj", start);
+	return end === -1 ? undefined : text.slice(start, end);
+}
+
+/**
+ * Counts the pages from the /Count of the root page tree node, falling back
+ * to counting the page objects
+ */
+function countPages(sources: string[]): number {
+	let rootCount = 0;
+	let pageObjects = 0;
+
+	sources.forEach((source) => {
+		for (const match of source.matchAll(/\/Type\s*\/Pages\b/g)) {
+			// the /Count entry is in the same dictionary, before or after /Type
+			const dict = source.slice(Math.max(0, match.index! - 300), match.index! + 300);
+			const count = dict.match(/\/Count\s+(\d+)/);
+			if (count) {
+				rootCount = Math.max(rootCount, parseInt(count[1], 10));
+			}
+		}
+		pageObjects += source.match(/\/Type\s*\/Page(?![s\w])/g)?.length || 0;
+	});
+
+	return rootCount || pageObjects;
+}
+
+/**
+ * Inspects a PDF for the things that make it accessible
+ * @param buffer - The PDF file
+ * @returns What could be read from the file
+ * @throws Error if the file isn't a PDF
+ */
+export function inspectPdf(buffer: Buffer): PdfInspection {
+	const text = buffer.toString("latin1");
+	if (!text.startsWith("%PDF-")) {
+		throw new Error("File is not a PDF");
+	}
+
+	const sources = [text, ...inflateObjectStreams(buffer, text)];
+	const info = findInfoDictionary(text);
+	const isMarked = sources.some((source) => /\/Marked\s+true/.test(source));
+	const hasStructTree = sources.some((source) => /\/StructTreeRoot/.test(source));
+	const hasImages = sources.some((source) => /\/Subtype\s*\/Image/.test(source));
+	const hasFonts = sources.some((source) => /\/Font\b/.test(source));
+
+	return {
+		pageCount: countPages(sources),
+		isTagged: isMarked && hasStructTree,
+		title: findStringEntry(info ? [info] : sources, "Title") || findXmpTitle(sources),
+		language: findStringEntry(sources, "Lang"),
+		// scanned pages are images with no fonts, since there's no real text
+		isScanned: hasImages && !hasFonts,
+	};
+}
@@ -0,0 +1,71 @@
+/**
+ * Minimal Upstash Redis REST helpers used for caching API responses
+ */
+
+/**
+ * Reads and parses a cached value
+ * @param key - The cache key
+ * @param url - The Upstash REST URL
+ * @param token - The Upstash REST token
+ * @returns The cached value, or null if it's missing or the request fails
+ */
+export async function redisGet<T>(key: string, url: string, token: string): Promise<T | null> {
+	const start = Date.now();
+	try {
+		const encodedKey = encodeURIComponent(key);
+		const fetchUrl = `${url}/get/${encodedKey}`;
+		const response = await fetch(fetchUrl, {
+			headers: { Authorization: `Bearer ${token}` }
+		});
+
+		if (!response.ok) {
+			console.log(`Redis GET ${key}: ${Date.now() - start}ms (not ok)`);
+			return null;
+		}
+
+		const data: any = await response.json();
+		console.log(`Redis GET ${key}: ${Date.now() - start}ms`);
+		if (!data.result) return null;
+
+		try {
+			return typeof data.result === "string" ? JSON.parse(data.result) : data.result;
+		} catch {
+			return data.result as T;
+		}
+	} catch (error) {
+		console.error(`Redis GET failed for ${key} after ${Date.now() - start}ms:`, error);
+		return null;
+	}
+}
+
+/**
+ * Stores a value as JSON with an expiry
+ * @param key - The cache key
+ * @param value - The value to store
+ * @param url - The Upstash REST URL
+ * @param token - The Upstash REST token
+ * @param ttlSeconds - How long the value is kept for
+ */
+export async function redisSet(key: string, value: any, url: string, token: string, ttlSeconds: number): Promise<void> {
+	try {
+		const encodedKey = encodeURIComponent(key);
+		const fetchUrl = `${url}/set/${encodedKey}?ex=${ttlSeconds}`;
+		const body = JSON.stringify(value);
+
+		const response = await fetch(fetchUrl, {
+			method: "POST",
+			headers: {
+				Authorization: `Bearer ${token}`,
+				"Content-Type": "application/json"
+			},
+			body: body
+		});
+
+		if (!response.ok) {
+			const text = await response.text();
+			console.error(`Redis SET failed for ${key}: ${response.status} ${text}`);
+		}
+	} catch (error) {
+		console.error(`Redis SET failed for ${key}:`, error);
+	}
+}
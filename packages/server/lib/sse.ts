@@ -0,0 +1,79 @@
+/**
+ * Server-Sent Events (SSE) helpers for streaming endpoints
+ */
+
+import type { VercelResponse } from "@vercel/node";
+import type { LinkCheckEvent, LinkCrawlEvent } from "@sf-gov/shared";
+
+/**
+ * Sends a Server-Sent Event (SSE) to the client
+ * Requirements: 3.1, 3.2, 8.4, 8.5, 8.6, 8.7
+ * 
+ * @param res - The Vercel response object
+ * @param data - The data to send as JSON
+ */
+export function sendSSE(res: VercelResponse, data: LinkCheckEvent | LinkCrawlEvent): void {
+	// format: data: <JSON>\n\n
+	// Requirement: 8.5, 8.6, 8.7
+	const jsonData = JSON.stringify(data);
+	res.write(`data: ${jsonData}\n\n`);
+}
+
+/**
+ * Initializes the SSE stream with appropriate headers
+ * Requirements: 3.1, 8.4
+ * 
+ * @param res - The Vercel response object
+ */
+export function initSSE(res: VercelResponse): void {
+	// set SSE headers
+	// Requirement: 8.4
+	res.setHeader("Content-Type", "text/event-stream");
+	res.setHeader("Cache-Control", "no-cache");
+	res.setHeader("Connection", "keep-alive");
+	
+	// disable response buffering for immediate streaming
+	res.flushHeaders();
+}
+
+/**
+ * Sets up client disconnection detection
+ * Requirements: 6.6, 6.7
+ * 
+ * @param res - The Vercel response object
+ * @returns Object with isDisconnected flag and cleanup function
+ */
+export function setupDisconnectionDetection(res: VercelResponse): {
+	isDisconnected: () => boolean;
+	cleanup: () => void;
+} {
+	let disconnected = false;
+
+	// listen for client disconnection
+	// Requirement: 6.6
+	const onClose = () => {
+		disconnected = true;
+	};
+
+	res.on("close", onClose);
+
+	return {
+		// check if client has disconnected
+		isDisconnected: () => disconnected,
+		// cleanup function to remove event listener
+		// Requirement: 6.7
+		cleanup: () => {
+			res.off("close", onClose);
+		},
+	};
+}
+
+/**
+ * Properly closes the SSE stream
+ * Requirements: 3.1, 3.2
+ * 
+ * @param res - The Vercel response object
+ */
+export function closeSSE(res: VercelResponse): void {
+	res.end();
+}
@@ -0,0 +1,246 @@
+/**
+ * Wagtail v2 pages API helpers for server-side jobs
+ */
+
+import { logWarn } from "./logger.js";
+
+/**
+ * Default public API base URL, used when WAGTAIL_PAGES_API_URL isn't set
+ */
+const DEFAULT_PAGES_API_URL = "https://api.sf.gov/api/v2";
+
+/**
+ * Maximum page size the Wagtail API allows for listings
+ */
+const PAGE_SIZE = 20;
+
+/**
+ * Timeout for each API request in milliseconds
+ */
+const REQUEST_TIMEOUT = 10000;
+
+/**
+ * Page types that have a primary_agency field, used when AGENCY_PAGE_TYPES
+ * isn't set
+ */
+const DEFAULT_AGENCY_PAGE_TYPES = [
+	"sf.Transaction",
+	"sf.InformationPage",
+	"sf.Campaign",
+	"sf.ResourceCollection",
+	"sf.Form",
+	"sf.Event",
+	"sf.News",
+	"sf.Meeting",
+	"sf.Location",
+	"sf.Topic",
+];
+
+/**
+ * Error for a non-2xx response from the Wagtail API
+ */
+class WagtailApiError extends Error {
+	constructor(message: string, public status: number) {
+		super(message);
+		this.name = "WagtailApiError";
+	}
+}
+
+/**
+ * Returns the base URL for the public Wagtail pages API, without a trailing slash
+ */
+export function getPagesApiUrl(): string {
+	return (process.env.WAGTAIL_PAGES_API_URL || DEFAULT_PAGES_API_URL).replace(/\/$/, "");
+}
+
+/**
+ * Returns the Wagtail admin edit URL for a page
+ * @param pageId - The page ID
+ */
+export function getPageEditUrl(pageId: number): string {
+	return getPagesApiUrl().replace(/\/api\/v2$/, "") + `/admin/pages/${pageId}/edit/`;
+}
+
+/**
+ * Fetches JSON from the Wagtail API with a timeout
+ * @param url - The URL to fetch
+ * @returns The parsed JSON response
+ * @throws WagtailApiError for a non-2xx status, or Error if the request fails or times out
+ */
+async function fetchJson(url: string): Promise<any> {
+	const controller = new AbortController();
+	const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+	try {
+		const response = await fetch(url, {
+			signal: controller.signal,
+			headers: {
+				"User-Agent": "SF-Gov-Companion-Extension/1.0",
+				"X-SF-Gov-Extension": "companion",
+			},
+		});
+
+		if (!response.ok) {
+			throw new WagtailApiError(`Wagtail API error ${response.status} for ${url}`, response.status);
+		}
+
+		return await response.json();
+	} catch (error) {
+		if (error instanceof Error && error.name === "AbortError") {
+			throw new Error(`Wagtail API request timed out for ${url}`);
+		}
+		throw error;
+	} finally {
+		clearTimeout(timeoutId);
+	}
+}
+
+/**
+ * Lists pages from the Wagtail API, following pagination until every
+ * matching page has been returned or the limit is reached
+ * @param filters - Query parameters used to filter the listing, e.g. descendant_of
+ * @param maxPages - Maximum number of pages to return
+ * @param shouldStop - Checked before each request, to stop early when a time budget runs out
+ * @returns Array of raw listing items, which include id, title and meta
+ */
+export async function listPages(
+	filters: Record<string, string>,
+	maxPages: number,
+	shouldStop: () => boolean = () => false
+): Promise<any[]> {
+	const items: any[] = [];
+	let offset = 0;
+	let totalCount = Infinity;
+
+	while (items.length < maxPages && offset < totalCount && !shouldStop()) {
+		const url = new URL(`${getPagesApiUrl()}/pages/`);
+		Object.entries(filters).forEach(([key, value]) => url.searchParams.set(key, value));
+		url.searchParams.set("limit", String(PAGE_SIZE));
+		url.searchParams.set("offset", String(offset));
+
+		const data = await fetchJson(url.toString());
+		const pageItems: any[] = data.items || [];
+
+		totalCount = data.meta?.total_count ?? 0;
+		items.push(...pageItems);
+		offset += PAGE_SIZE;
+
+		if (pageItems.length === 0) {
+			break;
+		}
+	}
+
+	return items.slice(0, maxPages);
+}
+
+/**
+ * Returns the page types listed when looking for an agency's pages
+ */
+export function getAgencyPageTypes(): string[] {
+	const types = process.env.AGENCY_PAGE_TYPES;
+	if (!types) {
+		return DEFAULT_AGENCY_PAGE_TYPES;
+	}
+
+	return types.split(",").map((type) => type.trim()).filter(Boolean);
+}
+
+/**
+ * Lists the pages whose primary agency is the given agency
+ *
+ * Wagtail only filters on the base Page model's fields unless the request
+ * names a page type, so each page type with a primary_agency field is listed
+ * on its own and the results are merged.
+ * @param agencyId - The Wagtail page ID of the agency
+ * @param maxPages - Maximum number of pages to return
+ * @param filters - Other query parameters, e.g. locale
+ * @param shouldStop - Checked before each request, to stop early when a time budget runs out
+ * @returns Array of raw listing items, which include id, title, meta, primary_agency
+ * and last_published_at
+ * @throws Error if none of the page types could be listed
+ */
+export async function listAgencyPages(
+	agencyId: number,
+	maxPages: number,
+	filters: Record<string, string> = {},
+	shouldStop: () => boolean = () => false
+): Promise<any[]> {
+	const pages = new Map<number, any>();
+	const failedTypes: string[] = [];
+	let ignoredFilter = 0;
+
+	for (const type of getAgencyPageTypes()) {
+		if (pages.size >= maxPages || shouldStop()) {
+			break;
+		}
+
+		let items: any[];
+		try {
+			items = await listPages({
+				...filters,
+				type,
+				primary_agency: String(agencyId),
+				fields: "primary_agency,last_published_at",
+			}, maxPages - pages.size, shouldStop);
+		} catch (error) {
+			// Wagtail returns 400 for a type that doesn't exist or can't be
+			// filtered by agency, which shouldn't hide the other types' pages
+			if (error instanceof WagtailApiError && error.status === 400) {
+				failedTypes.push(type);
+				continue;
+			}
+			throw error;
+		}
+
+		// check the listing was filtered, rather than trusting it
+		for (const item of items) {
+			if (item.primary_agency?.id === agencyId) {
+				pages.set(item.id, item);
+			} else {
+				ignoredFilter++;
+			}
+		}
+	}
+
+	if (failedTypes.length > 0) {
+		logWarn("Page types couldn't be listed by agency", { agencyId, types: failedTypes });
+	}
+
+	if (ignoredFilter > 0) {
+		logWarn("Wagtail listed pages from other agencies", { agencyId, pages: ignoredFilter });
+	}
+
+	if (failedTypes.length === getAgencyPageTypes().length) {
+		throw new Error(`None of the agency page types could be listed: ${failedTypes.join(", ")}`);
+	}
+
+	return [...pages.values()].slice(0, maxPages);
+}
+
+/**
+ * Runs an async function over a list of items with limited concurrency
+ */
+export async function forEachWithConcurrency<T>(
+	items: T[],
+	concurrency: number,
+	fn: (item: T) => Promise<void>,
+	shouldStop: () => boolean
+): Promise<void> {
+	const queue = [...items];
+	const workers = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+		while (queue.length > 0 && !shouldStop()) {
+			await fn(queue.shift()!);
+		}
+	});
+
+	await Promise.all(workers);
+}
+
+/**
+ * Fetches a single page with all of its fields
+ * @param pageId - The page ID
+ * @returns The raw page detail data
+ */
+export async function getPage(pageId: number): Promise<any> {
+	return fetchJson(`${getPagesApiUrl()}/pages/${pageId}/?fields=*`);
+}
@@ -1,2 +1,3 @@
 // main export file for shared types and utilities
 export * from "./types/index";
+export * from "./utils/index";
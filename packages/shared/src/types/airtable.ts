@@ -28,11 +28,88 @@ export interface FeedbackStats {
 }
 
 /**
- * Combined feedback response with stats and recent records
+ * Helpfulness votes submitted during one week or month
+ */
+export interface FeedbackTrendPoint {
+	period: string; // start of the week (YYYY-MM-DD) or the month (YYYY-MM)
+	total: number;
+	helpful: number;
+	notHelpful: number;
+}
+
+/**
+ * Number of "not helpful" submissions that picked an issue category
+ */
+export interface FeedbackCategoryCount {
+	category: string;
+	count: number;
+}
+
+/**
+ * Feedback counts over time, oldest period first, including periods without votes
+ */
+export interface FeedbackTrends {
+	weekly: FeedbackTrendPoint[];
+	monthly: FeedbackTrendPoint[];
+	issueCategories: FeedbackCategoryCount[];
+}
+
+/**
+ * Filters and paging options for feedback records
+ */
+export interface FeedbackQuery {
+	wasHelpful?: "yes" | "no";
+	issueCategory?: string;
+	from?: string; // YYYY-MM-DD, inclusive
+	to?: string; // YYYY-MM-DD, inclusive
+	search?: string; // matched against additionalDetails
+	page?: number; // 1-based
+	pageSize?: number;
+}
+
+/**
+ * Position of the returned records within all matching records
+ */
+export interface FeedbackPagination {
+	page: number;
+	pageSize: number;
+	totalRecords: number;
+	totalPages: number;
+}
+
+/**
+ * Combined feedback response with stats and one page of matching records
  */
 export interface FeedbackResponse {
 	stats: FeedbackStats;
+	trends: FeedbackTrends;
 	records: FeedbackRecord[];
+	pagination: FeedbackPagination;
+}
+
+/**
+ * Feedback stats for one page owned by an agency
+ */
+export interface AgencyPageFeedback {
+	id: number;
+	title: string;
+	url: string;
+	editUrl: string;
+	stats: FeedbackStats;
+}
+
+/**
+ * Feedback across every page whose primary agency is the given agency
+ */
+export interface AgencyFeedbackResponse {
+	agency: {
+		id: number;
+		title: string;
+	};
+	stats: FeedbackStats; // totals across all of the agency's pages
+	pages: AgencyPageFeedback[]; // worst performing first
+	pagesTruncated: boolean; // true if the agency has more pages than were checked, or time ran out
+	generatedAt: string; // ISO 8601 date string
 }
 
 /**
@@ -0,0 +1,33 @@
+/**
+ * TypeScript types for tracking how recently pages were reviewed
+ */
+
+/**
+ * A page owned by an agency, with its publish dates
+ */
+export interface StalePage {
+	id: number;
+	title: string;
+	url: string;
+	editUrl: string;
+	contentType: string;
+	firstPublishedAt: string | null; // ISO 8601 date string
+	lastPublishedAt: string | null;
+	daysSincePublished: number | null;
+}
+
+/**
+ * An agency's pages that have gone longest without being published, stalest
+ * first.  Whether a page is overdue depends on the review interval for its
+ * content type, which the extension works out from the dates.
+ */
+export interface StalePagesResponse {
+	agency: {
+		id: number;
+		title: string;
+	};
+	totalPages: number;
+	pages: StalePage[];
+	pagesTruncated: boolean; // true if the agency has more pages than were checked, so the ranking is partial
+	generatedAt: string; // ISO 8601 date string
+}
@@ -5,3 +5,6 @@
 export * from "./wagtail";
 export * from "./airtable";
 export * from "./link-check";
+export * from "./pdf-check";
+export * from "./messages";
+export * from "./content-freshness";
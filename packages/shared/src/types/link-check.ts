@@ -47,3 +47,77 @@ export interface LinkCheckErrorEvent {
  * Union type for all SSE events
  */
 export type LinkCheckEvent = LinkCheckResultEvent | LinkCheckCompleteEvent | LinkCheckErrorEvent;
+
+/**
+ * Request payload for the site crawl endpoint.
+ * Exactly one of rootPageId or agencyId must be provided.
+ */
+export interface LinkCrawlRequest {
+	rootPageId?: number;     // crawl this page and all of its descendants
+	agencyId?: number;       // crawl every page whose primary agency is this agency
+	locale?: string;         // limit the crawl to one locale (defaults to all)
+}
+
+/**
+ * A page visited during a crawl
+ */
+export interface LinkCrawlPage {
+	id: number;
+	title: string;
+	url: string;
+	editUrl: string;
+}
+
+/**
+ * A link that failed during a crawl, along with every page that contains it
+ */
+export interface LinkCrawlIssue extends LinkCheckResultEvent {
+	pages: LinkCrawlPage[];
+}
+
+/**
+ * Combined report produced at the end of a crawl
+ */
+export interface LinkCrawlReport {
+	pagesCrawled: number;
+	failedPageIds: number[]; // pages that couldn't be fetched from Wagtail
+	pagesTruncated: boolean; // true if there were more pages than one crawl covers
+	linksChecked: number;
+	totalLinks: number;
+	timedOut: boolean;       // true if the time budget ran out before every page and link was checked
+	issues: LinkCrawlIssue[];
+	startedAt: string;       // ISO 8601 date string
+	completedAt: string;     // ISO 8601 date string
+}
+
+/**
+ * Progress event sent as each page's links are collected (sent via SSE)
+ */
+export interface LinkCrawlPageEvent {
+	type: "page";
+	page: LinkCrawlPage;
+	linkCount: number;
+	pagesFound: number;
+}
+
+/**
+ * Progress event sent as each unique link is checked (sent via SSE)
+ */
+export interface LinkCrawlProgressEvent {
+	type: "progress";
+	checked: number;
+	total: number;
+}
+
+/**
+ * Final event containing the combined report (sent via SSE)
+ */
+export interface LinkCrawlReportEvent {
+	type: "report";
+	report: LinkCrawlReport;
+}
+
+/**
+ * Union type for all crawl SSE events
+ */
+export type LinkCrawlEvent = LinkCrawlPageEvent | LinkCrawlProgressEvent | LinkCrawlReportEvent | LinkCheckErrorEvent;
@@ -0,0 +1,139 @@
+/**
+ * Messages passed between the extension's content scripts, service worker
+ * and side panel
+ */
+
+import type { ApiError, WagtailPage } from "./wagtail";
+
+/**
+ * What the service worker knows about the page in a tab
+ */
+export interface TabPageState {
+	tabId: number;
+	url: string;
+	isOnSfGov: boolean;
+	isAdminPage: boolean;
+	pageData: WagtailPage | null;
+	// the published version, kept so it can be compared with a draft
+	livePageData: WagtailPage | null;
+	error: ApiError | null;
+	isLoading: boolean;
+	isPreviewMode: boolean;
+	previewUrl: string | null;
+	previewTimestamp: number;
+}
+
+/**
+ * Sent by the admin preview content script when the editor's preview button
+ * gets a new draft URL, and in reply to REQUEST_PREVIEW_STATE
+ */
+export interface PreviewUrlUpdateMessage {
+	type: "PREVIEW_URL_UPDATE";
+	url: string;
+	timestamp: number;
+}
+
+/**
+ * Sent by the admin preview content script when the preview button is
+ * disabled or missing, and in reply to REQUEST_PREVIEW_STATE
+ */
+export interface PreviewUnavailableMessage {
+	type: "PREVIEW_UNAVAILABLE";
+	timestamp: number;
+}
+
+/**
+ * Sent by the service worker to the admin preview content script in a tab
+ */
+export interface RequestPreviewStateMessage {
+	type: "REQUEST_PREVIEW_STATE";
+}
+
+/**
+ * Sent by the side panel to the element-highlighter content script, which
+ * replies with HIGHLIGHT_RESULT
+ */
+export interface HighlightElementMessage {
+	type: "HIGHLIGHT_ELEMENT";
+	selector: string;
+}
+
+export interface ClearHighlightMessage {
+	type: "CLEAR_HIGHLIGHT";
+}
+
+export interface HighlightResultMessage {
+	type: "HIGHLIGHT_RESULT";
+	found: boolean;
+}
+
+/**
+ * Sent by the side panel to the service worker when it shows a tab.  The
+ * service worker replies with TAB_STATE and then sends the tab's updates to
+ * that panel only.
+ */
+export interface GetTabStateMessage {
+	type: "GET_TAB_STATE";
+	tabId: number;
+	windowId: number;
+}
+
+/**
+ * Sent by the side panel to refetch a tab's page, skipping the cache
+ */
+export interface RetryTabMessage {
+	type: "RETRY_TAB";
+	tabId: number;
+}
+
+/**
+ * Sent by the service worker to the side panel showing the tab, in reply to
+ * GET_TAB_STATE and whenever the state changes
+ */
+export interface TabStateMessage {
+	type: "TAB_STATE";
+	state: TabPageState;
+}
+
+/**
+ * Sent by the service worker to the side panel in the window where the user
+ * switched tabs
+ */
+export interface ActiveTabChangedMessage {
+	type: "ACTIVE_TAB_CHANGED";
+	tabId: number;
+	windowId: number;
+}
+
+/**
+ * Every message, without the envelope
+ */
+export type MessagePayload =
+	| PreviewUrlUpdateMessage
+	| PreviewUnavailableMessage
+	| RequestPreviewStateMessage
+	| HighlightElementMessage
+	| ClearHighlightMessage
+	| HighlightResultMessage
+	| GetTabStateMessage
+	| RetryTabMessage
+	| TabStateMessage
+	| ActiveTabChangedMessage;
+
+export type MessageType = MessagePayload["type"];
+
+/**
+ * Fields added to every message, so replies can be matched to requests
+ */
+export interface MessageEnvelope {
+	id: string;
+	// the id of the request this message answers
+	replyTo?: string;
+}
+
+export type ExtensionMessage<T extends MessagePayload = MessagePayload> = T & MessageEnvelope;
+
+/**
+ * The message with a given type, e.g. MessageOfType<"TAB_STATE">
+ */
+export type MessageOfType<T extends MessageType> = ExtensionMessage<Extract<MessagePayload, { type: T }>>;
@@ -0,0 +1,19 @@
+/**
+ * TypeScript types for server-side PDF accessibility checks
+ */
+
+/**
+ * Result of inspecting a linked PDF
+ */
+export interface PdfCheckResult {
+	url: string;
+	status: "ok" | "error";
+	error?: string;          // For errors, e.g. when the file isn't a PDF
+	pageCount?: number;
+	fileSize?: number;       // Bytes
+	isTagged?: boolean;      // Has a structure tree that screen readers can follow
+	title?: string;          // Document title from the metadata, if set
+	language?: string;       // Document language, e.g. "en-US", if set
+	isScanned?: boolean;     // Has images but no text, so it needs OCR
+	checkedAt: string;       // ISO 8601 date string
+}
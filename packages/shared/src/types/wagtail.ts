@@ -11,6 +11,51 @@ export interface MediaAsset {
   url: string;
   type: 'image' | 'document';
   filename?: string;
+  width?: number; // original image dimensions, when the API returns them
+  height?: number;
+  fileSize?: number; // bytes
+  alt?: string;
+}
+
+/**
+ * Represents a page that references an image or document
+ */
+export interface MediaUsagePage {
+  id: number;
+  title: string;
+  url: string;
+  editUrl: string;
+}
+
+/**
+ * Response from the media usage endpoint, with the pages that reference each
+ * requested image and document, keyed by asset ID
+ */
+export interface MediaUsageResponse {
+  images: Record<string, MediaUsagePage[]>;
+  documents: Record<string, MediaUsagePage[]>;
+  pagesScanned: number;
+  indexTruncated: boolean; // set when the site has more pages than were scanned
+  indexedAt: string; // ISO 8601 date string
+}
+
+/**
+ * Represents a link found in a page's rich text content
+ */
+export interface PageLink {
+  url: string;
+  text: string;
+}
+
+/**
+ * Represents one block of a page's content, such as a StreamField block
+ */
+export interface ContentBlock {
+  id: string; // the block's ID, or field name and position if it has none
+  field: string;
+  type: string;
+  text: string;
+  shape: string; // summary of the block's markup, e.g. "p:2 li:4 a:1"
 }
 
 /**
@@ -20,8 +65,12 @@ export interface Translation {
   language: string;
   languageCode: string;
   pageId: number;
+  slug: string;
   editUrl: string;
+  translateUrl: string;
+  syncUrl: string | null; // wagtail-localize's update view, only known when the API exposes the page's translation source ID
   title: string;
+  lastPublishedAt: string | null; // ISO 8601 date string
 }
 
 /**
@@ -33,6 +82,27 @@ export interface Agency {
   url: string;
 }
 
+/**
+ * Represents a page near the current page in the site tree
+ */
+export interface PageTreeNode {
+  id: number;
+  title: string;
+  url: string;
+  editUrl: string;
+}
+
+/**
+ * Represents the pages around a page in the site tree
+ */
+export interface PageTree {
+  ancestors: PageTreeNode[]; // starting from the home page, ending with the parent
+  siblings: PageTreeNode[]; // other children of the parent
+  siblingCount: number; // may be more than siblings.length, which is capped by the API
+  children: PageTreeNode[];
+  childCount: number; // may be more than children.length, which is capped by the API
+}
+
 /**
  * Represents a form schema for sf.Form pages
  */
@@ -64,7 +134,13 @@ export interface WagtailPage {
   translations: Translation[];
   images: MediaAsset[];
   files: MediaAsset[];
+  links: PageLink[];
+  textBlocks: string[];
+  contentBlocks: ContentBlock[];
+  parentId?: number; // missing for the site's root page
   editUrl: string;
+  firstPublishedAt?: string; // ISO 8601 date string, missing for pages that were never published
+  lastPublishedAt?: string;
   meta: {
     type: string;
     detailUrl: string;
@@ -72,11 +148,23 @@ export interface WagtailPage {
   };
 }
 
+/**
+ * Kinds of errors returned by the Wagtail API client.
+ * The preview types are only used when fetching draft content.
+ */
+export type ApiErrorType =
+  | 'network'
+  | 'timeout'
+  | 'not_found'
+  | 'server_error'
+  | 'preview_not_found'
+  | 'preview_expired';
+
 /**
  * Represents an API error with type and retry information
  */
 export interface ApiError {
-  type: 'network' | 'timeout' | 'not_found' | 'server_error';
+  type: ApiErrorType;
   message: string;
   statusCode?: number;
   retryable: boolean;
@@ -0,0 +1,6 @@
+/**
+ * Shared utilities for SF.gov Wagtail Extension
+ */
+
+export * from "./rich-text";
+export * from "./messages";
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { createMessage, parseMessage } from "./messages";
+
+/**
+ * A valid message of each type, with the fields its validator requires
+ */
+const validMessages: Record<string, Record<string, unknown>> = {
+	PREVIEW_URL_UPDATE: { url: "https://api.sf.gov/preview/1", timestamp: 1 },
+	PREVIEW_UNAVAILABLE: { timestamp: 1 },
+	REQUEST_PREVIEW_STATE: {},
+	HIGHLIGHT_ELEMENT: { selector: "#main" },
+	CLEAR_HIGHLIGHT: {},
+	HIGHLIGHT_RESULT: { found: true },
+	GET_TAB_STATE: { tabId: 1, windowId: 2 },
+	RETRY_TAB: { tabId: 1 },
+	TAB_STATE: { state: { tabId: 1, url: "https://www.sf.gov/" } },
+	ACTIVE_TAB_CHANGED: { tabId: 1, windowId: 2 },
+};
+
+const requiredFields = Object.entries(validMessages).flatMap(([type, fields]) =>
+	Object.keys(fields).map((field) => [type, field] as const));
+
+describe("parseMessage", () => {
+	it.each([null, undefined, "PREVIEW_UNAVAILABLE", 1, true, [{ type: "CLEAR_HIGHLIGHT", id: "1" }]])(
+		"rejects %j",
+		(value) => {
+			expect(parseMessage(value)).toBeNull();
+		},
+	);
+
+	it.each(Object.entries(validMessages))("accepts a valid %s message", (type, fields) => {
+		const message = { type, id: "1", ...fields };
+
+		expect(parseMessage(message)).toBe(message);
+	});
+
+	it("rejects a missing or non-string id", () => {
+		expect(parseMessage({ type: "CLEAR_HIGHLIGHT" })).toBeNull();
+		expect(parseMessage({ type: "CLEAR_HIGHLIGHT", id: 1 })).toBeNull();
+	});
+
+	it("rejects a non-string replyTo", () => {
+		expect(parseMessage({ type: "CLEAR_HIGHLIGHT", id: "2", replyTo: 1 })).toBeNull();
+		expect(parseMessage({ type: "CLEAR_HIGHLIGHT", id: "2", replyTo: "1" })).not.toBeNull();
+	});
+
+	it("rejects an unknown or missing type", () => {
+		expect(parseMessage({ type: "UNKNOWN", id: "1" })).toBeNull();
+		expect(parseMessage({ type: "toString", id: "1" })).toBeNull();
+		expect(parseMessage({ id: "1" })).toBeNull();
+	});
+
+	it.each(requiredFields)("rejects a %s message without %s", (type, field) => {
+		const fields = { ...validMessages[type] };
+		delete fields[field];
+
+		expect(parseMessage({ type, id: "1", ...fields })).toBeNull();
+	});
+
+	it("rejects a TAB_STATE message whose state is missing its tab or URL", () => {
+		expect(parseMessage({ type: "TAB_STATE", id: "1", state: { url: "https://www.sf.gov/" } })).toBeNull();
+		expect(parseMessage({ type: "TAB_STATE", id: "1", state: { tabId: 1 } })).toBeNull();
+	});
+});
+
+describe("createMessage", () => {
+	it("gives each message a new id", () => {
+		const first = createMessage({ type: "CLEAR_HIGHLIGHT" });
+		const second = createMessage({ type: "CLEAR_HIGHLIGHT" });
+
+		expect(first.id).not.toBe(second.id);
+		expect(first).not.toHaveProperty("replyTo");
+	});
+
+	it("sets replyTo on replies", () => {
+		const request = createMessage({ type: "RETRY_TAB", tabId: 1 });
+		const reply = createMessage({ type: "HIGHLIGHT_RESULT", found: false }, request.id);
+
+		expect(reply).toMatchObject({ type: "HIGHLIGHT_RESULT", found: false, replyTo: request.id });
+		expect(parseMessage(reply)).toBe(reply);
+	});
+});
@@ -0,0 +1,80 @@
+/**
+ * Creating and validating extension messages.  Messages cross from web pages
+ * into the extension, so anything received is checked against the schema
+ * before it's handled.
+ */
+
+import type { ExtensionMessage, MessageEnvelope, MessageOfType, MessagePayload, MessageType } from "../types/messages";
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => !!value && typeof value === "object" && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Checks the fields of each message type, beyond the envelope
+ */
+const validators: { [T in MessageType]: (message: Fields) => boolean } = {
+	PREVIEW_URL_UPDATE: (message) => isString(message.url) && isNumber(message.timestamp),
+	PREVIEW_UNAVAILABLE: (message) => isNumber(message.timestamp),
+	REQUEST_PREVIEW_STATE: () => true,
+	HIGHLIGHT_ELEMENT: (message) => isString(message.selector),
+	CLEAR_HIGHLIGHT: () => true,
+	HIGHLIGHT_RESULT: (message) => typeof message.found === "boolean",
+	GET_TAB_STATE: (message) => isNumber(message.tabId) && isNumber(message.windowId),
+	RETRY_TAB: (message) => isNumber(message.tabId),
+	TAB_STATE: (message) => isObject(message.state) && isNumber(message.state.tabId) && isString(message.state.url),
+	ACTIVE_TAB_CHANGED: (message) => isNumber(message.tabId) && isNumber(message.windowId),
+};
+
+let messageCount = 0;
+
+/**
+ * Returns an id that's unique within the browser session
+ */
+function createMessageId(): string
+{
+	messageCount += 1;
+	return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}-${messageCount}`;
+}
+
+/**
+ * Wraps a payload in an envelope with a new id
+ * @param payload - The message type and fields
+ * @param replyTo - The id of the request this message answers
+ */
+export function createMessage<T extends MessagePayload>(payload: T, replyTo?: string): ExtensionMessage<T>
+{
+	const envelope: MessageEnvelope = replyTo ? { id: createMessageId(), replyTo } : { id: createMessageId() };
+	return { ...payload, ...envelope };
+}
+
+/**
+ * Validates a received value against the message schema
+ * @returns The message, or null if it isn't a valid extension message
+ */
+export function parseMessage(value: unknown): ExtensionMessage | null
+{
+	if (!isObject(value) || !isString(value.type) || !isString(value.id)) {
+		return null;
+	}
+
+	if (value.replyTo !== undefined && !isString(value.replyTo)) {
+		return null;
+	}
+
+	if (!Object.prototype.hasOwnProperty.call(validators, value.type)) {
+		return null;
+	}
+
+	return validators[value.type as MessageType](value) ? value as unknown as ExtensionMessage : null;
+}
+
+/**
+ * Narrows a message to one type
+ */
+export function isMessageOfType<T extends MessageType>(message: ExtensionMessage, type: T): message is MessageOfType<T>
+{
+	return message.type === type;
+}
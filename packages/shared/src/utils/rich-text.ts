@@ -0,0 +1,191 @@
+/**
+ * Helpers for reading rich text content from Wagtail API page data
+ */
+
+import type { ContentBlock, PageLink } from "../types/wagtail";
+
+/**
+ * Pattern that identifies a string as rich text HTML
+ */
+const HTML_PATTERN = /<\/?[a-z][^>]*>/i;
+
+/**
+ * Collects every rich text HTML string from the page content, skipping the
+ * API metadata.  DOMParser isn't available in the service worker or on the
+ * server, so the HTML is handled as text.
+ * @param pageData - Raw page data from the Wagtail API
+ * @returns Array of HTML strings in document order
+ */
+function findRichText(pageData: any): string[] {
+  const html: string[] = [];
+
+  function visit(obj: any): void {
+    if (typeof obj === 'string') {
+      if (HTML_PATTERN.test(obj)) {
+        html.push(obj);
+      }
+      return;
+    }
+
+    if (!obj || typeof obj !== 'object') return;
+
+    if (Array.isArray(obj)) {
+      obj.forEach(item => visit(item));
+    } else {
+      Object.entries(obj).forEach(([key, value]) => {
+        if (key !== 'meta') {
+          visit(value);
+        }
+      });
+    }
+  }
+
+  visit(pageData);
+
+  return html;
+}
+
+/**
+ * Converts an HTML fragment to plain text
+ * @param html - The HTML to convert
+ * @returns The text content with whitespace collapsed
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Extracts links from the page's rich text content.  Relative URLs are
+ * returned as-is.
+ * @param pageData - Raw page data from the Wagtail API
+ * @returns Array of PageLink objects, deduplicated by URL
+ */
+export function extractRichTextLinks(pageData: any): PageLink[] {
+  const links = new Map<string, PageLink>();
+  const anchorPattern = /<a\s[^>]*?href=(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi;
+
+  findRichText(pageData).forEach(html => {
+    for (const match of html.matchAll(anchorPattern)) {
+      const url = match[2].replace(/&amp;/g, '&');
+
+      if (url && !links.has(url)) {
+        links.set(url, { url, text: htmlToText(match[3]) });
+      }
+    }
+  });
+
+  return Array.from(links.values());
+}
+
+/**
+ * Extracts the page's body text as a list of paragraph-level blocks
+ * @param pageData - Raw page data from the Wagtail API
+ * @returns Array of non-empty text blocks in document order
+ */
+export function extractRichTextBlocks(pageData: any): string[] {
+  const blockEndPattern = /<\/(?:p|li|h[1-6]|blockquote|td|th|div)>|<br\s*\/?>/gi;
+
+  return findRichText(pageData)
+    .flatMap(html => html.split(blockEndPattern))
+    .map(htmlToText)
+    .filter(text => text.length > 0);
+}
+
+/**
+ * Tags counted when summarizing the markup of a block
+ */
+const SHAPE_TAGS = ['h2', 'h3', 'h4', 'p', 'li', 'a', 'tr', 'img'];
+
+/**
+ * Returns true if a value looks like a StreamField, i.e. a list of blocks
+ */
+function isStreamField(value: any): value is { id?: string; type: string; value: any }[] {
+  return Array.isArray(value)
+    && value.length > 0
+    && value.every(item => item && typeof item === 'object' && 'type' in item && 'value' in item);
+}
+
+/**
+ * Builds a content block from a block's value, reading the text of every
+ * string inside it and counting the main tags in its rich text
+ */
+function toContentBlock(id: string, field: string, type: string, value: any): ContentBlock {
+  const text: string[] = [];
+  const tagCounts = new Map<string, number>();
+
+  function visit(obj: any): void {
+    if (typeof obj === 'string') {
+      // skip URLs, which aren't translated
+      if (!/^(?:https?:|mailto:|tel:|\/)/.test(obj)) {
+        text.push(HTML_PATTERN.test(obj) ? htmlToText(obj) : obj.trim());
+      }
+
+      for (const match of obj.matchAll(/<([a-z][a-z0-9]*)[\s>]/gi)) {
+        const tag = match[1].toLowerCase();
+        if (SHAPE_TAGS.includes(tag)) {
+          tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
+        }
+      }
+      return;
+    }
+
+    if (!obj || typeof obj !== 'object') return;
+
+    if (Array.isArray(obj)) {
+      obj.forEach(item => visit(item));
+    } else {
+      Object.entries(obj).forEach(([key, child]) => {
+        if (key !== 'meta' && key !== 'id' && key !== 'type') {
+          visit(child);
+        }
+      });
+    }
+  }
+
+  visit(value);
+
+  return {
+    id,
+    field,
+    type,
+    text: text.filter(Boolean).join('\n'),
+    shape: SHAPE_TAGS
+      .filter(tag => tagCounts.has(tag))
+      .map(tag => `${tag}:${tagCounts.get(tag)}`)
+      .join(' '),
+  };
+}
+
+/**
+ * Splits the page's content into blocks that can be lined up with the same
+ * blocks in a translation.  StreamField blocks keep their IDs when they're
+ * translated, and other rich text fields become a single block each.
+ * @param pageData - Raw page data from the Wagtail API
+ * @returns Array of blocks in document order, starting with the title
+ */
+export function extractContentBlocks(pageData: any): ContentBlock[] {
+  const blocks: ContentBlock[] = [toContentBlock('title', 'title', 'title', pageData.title || '')];
+
+  Object.entries(pageData).forEach(([field, value]) => {
+    if (field === 'meta' || field === 'title') return;
+
+    if (isStreamField(value)) {
+      value.forEach((block, index) => {
+        blocks.push(toContentBlock(block.id || `${field}.${index}`, field, block.type, block.value));
+      });
+    } else if (typeof value === 'string' && HTML_PATTERN.test(value)) {
+      blocks.push(toContentBlock(field, field, 'rich_text', value));
+    }
+  });
+
+  return blocks;
+}